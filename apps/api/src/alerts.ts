@@ -0,0 +1,288 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import type { Station } from "@vlille/contracts";
+import { fetchStations, onStationsRefresh } from "./gbfs";
+import { createStore } from "./store";
+import {
+  createTransport,
+  type AlertTransport,
+  type Notification,
+  type PushTarget,
+} from "./transport";
+
+export type AlertKind = "bikes" | "docks";
+
+/** Langues des notifications (celles de l'interface web) */
+const ALERT_LANGS = ["fr", "en", "nl"] as const;
+type AlertLang = (typeof ALERT_LANGS)[number];
+
+export type Alert = {
+  id: string;
+  systemId: string;
+  stationId: string;
+  stationName?: string;
+  kind: AlertKind;
+  /** notifier dès que vélos (ou places) >= threshold */
+  threshold: number;
+  lang: AlertLang;
+  target: PushTarget;
+  createdAt: number;
+  expiresAt: number;
+};
+
+/** Alerte telle qu'exposée par l'API (sans les clés de l'abonnement) */
+export type PublicAlert = Omit<Alert, "target">;
+
+export type AlertRequest = Pick<
+  Alert,
+  "kind" | "threshold" | "lang" | "target"
+>;
+
+/** ALERTS_FILE="" : alertes gardées en mémoire seulement */
+const ALERTS_FILE =
+  process.env.ALERTS_FILE ?? path.join(process.cwd(), "data", "alerts.json");
+const POLL_MS = Number(process.env.ALERT_POLL_MS ?? 60_000);
+/** Une alerte non déclenchée expire (on ne prévient pas le lendemain) */
+const TTL_MS = Number(process.env.ALERT_TTL_HOURS ?? 12) * 60 * 60_000;
+const MAX_ALERTS = 10_000;
+const MAX_PER_TARGET = 20;
+const MAX_THRESHOLD = 200;
+/**
+ * Services push des navigateurs (Chrome, Firefox, Edge, Safari) : seuls ces
+ * hôtes et leurs sous-domaines sont acceptés comme endpoint, l'API ne doit
+ * pas envoyer de requêtes ailleurs. PUSH_HOSTS="a,b" pour changer la liste.
+ */
+const PUSH_HOSTS = (
+  process.env.PUSH_HOSTS ??
+  "fcm.googleapis.com,push.services.mozilla.com,notify.windows.com,push.apple.com"
+)
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Alertes en attente, par id (STORE_BACKEND=redis : partagées entre
+// réplicas). Une alerte est supprimée dès son déclenchement.
+const alerts = createStore(
+  "alerts",
+  ALERTS_FILE,
+  (id, alert): alert is Alert =>
+    typeof alert === "object" && alert !== null && (alert as Alert).id === id
+);
+let transport: AlertTransport = createTransport();
+
+export function getTransport() {
+  return transport;
+}
+
+/** Remplace le moyen d'envoi (tests, autre canal que Web Push) */
+export function setTransport(next: AlertTransport) {
+  transport = next;
+}
+
+export function toPublic({ target: _target, ...alert }: Alert): PublicAlert {
+  return alert;
+}
+
+const isAlertLang = (value: unknown): value is AlertLang =>
+  ALERT_LANGS.includes(value as AlertLang);
+
+/** Endpoint HTTPS d'un service push connu, sur le port par défaut */
+function isPushEndpoint(endpoint: string) {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.port || url.username) return false;
+  return PUSH_HOSTS.some(
+    (host) => url.hostname === host || url.hostname.endsWith(`.${host}`)
+  );
+}
+
+/** Valide le corps de POST /stations/:id/alerts ; `{ error }` si invalide */
+export function parseAlertRequest(
+  body: unknown
+): AlertRequest | { error: string } {
+  const { kind, threshold, lang, subscription } = (body ?? {}) as Record<
+    string,
+    unknown
+  >;
+
+  if (kind !== "bikes" && kind !== "docks") return { error: "invalid kind" };
+  if (
+    typeof threshold !== "number" ||
+    !Number.isInteger(threshold) ||
+    threshold < 1 ||
+    threshold > MAX_THRESHOLD
+  ) {
+    return { error: "invalid threshold" };
+  }
+  if (lang !== undefined && !isAlertLang(lang)) {
+    return { error: "invalid lang" };
+  }
+
+  const { endpoint, keys } = (subscription ?? {}) as Record<string, unknown>;
+  const { p256dh, auth } = (keys ?? {}) as Record<string, unknown>;
+  if (
+    typeof endpoint !== "string" ||
+    !isPushEndpoint(endpoint) ||
+    typeof p256dh !== "string" ||
+    typeof auth !== "string"
+  ) {
+    return { error: "invalid subscription" };
+  }
+
+  return {
+    kind,
+    threshold,
+    lang: lang ?? "fr",
+    target: { endpoint, keys: { p256dh, auth } },
+  };
+}
+
+/** `null` si la limite globale ou par abonnement est atteinte */
+export async function createAlert(
+  systemId: string,
+  station: Station,
+  request: AlertRequest,
+  now = Date.now()
+): Promise<Alert | null> {
+  const pending = await alerts.values();
+  const sameTarget = pending.filter(
+    (a) => a.target.endpoint === request.target.endpoint
+  );
+  if (pending.length >= MAX_ALERTS || sameTarget.length >= MAX_PER_TARGET) {
+    return null;
+  }
+
+  const alert: Alert = {
+    id: crypto.randomUUID(),
+    systemId,
+    stationId: station.id,
+    stationName: station.name,
+    ...request,
+    createdAt: now,
+    expiresAt: now + TTL_MS,
+  };
+  await alerts.set(alert.id, alert);
+  return alert;
+}
+
+/** Alertes en attente d'un abonnement push (identifié par son endpoint) */
+export async function listAlerts(endpoint: string): Promise<PublicAlert[]> {
+  return (await alerts.values())
+    .filter((a) => a.target.endpoint === endpoint)
+    .map(toPublic);
+}
+
+export function deleteAlert(id: string) {
+  return alerts.delete(id);
+}
+
+function isMet(alert: Alert, s: Station) {
+  if (!s.isInstalled) return false;
+  return alert.kind === "bikes"
+    ? s.isRenting && s.bikes >= alert.threshold
+    : s.isReturning && s.docks >= alert.threshold;
+}
+
+const NOTIFICATION_TEXT: Record<
+  AlertLang,
+  (kind: AlertKind, count: number, threshold: number) => string
+> = {
+  fr: (kind, count, threshold) => {
+    const plural = count > 1 ? "s" : "";
+    return `${count} ${kind === "bikes" ? `vélo${plural} disponible${plural}` : `place${plural} libre${plural}`} (alerte ≥ ${threshold})`;
+  },
+  en: (kind, count, threshold) => {
+    const plural = count > 1 ? "s" : "";
+    return `${count} ${kind === "bikes" ? `bike${plural} available` : `free dock${plural}`} (alert ≥ ${threshold})`;
+  },
+  nl: (kind, count, threshold) => {
+    const plural = count === 1 ? "" : "en";
+    return `${count} ${kind === "bikes" ? `fiets${plural} beschikbaar` : `vrije plaats${plural}`} (melding ≥ ${threshold})`;
+  },
+};
+
+function notificationFor(alert: Alert, s: Station): Notification {
+  const count = alert.kind === "bikes" ? s.bikes : s.docks;
+  return {
+    title: `${alert.kind === "bikes" ? "🚲" : "🅿️"} ${s.name}`,
+    body: NOTIFICATION_TEXT[alert.lang](alert.kind, count, alert.threshold),
+    url: `/${alert.lang}`,
+    tag: `alert-${alert.id}`,
+  };
+}
+
+async function deliver(alert: Alert, s: Station) {
+  try {
+    const result = await transport.send(
+      alert.target,
+      notificationFor(alert, s)
+    );
+    if (result === "gone") {
+      // abonnement révoqué : ses autres alertes ne pourront plus être livrées
+      for (const a of await alerts.values()) {
+        if (a.target.endpoint === alert.target.endpoint) {
+          await alerts.delete(a.id);
+        }
+      }
+    }
+  } catch (e) {
+    // échec temporaire : on réarme l'alerte pour le prochain rafraîchissement
+    console.error(`alerts: delivery of ${alert.id} failed`, e);
+    if (alert.expiresAt > Date.now()) await alerts.set(alert.id, alert);
+  }
+}
+
+/** Évalue les alertes d'un système sur un snapshot frais */
+export async function evaluateAlerts(
+  systemId: string,
+  stations: Station[],
+  now = Date.now()
+) {
+  const byId = new Map(stations.map((s) => [s.id, s]));
+  const due: Array<[Alert, Station]> = [];
+
+  for (const alert of await alerts.values()) {
+    if (alert.expiresAt <= now) {
+      await alerts.delete(alert.id);
+      continue;
+    }
+    if (alert.systemId !== systemId) continue;
+    const s = byId.get(alert.stationId);
+    if (!s || !isMet(alert, s)) continue;
+    // retirée avant l'envoi : pas de doublon si un rafraîchissement arrive
+    // entre-temps, ni si un autre réplica évalue le même snapshot
+    if (await alerts.delete(alert.id)) due.push([alert, s]);
+  }
+
+  await Promise.all(due.map(([alert, s]) => deliver(alert, s)));
+}
+
+/**
+ * Évalue les alertes à chaque rafraîchissement de fetchStations(), et
+ * rafraîchit périodiquement les systèmes qui ont des alertes en attente
+ * (sinon rien ne garantit qu'ils soient interrogés).
+ */
+export function startAlerts() {
+  onStationsRefresh((systemId, stations) => {
+    evaluateAlerts(systemId, stations).catch((e) =>
+      console.error("alerts: evaluation failed", e)
+    );
+  });
+
+  setInterval(async () => {
+    try {
+      const pending = await alerts.values();
+      for (const systemId of new Set(pending.map((a) => a.systemId))) {
+        fetchStations(systemId).catch((e) =>
+          console.error(`alerts: refreshing ${systemId} failed`, e)
+        );
+      }
+    } catch (e) {
+      console.error("alerts: listing failed", e);
+    }
+  }, POLL_MS).unref();
+}
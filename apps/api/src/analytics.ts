@@ -0,0 +1,150 @@
+import type { Station } from "@vlille/contracts";
+import { historyStationIds, queryHistory } from "./history";
+import { imbalanceLevel } from "./rebalancing";
+import { localTime } from "./time";
+
+/** Indicateurs du réseau à un instant donné */
+export type NetworkSummary = {
+  at: number;
+  /** stations publiées, dont `active` en service */
+  stations: number;
+  active: number;
+  bikes: number;
+  docks: number;
+  /** vélos / (vélos + places) des stations en service, de 0 à 1 */
+  occupancy: number;
+  empty: number;
+  full: number;
+  /** vélos par station en service, à 0,1 près */
+  avgBikes: number;
+};
+
+/** Un point de la série du réseau (stations connues de l'historique) */
+export type NetworkPoint = {
+  t: number;
+  bikes: number;
+  docks: number;
+  occupancy: number;
+  empty: number;
+  full: number;
+};
+
+export type StationActivity = { id: string; name: string; turnover: number };
+
+/**
+ * Activité sur une période : mouvements estimés (somme des variations de
+ * vélos entre deux relevés, donc un minorant), répartis par heure de la
+ * journée dans le fuseau du réseau, et stations les plus actives.
+ */
+export type NetworkActivity = {
+  from: number;
+  to: number;
+  turnover: number;
+  /** 24 valeurs : mouvements cumulés à chaque heure (0 = minuit–1 h) */
+  byHour: number[];
+  stations: StationActivity[];
+};
+
+const ratio = (value: number, total: number) =>
+  total ? Math.round((value / total) * 1000) / 1000 : 0;
+
+/** Compte vides / pleines d'après le même critère que le rééquilibrage */
+function countLevels(values: Iterable<{ bikes: number; docks: number }>) {
+  let empty = 0;
+  let full = 0;
+  for (const { bikes, docks } of values) {
+    const level = imbalanceLevel(bikes, docks);
+    if (level === "empty") empty++;
+    if (level === "full") full++;
+  }
+  return { empty, full };
+}
+
+/** Indicateurs sur toutes les stations (aucun filtre client) */
+export function networkSummary(
+  stations: Station[],
+  at = Date.now()
+): NetworkSummary {
+  const active = stations.filter((s) => s.isInstalled);
+  const bikes = active.reduce((acc, s) => acc + s.bikes, 0);
+  const docks = active.reduce((acc, s) => acc + s.docks, 0);
+
+  return {
+    at,
+    stations: stations.length,
+    active: active.length,
+    bikes,
+    docks,
+    occupancy: ratio(bikes, bikes + docks),
+    ...countLevels(active),
+    avgBikes: active.length ? Math.round((bikes / active.length) * 10) / 10 : 0,
+  };
+}
+
+/** Série du réseau sur [from, to], une valeur par `step` (ms) */
+export function networkTimeseries(
+  systemId: string,
+  from: number,
+  to: number,
+  step: number
+): NetworkPoint[] {
+  const byTime = new Map<number, Array<{ bikes: number; docks: number }>>();
+
+  for (const id of historyStationIds(systemId)) {
+    for (const p of queryHistory(systemId, id, from, to, step)) {
+      const values = byTime.get(p.t);
+      if (values) values.push(p);
+      else byTime.set(p.t, [p]);
+    }
+  }
+
+  return [...byTime]
+    .sort(([a], [b]) => a - b)
+    .map(([t, values]) => {
+      const bikes = values.reduce((acc, v) => acc + v.bikes, 0);
+      const docks = values.reduce((acc, v) => acc + v.docks, 0);
+      return {
+        t,
+        bikes,
+        docks,
+        occupancy: ratio(bikes, bikes + docks),
+        ...countLevels(values),
+      };
+    });
+}
+
+/** Mouvements estimés sur [from, to] et les `top` stations les plus actives */
+export function networkActivity(
+  systemId: string,
+  stations: Station[],
+  from: number,
+  to: number,
+  { top, timeZone }: { top: number; timeZone?: string }
+): NetworkActivity {
+  const names = new Map(stations.map((s) => [s.id, s.name]));
+  const byHour: number[] = Array(24).fill(0);
+  const activity: StationActivity[] = [];
+  let turnover = 0;
+
+  for (const id of historyStationIds(systemId)) {
+    // premier point = valeur en vigueur à `from`, puis chaque changement
+    const points = queryHistory(systemId, id, from, to);
+    let moves = 0;
+    for (let i = 1; i < points.length; i++) {
+      const delta = Math.abs(points[i].bikes - points[i - 1].bikes);
+      moves += delta;
+      byHour[localTime(points[i].t, timeZone).hour] += delta;
+    }
+    if (moves === 0) continue;
+    turnover += moves;
+    activity.push({ id, name: names.get(id) ?? id, turnover: moves });
+  }
+
+  return {
+    from,
+    to,
+    turnover,
+    byHour,
+    stations: activity.sort((a, b) => b.turnover - a.turnover).slice(0, top),
+  };
+}
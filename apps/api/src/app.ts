@@ -0,0 +1,722 @@
+import { createHash } from "node:crypto";
+import express from "express";
+import type { NextFunction, Request, Response } from "express";
+import cors from "cors";
+import type { Station } from "@vlille/contracts";
+import {
+  cacheMetrics,
+  fetchSnapshot,
+  fetchStations,
+  upstreamStatus,
+  type Snapshot,
+} from "./gbfs";
+import { forecastStation } from "./forecast";
+import { applyStationsQuery, parseStationsQuery } from "./query";
+import { nearestStations } from "./nearest";
+import { stationsPressure } from "./pressure";
+import { searchStations } from "./search";
+import { planTrip } from "./planner";
+import {
+  networkActivity,
+  networkSummary,
+  networkTimeseries,
+} from "./analytics";
+import {
+  GBFS_FEEDS,
+  gbfsDiscovery,
+  gbfsFeed,
+  historyCsv,
+  historyNdjson,
+  historyRecords,
+  stationsCsv,
+  stationsGeoJson,
+  type GbfsFeed,
+} from "./export";
+import { rebalancingMoves, stationImbalances } from "./rebalancing";
+import { geocode } from "./geocode";
+import {
+  getFavorites,
+  isValidToken,
+  parseFavorites,
+  setFavorites,
+} from "./favorites";
+import {
+  createAlert,
+  deleteAlert,
+  evaluateAlerts,
+  getTransport,
+  listAlerts,
+  parseAlertRequest,
+  toPublic,
+} from "./alerts";
+import { parseLatLon } from "./geo";
+import {
+  hasStation,
+  historyBounds,
+  queryHistory,
+  snapshotAt,
+  type HistoryPoint,
+} from "./history";
+import { subscribeStations } from "./stream";
+import {
+  DEFAULT_LANGUAGES,
+  DEFAULT_SYSTEM_ID,
+  SYSTEMS,
+  getSystem,
+} from "./systems";
+
+/** Application Express (routes seules : le démarrage est dans index.ts) */
+export const app = express();
+app.use(
+  cors({
+    exposedHeaders: [
+      "ETag",
+      "X-Total-Count",
+      "X-Data-Updated-At",
+      "X-Data-Age",
+      "X-Data-Stale",
+    ],
+  })
+);
+
+const HOUR_MS = 60 * 60_000;
+const MAX_HISTORY_POINTS = 5_000;
+const MAX_FORECAST_MS = 7 * 24 * HOUR_MS;
+const MAX_NEAREST = 20;
+const MAX_SEARCH_RESULTS = 20;
+const MAX_SEARCH_LENGTH = 100;
+const MAX_ACTIVITY_STATIONS = 50;
+/** Fenêtre maximale des tendances (couche “pression”) */
+const MAX_PRESSURE_WINDOW_MS = 3 * HOUR_MS;
+/** Âge maximal des données utilisées pour planifier un trajet */
+const TRIP_MAX_AGE_MS = 15_000;
+/** Délai pendant lequel un cache peut resservir une réponse expirée en revalidant */
+const STALE_WHILE_REVALIDATE_S = 60;
+
+/** Date en ISO 8601 ou timestamp en ms ; NaN si invalide */
+function parseTime(value: unknown, fallback: number) {
+  if (value === undefined || value === "") return fallback;
+  const raw = String(value);
+  return /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+}
+
+/** Durée "300", "30s", "15m", "1h" → ms (nombre seul = secondes) ; NaN si invalide */
+function parseDuration(value: string) {
+  const m = /^(\d+)(s|m|h)?$/.exec(value);
+  if (!m) return NaN;
+  const unit = m[2] === "h" ? HOUR_MS : m[2] === "m" ? 60_000 : 1_000;
+  return Number(m[1]) * unit;
+}
+
+/** Période [from, to] (24 h jusqu'à maintenant par défaut) ; null si invalide */
+function parseRange(query: Request["query"]) {
+  const to = parseTime(query.to, Date.now());
+  const from = parseTime(query.from, to - 24 * HOUR_MS);
+  if (Number.isNaN(from) || Number.isNaN(to) || from > to) return null;
+  return { from, to };
+}
+
+/**
+ * Stations courantes avec les vélos/places d'un relevé de l'historique :
+ * nom, position et états viennent du snapshot courant, la répartition par
+ * type de vélo n'est pas historisée
+ */
+function stationsAt(current: Station[], values: Map<string, HistoryPoint>) {
+  const stations: Station[] = [];
+  for (const s of current) {
+    const p = values.get(s.id);
+    if (!p) continue;
+    stations.push({
+      ...s,
+      bikes: p.bikes,
+      docks: p.docks,
+      mechanical: undefined,
+      ebikes: undefined,
+      vehicleTypes: undefined,
+      lastReported: p.t,
+    });
+  }
+  return stations;
+}
+
+/** Fraîcheur des données servies : date GBFS, âge (s), snapshot de secours */
+function setFreshness(res: Response, snapshot: Snapshot) {
+  res.set({
+    "X-Data-Updated-At": new Date(snapshot.lastUpdated).toISOString(),
+    "X-Data-Age": String(
+      Math.max(0, Math.round((Date.now() - snapshot.lastUpdated) / 1000))
+    ),
+    "X-Data-Stale": String(snapshot.stale),
+  });
+}
+
+/**
+ * Le client a-t-il déjà cette version ? If-None-Match prime sur
+ * If-Modified-Since (RFC 9110). Contrairement à `req.fresh`, on ignore
+ * `Cache-Control: no-cache` côté requête : fetch l'ajoute d'office dès qu'une
+ * requête porte un validateur, c'est justement une demande de revalidation.
+ */
+function notModified(req: Request, etag: string, lastModified: number) {
+  const noneMatch = req.get("If-None-Match");
+  if (noneMatch) {
+    return (
+      noneMatch.trim() === "*" ||
+      noneMatch.split(",").some((t) => t.trim().replace(/^W\//, "") === etag)
+    );
+  }
+  const since = Date.parse(req.get("If-Modified-Since") ?? "");
+  // Last-Modified est à la seconde près
+  return (
+    !Number.isNaN(since) && Math.floor(lastModified / 1000) * 1000 <= since
+  );
+}
+
+/**
+ * Réponse JSON revalidable : ETag (hash du corps), Last-Modified (date GBFS)
+ * et `max-age` jusqu'à l'expiration du snapshot. Si le client possède déjà
+ * cette version (If-None-Match / If-Modified-Since), 304 sans corps.
+ */
+function sendCacheable(
+  req: Request,
+  res: Response,
+  snapshot: Snapshot,
+  data: unknown
+) {
+  const body = JSON.stringify(data);
+  // snapshot de secours : on revalide à chaque fois pour récupérer la reprise
+  const maxAge = snapshot.stale
+    ? 0
+    : Math.max(0, Math.floor((snapshot.expiresAt - Date.now()) / 1000));
+  const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+  res.set({
+    ETag: etag,
+    "Last-Modified": new Date(snapshot.lastUpdated).toUTCString(),
+    "Cache-Control": `public, max-age=${maxAge}, stale-while-revalidate=${STALE_WHILE_REVALIDATE_S}`,
+  });
+  if (notModified(req, etag, snapshot.lastUpdated)) {
+    return res.status(304).end();
+  }
+  res.type("json").send(body);
+}
+
+/** Résout le système GBFS ciblé (paramètre de route, sinon système par défaut) */
+function resolveSystem(req: Request, res: Response, next: NextFunction) {
+  const systemId = req.params.systemId ?? DEFAULT_SYSTEM_ID;
+  if (!getSystem(systemId)) {
+    return res.status(404).json({ error: "unknown system" });
+  }
+  res.locals.systemId = systemId;
+  next();
+}
+
+// Routes stations, montées sous /systems/:systemId et à la racine (défaut)
+const stationsRouter = express.Router({ mergeParams: true });
+
+stationsRouter.get("/stations", async (req, res) => {
+  const query = parseStationsQuery(req.query);
+  if ("error" in query) return res.status(400).json(query);
+
+  try {
+    const snapshot = await fetchSnapshot(res.locals.systemId);
+    const result = applyStationsQuery(snapshot.stations, query);
+    setFreshness(res, snapshot);
+    // total avant pagination (limit/offset)
+    res.set("X-Total-Count", String(result.total));
+    sendCacheable(req, res, snapshot, result.stations);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+stationsRouter.get("/stations/stream", subscribeStations);
+
+stationsRouter.get("/stations/nearest", async (req, res) => {
+  const near = parseLatLon(String(req.query.near ?? ""));
+  const mode = req.query.mode ?? "bike";
+  const count = Number(req.query.count ?? 5);
+  const min = Number(req.query.min ?? 1);
+
+  if (!near) return res.status(400).json({ error: "invalid near" });
+  if (mode !== "bike" && mode !== "dock") {
+    return res.status(400).json({ error: "invalid mode" });
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_NEAREST) {
+    return res.status(400).json({ error: "invalid count" });
+  }
+  if (!Number.isInteger(min) || min < 1) {
+    return res.status(400).json({ error: "invalid min" });
+  }
+
+  try {
+    const snapshot = await fetchSnapshot(res.locals.systemId);
+    setFreshness(res, snapshot);
+    res.json(nearestStations(snapshot.stations, near, { mode, count, min }));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+// Recherche approximative par nom ou adresse (mêmes résultats pour tous les clients)
+stationsRouter.get("/stations/search", async (req, res) => {
+  const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  const limit = Number(req.query.limit ?? 8);
+  if (!q || q.length > MAX_SEARCH_LENGTH) {
+    return res.status(400).json({ error: "invalid q" });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_RESULTS) {
+    return res.status(400).json({ error: "invalid limit" });
+  }
+
+  try {
+    const snapshot = await fetchSnapshot(res.locals.systemId);
+    setFreshness(res, snapshot);
+    res.json(searchStations(snapshot.stations, q, limit));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+// Stations qui se vident / se remplissent (variations récentes de l'historique)
+stationsRouter.get("/stations/pressure", async (req, res) => {
+  const windowMs = parseDuration(String(req.query.window ?? "30m"));
+  if (!(windowMs > 0) || windowMs > MAX_PRESSURE_WINDOW_MS) {
+    return res.status(400).json({ error: "invalid window" });
+  }
+
+  try {
+    const snapshot = await fetchSnapshot(res.locals.systemId);
+    setFreshness(res, snapshot);
+    res.json({
+      window: windowMs,
+      stations: stationsPressure(snapshot.stations, windowMs),
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+// Rejeu : stations telles qu'enregistrées au relevé le plus proche de `at`
+stationsRouter.get("/stations/replay", async (req, res) => {
+  const at = parseTime(req.query.at, Date.now());
+  if (Number.isNaN(at)) return res.status(400).json({ error: "invalid at" });
+
+  const { systemId } = res.locals;
+  const bounds = historyBounds(systemId);
+  const replay = snapshotAt(systemId, at);
+  if (!bounds || !replay) {
+    return res.status(404).json({ error: "no history for this system" });
+  }
+
+  try {
+    const snapshot = await fetchSnapshot(systemId);
+    const stations = stationsAt(snapshot.stations, replay.values);
+    res.json({ at: replay.t, requested: at, ...bounds, stations });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+// Après les routes /stations/<nom> : `:id` les masquerait sinon
+stationsRouter.get("/stations/:id", async (req, res) => {
+  try {
+    const snapshot = await fetchSnapshot(res.locals.systemId);
+    const station = snapshot.stations.find((s) => s.id === req.params.id);
+    if (!station) return res.status(404).json({ error: "unknown station" });
+    setFreshness(res, snapshot);
+    sendCacheable(req, res, snapshot, station);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+stationsRouter.get("/stations/:id/history", (req, res) => {
+  const now = Date.now();
+  const to = parseTime(req.query.to, now);
+  const from = parseTime(req.query.from, to - 24 * HOUR_MS);
+  const step = req.query.step
+    ? parseDuration(String(req.query.step))
+    : undefined;
+
+  if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+    return res.status(400).json({ error: "invalid from/to" });
+  }
+  if (step !== undefined && !(step > 0)) {
+    return res.status(400).json({ error: "invalid step" });
+  }
+  if (step && (to - from) / step > MAX_HISTORY_POINTS) {
+    return res.status(400).json({ error: "step too small for this range" });
+  }
+  const { systemId } = res.locals;
+  if (!hasStation(systemId, req.params.id)) {
+    return res.status(404).json({ error: "unknown station" });
+  }
+
+  res.json({
+    id: req.params.id,
+    systemId,
+    from,
+    to,
+    step: step ?? null,
+    points: queryHistory(systemId, req.params.id, from, to, step),
+  });
+});
+
+stationsRouter.get("/stations/:id/forecast", async (req, res) => {
+  const now = Date.now();
+  const at = parseTime(req.query.at, now);
+
+  if (Number.isNaN(at) || at < now - 60_000 || at - now > MAX_FORECAST_MS) {
+    return res.status(400).json({ error: "invalid at" });
+  }
+
+  try {
+    const stations = await fetchStations(res.locals.systemId);
+    const station = stations.find((s) => s.id === req.params.id);
+    if (!station) return res.status(404).json({ error: "unknown station" });
+    res.json(forecastStation(station, at, now));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+stationsRouter.get("/trips/plan", async (req, res) => {
+  const from = parseLatLon(String(req.query.from ?? ""));
+  const to = parseLatLon(String(req.query.to ?? ""));
+  if (!from) return res.status(400).json({ error: "invalid from" });
+  if (!to) return res.status(400).json({ error: "invalid to" });
+
+  try {
+    // disponibilités re-vérifiées aux deux bouts : cache plus court que /stations
+    const snapshot = await fetchSnapshot(res.locals.systemId, TRIP_MAX_AGE_MS);
+    const plan = planTrip(snapshot.stations, from, to);
+    setFreshness(res, snapshot);
+    if (!plan) {
+      return res
+        .status(404)
+        .json({ error: "no station within walking distance" });
+    }
+    res.json({
+      ...plan,
+      checkedAt: snapshot.fetchedAt,
+      stale: snapshot.stale,
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+// Tableau de bord des équipes terrain : stations déséquilibrées et
+// déplacements de vélos proposés
+stationsRouter.get("/rebalancing", async (req, res) => {
+  try {
+    const snapshot = await fetchSnapshot(res.locals.systemId);
+    const stations = stationImbalances(snapshot.stations);
+    setFreshness(res, snapshot);
+    res.json({
+      updatedAt: snapshot.lastUpdated,
+      stale: snapshot.stale,
+      stations,
+      moves: rebalancingMoves(snapshot.stations, stations),
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+// Indicateurs de tout le réseau (sans filtre), ou au relevé le plus proche
+// de `at` pendant un rejeu
+stationsRouter.get("/analytics/summary", async (req, res) => {
+  const at = parseTime(req.query.at, Date.now());
+  if (Number.isNaN(at)) return res.status(400).json({ error: "invalid at" });
+
+  try {
+    const { systemId } = res.locals;
+    const snapshot = await fetchSnapshot(systemId);
+    if (req.query.at === undefined) {
+      setFreshness(res, snapshot);
+      return res.json(networkSummary(snapshot.stations, snapshot.lastUpdated));
+    }
+
+    const replay = snapshotAt(systemId, at);
+    if (!replay) {
+      return res.status(404).json({ error: "no history for this system" });
+    }
+    res.json(
+      networkSummary(stationsAt(snapshot.stations, replay.values), replay.t)
+    );
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+// Évolution du réseau (remplissage, stations vides / pleines) sur une période
+stationsRouter.get("/analytics/timeseries", (req, res) => {
+  const range = parseRange(req.query);
+  const step = parseDuration(String(req.query.step ?? "15m"));
+  if (!range) return res.status(400).json({ error: "invalid from/to" });
+  if (!(step > 0)) return res.status(400).json({ error: "invalid step" });
+  if ((range.to - range.from) / step > MAX_HISTORY_POINTS) {
+    return res.status(400).json({ error: "step too small for this range" });
+  }
+
+  const { from, to } = range;
+  res.json({
+    from,
+    to,
+    step,
+    points: networkTimeseries(res.locals.systemId, from, to, step),
+  });
+});
+
+// Mouvements estimés : total, par heure de la journée, stations les plus actives
+stationsRouter.get("/analytics/activity", async (req, res) => {
+  const range = parseRange(req.query);
+  const limit = Number(req.query.limit ?? 10);
+  if (!range) return res.status(400).json({ error: "invalid from/to" });
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ACTIVITY_STATIONS) {
+    return res.status(400).json({ error: "invalid limit" });
+  }
+
+  try {
+    const { systemId } = res.locals;
+    // noms des stations
+    const snapshot = await fetchSnapshot(systemId);
+    res.json(
+      networkActivity(systemId, snapshot.stations, range.from, range.to, {
+        top: limit,
+        timeZone: getSystem(systemId)?.timeZone,
+      })
+    );
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+// Exports des stations courantes (mêmes filtres que GET /stations)
+stationsRouter.get("/export/stations.:format", async (req, res) => {
+  const { format } = req.params;
+  if (format !== "geojson" && format !== "csv") {
+    return res.status(404).json({ error: "unknown format" });
+  }
+  const query = parseStationsQuery(req.query);
+  if ("error" in query) return res.status(400).json(query);
+
+  try {
+    const { systemId } = res.locals;
+    const snapshot = await fetchSnapshot(systemId);
+    const { stations } = applyStationsQuery(snapshot.stations, query);
+    setFreshness(res, snapshot);
+    res.attachment(`${systemId}-stations.${format}`);
+    if (format === "csv") res.type("text/csv").send(stationsCsv(stations));
+    else res.type("application/geo+json").json(stationsGeoJson(stations));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+// Export de l'historique enregistré sur une période (24 h par défaut)
+stationsRouter.get("/export/history.:format", async (req, res) => {
+  const { format } = req.params;
+  if (format !== "csv" && format !== "ndjson") {
+    return res.status(404).json({ error: "unknown format" });
+  }
+  const range = parseRange(req.query);
+  if (!range) return res.status(400).json({ error: "invalid from/to" });
+
+  const { systemId } = res.locals;
+  if (!historyBounds(systemId)) {
+    return res.status(404).json({ error: "no history for this system" });
+  }
+  const records = historyRecords(systemId, range.from, range.to);
+  res.attachment(`${systemId}-history.${format}`);
+  if (format === "ndjson") {
+    return res.type("application/x-ndjson").send(historyNdjson(records));
+  }
+
+  try {
+    // noms des stations
+    const snapshot = await fetchSnapshot(systemId);
+    const names = new Map(snapshot.stations.map((s) => [s.id, s.name]));
+    res.type("text/csv").send(historyCsv(records, names));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+// Flux GBFS republié à partir des stations fusionnées et validées
+stationsRouter.get("/gbfs/:feed.json", async (req, res) => {
+  const { feed } = req.params;
+  if (feed !== "gbfs" && !GBFS_FEEDS.includes(feed as GbfsFeed)) {
+    return res.status(404).json({ error: "unknown feed" });
+  }
+
+  try {
+    const { systemId } = res.locals;
+    const system = getSystem(systemId)!;
+    const language = system.languages?.[0] ?? DEFAULT_LANGUAGES[0] ?? "en";
+    const snapshot = await fetchSnapshot(systemId);
+    setFreshness(res, snapshot);
+    if (feed === "gbfs") {
+      const baseUrl = `${req.protocol}://${req.get("host")}${req.baseUrl}/gbfs`;
+      return res.json(gbfsDiscovery(snapshot, language, baseUrl));
+    }
+    res.json(gbfsFeed(feed as GbfsFeed, system, snapshot, language));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "failed to fetch stations" });
+  }
+});
+
+stationsRouter.post(
+  "/stations/:id/alerts",
+  express.json({ limit: "4kb" }),
+  async (req, res) => {
+    const request = parseAlertRequest(req.body);
+    if ("error" in request) return res.status(400).json(request);
+
+    try {
+      const systemId = res.locals.systemId;
+      const stations = await fetchStations(systemId);
+      const station = stations.find((s) => s.id === req.params.id);
+      if (!station) return res.status(404).json({ error: "unknown station" });
+
+      const alert = await createAlert(systemId, station, request);
+      if (!alert) return res.status(429).json({ error: "too many alerts" });
+      res.status(201).json(toPublic(alert));
+      // condition peut-être déjà remplie : inutile d'attendre le prochain rafraîchissement
+      evaluateAlerts(systemId, stations).catch((e) => console.error(e));
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: "failed to fetch stations" });
+    }
+  }
+);
+
+app.get("/geocode", async (req, res) => {
+  const q = String(req.query.q ?? "").trim();
+  const near = req.query.near ? parseLatLon(String(req.query.near)) : undefined;
+  if (q.length < 3 || q.length > 200) {
+    return res.status(400).json({ error: "invalid q" });
+  }
+  if (near === null) return res.status(400).json({ error: "invalid near" });
+
+  try {
+    res.json(await geocode(q, near));
+  } catch (e) {
+    console.error(e);
+    res.status(502).json({ error: "failed to geocode" });
+  }
+});
+
+// Favoris synchronisés, indexés par un jeton anonyme généré côté client
+app.get("/favorites/:token", async (req, res) => {
+  if (!isValidToken(req.params.token)) {
+    return res.status(400).json({ error: "invalid token" });
+  }
+  try {
+    res.json({ favorites: await getFavorites(req.params.token) });
+  } catch (e) {
+    console.error(e);
+    res.status(503).json({ error: "favorites store unavailable" });
+  }
+});
+
+app.put(
+  "/favorites/:token",
+  express.json({ limit: "16kb" }),
+  async (req, res) => {
+    if (!isValidToken(req.params.token)) {
+      return res.status(400).json({ error: "invalid token" });
+    }
+    const favorites = parseFavorites(req.body);
+    if ("error" in favorites) return res.status(400).json(favorites);
+    try {
+      if (!(await setFavorites(req.params.token, favorites))) {
+        return res.status(503).json({ error: "favorites store is full" });
+      }
+      res.json({ favorites });
+    } catch (e) {
+      console.error(e);
+      res.status(503).json({ error: "favorites store unavailable" });
+    }
+  }
+);
+
+app.delete("/favorites/:token", async (req, res) => {
+  if (!isValidToken(req.params.token)) {
+    return res.status(400).json({ error: "invalid token" });
+  }
+  try {
+    await setFavorites(req.params.token, []);
+    res.status(204).end();
+  } catch (e) {
+    console.error(e);
+    res.status(503).json({ error: "favorites store unavailable" });
+  }
+});
+
+// Alertes de disponibilité (Web Push)
+app.get("/alerts/public-key", (_req, res) => {
+  const { publicKey } = getTransport();
+  if (!publicKey) return res.status(503).json({ error: "push not configured" });
+  res.json({ publicKey });
+});
+
+app.get("/alerts", async (req, res) => {
+  const endpoint = req.query.endpoint;
+  if (typeof endpoint !== "string" || !endpoint) {
+    return res.status(400).json({ error: "invalid endpoint" });
+  }
+  try {
+    res.json(await listAlerts(endpoint));
+  } catch (e) {
+    console.error(e);
+    res.status(503).json({ error: "alerts store unavailable" });
+  }
+});
+
+app.delete("/alerts/:id", async (req, res) => {
+  try {
+    if (!(await deleteAlert(req.params.id))) {
+      return res.status(404).json({ error: "unknown alert" });
+    }
+    res.status(204).end();
+  } catch (e) {
+    console.error(e);
+    res.status(503).json({ error: "alerts store unavailable" });
+  }
+});
+
+// État des sources GBFS (disjoncteur, dernière donnée reçue)
+app.get("/health", (_req, res) => {
+  res.json({
+    systems: SYSTEMS.map((s) => ({ id: s.id, ...upstreamStatus(s.id) })),
+  });
+});
+
+// Compteurs du cache (hits, misses, rafraîchissements partagés…)
+app.get("/metrics", (_req, res) => {
+  res.json({ cache: cacheMetrics() });
+});
+
+app.get("/systems", (_req, res) => {
+  res.json(
+    SYSTEMS.map((s) => ({ ...s, isDefault: s.id === DEFAULT_SYSTEM_ID }))
+  );
+});
+
+app.use("/systems/:systemId", resolveSystem, stationsRouter);
+app.use(resolveSystem, stationsRouter);
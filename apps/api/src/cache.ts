@@ -0,0 +1,296 @@
+import Redis from "ioredis";
+
+export type CacheEntry<T> = {
+  value: T;
+  /** date d'écriture (ms epoch), identifie une version de l'entrée */
+  storedAt: number;
+  /** au-delà, l'entrée doit être rafraîchie (mais reste servable en secours) */
+  expiresAt: number;
+};
+
+/**
+ * Stockage partagé des entrées. `lock` est un verrou best-effort (SET NX PX)
+ * pour qu'un seul réplica rafraîchisse une clé à la fois ; `lease` un bail
+ * que son détenteur (`owner`) prolonge à chaque appel, pour qu'un seul
+ * réplica assure une tâche de fond tant qu'il est en vie.
+ */
+export type CacheBackend = {
+  name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>, keepMs: number): Promise<void>;
+  lock(key: string, ttlMs: number): Promise<boolean>;
+  unlock(key: string): Promise<void>;
+  lease(key: string, owner: string, ttlMs: number): Promise<boolean>;
+};
+
+export type CacheMetrics = {
+  /** entrée valide servie */
+  hits: number;
+  /** entrée absente ou expirée */
+  misses: number;
+  /** rafraîchissements effectifs (appels à `load`) */
+  refreshes: number;
+  /** demandes rattachées à un rafraîchissement déjà en cours */
+  coalesced: number;
+  /** rafraîchissements anticipés, lancés en tâche de fond */
+  background: number;
+  /** entrée fournie par un autre réplica pendant l'attente du verrou */
+  shared: number;
+  errors: number;
+};
+
+/** Une entrée expirée reste conservée ce temps-là (secours si l'amont tombe) */
+const KEEP_MS = 24 * 60 * 60_000;
+const LOCK_TTL_MS = 15_000;
+const LOCK_POLL_MS = 250;
+const LOCK_WAIT_MS = 5_000;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Entrées en mémoire du processus (un seul réplica) */
+export function memoryBackend(): CacheBackend {
+  const entries = new Map<string, CacheEntry<unknown>>();
+  const locks = new Map<string, number>();
+  const leases = new Map<string, { owner: string; until: number }>();
+  return {
+    name: "memory",
+    async get<T>(key: string) {
+      return entries.get(key) as CacheEntry<T> | undefined;
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+    async lock(key, ttlMs) {
+      const until = locks.get(key);
+      if (until !== undefined && until > Date.now()) return false;
+      locks.set(key, Date.now() + ttlMs);
+      return true;
+    },
+    async unlock(key) {
+      locks.delete(key);
+    },
+    async lease(key, owner, ttlMs) {
+      const held = leases.get(key);
+      if (held && held.owner !== owner && held.until > Date.now()) {
+        return false;
+      }
+      leases.set(key, { owner, until: Date.now() + ttlMs });
+      return true;
+    },
+  };
+}
+
+/**
+ * Connexion Redis (ou compatible : Valkey, KeyDB…). Hors connexion, les
+ * commandes échouent tout de suite plutôt que d'attendre la reconnexion : à
+ * l'appelant de se rabattre sur sa copie locale ou de renvoyer une erreur.
+ */
+export function connectRedis(url: string, name: string) {
+  const redis = new Redis(url, {
+    enableOfflineQueue: false,
+    maxRetriesPerRequest: 1,
+    commandTimeout: 2_000,
+  });
+  let down = false;
+  redis.on("ready", () => {
+    down = false;
+  });
+  redis.on("error", (e) => {
+    if (!down) console.error(`${name}: redis unavailable`, e.message);
+    down = true;
+  });
+  return redis;
+}
+
+/** Redis, partagé entre réplicas */
+export function redisBackend(url: string, prefix = "vlille:"): CacheBackend {
+  const redis = connectRedis(url, "cache");
+
+  return {
+    name: "redis",
+    async get<T>(key: string) {
+      const raw = await redis.get(prefix + key);
+      return raw ? (JSON.parse(raw) as CacheEntry<T>) : undefined;
+    },
+    async set(key, entry, keepMs) {
+      await redis.set(prefix + key, JSON.stringify(entry), "PX", keepMs);
+    },
+    async lock(key, ttlMs) {
+      const ok = await redis.set(`${prefix}lock:${key}`, "1", "PX", ttlMs, "NX");
+      return ok === "OK";
+    },
+    async unlock(key) {
+      await redis.del(`${prefix}lock:${key}`);
+    },
+    async lease(key, owner, ttlMs) {
+      const name = `${prefix}lease:${key}`;
+      if ((await redis.set(name, owner, "PX", ttlMs, "NX")) === "OK") {
+        return true;
+      }
+      if ((await redis.get(name)) !== owner) return false;
+      await redis.pexpire(name, ttlMs);
+      return true;
+    },
+  };
+}
+
+/** CACHE_BACKEND=memory|redis (REDIS_URL, défaut redis://localhost:6379) */
+export function createBackend(): CacheBackend {
+  const wanted = process.env.CACHE_BACKEND ?? "memory";
+  if (wanted === "memory") return memoryBackend();
+  if (wanted === "redis") {
+    return redisBackend(process.env.REDIS_URL ?? "redis://localhost:6379");
+  }
+  throw new Error(`unknown CACHE_BACKEND: ${wanted}`);
+}
+
+/**
+ * Cache lecture/rafraîchissement au-dessus d'un backend :
+ * - un seul `load` en cours par clé (les demandes concurrentes le partagent) ;
+ * - verrou entre réplicas : si un autre réplica rafraîchit, on attend son
+ *   résultat plutôt que d'interroger l'amont à notre tour ;
+ * - rafraîchissement anticipé en tâche de fond quand l'entrée approche de
+ *   son expiration (`refreshAheadMs`) ;
+ * - copie locale : tant que la version partagée ne change pas, la même
+ *   référence d'objet est renvoyée (comparaisons par référence possibles).
+ */
+export function createCache<T>({
+  backend,
+  load,
+  refreshAheadMs = 0,
+  onUpdate,
+}: {
+  backend: CacheBackend;
+  load: (key: string) => Promise<{ value: T; expiresAt: number }>;
+  refreshAheadMs?: number;
+  /** nouvelle version d'une entrée, chargée ici ou lue depuis le backend */
+  onUpdate?: (key: string, entry: CacheEntry<T>) => void;
+}) {
+  const local = new Map<string, CacheEntry<T>>();
+  const inflight = new Map<string, Promise<CacheEntry<T>>>();
+  const metrics: CacheMetrics = {
+    hits: 0,
+    misses: 0,
+    refreshes: 0,
+    coalesced: 0,
+    background: 0,
+    shared: 0,
+    errors: 0,
+  };
+
+  function notify(key: string, entry: CacheEntry<T>) {
+    try {
+      onUpdate?.(key, entry);
+    } catch (e) {
+      console.error("cache: update listener failed", e);
+    }
+  }
+
+  async function read(key: string) {
+    let remote: CacheEntry<T> | undefined;
+    try {
+      remote = await backend.get<T>(key);
+    } catch {
+      // backend indisponible : on se contente de la copie locale
+      return local.get(key);
+    }
+    const mine = local.get(key);
+    if (!remote || (mine && mine.storedAt >= remote.storedAt)) return mine;
+    // nouvelle version publiée par un autre réplica
+    local.set(key, remote);
+    notify(key, remote);
+    return remote;
+  }
+
+  async function store(key: string, entry: CacheEntry<T>) {
+    local.set(key, entry);
+    notify(key, entry);
+    const keepMs = Math.max(entry.expiresAt - Date.now(), 0) + KEEP_MS;
+    // backend indisponible : l'entrée reste au moins dans la copie locale
+    await backend.set(key, entry, keepMs).catch(() => {});
+  }
+
+  /** Attend qu'un autre réplica publie une version plus récente que `since` */
+  async function waitForPeer(key: string, since: number) {
+    for (let waited = 0; waited < LOCK_WAIT_MS; waited += LOCK_POLL_MS) {
+      await sleep(LOCK_POLL_MS);
+      const entry = await read(key);
+      if (entry && entry.storedAt > since) return entry;
+    }
+    return undefined;
+  }
+
+  async function doRefresh(key: string, previous?: CacheEntry<T>) {
+    const locked = await backend.lock(key, LOCK_TTL_MS).catch(() => true);
+    if (!locked) {
+      const entry = await waitForPeer(key, previous?.storedAt ?? 0);
+      if (entry) {
+        metrics.shared++;
+        return entry;
+      }
+    }
+
+    try {
+      metrics.refreshes++;
+      const { value, expiresAt } = await load(key);
+      const entry: CacheEntry<T> = { value, storedAt: Date.now(), expiresAt };
+      await store(key, entry);
+      return entry;
+    } catch (e) {
+      metrics.errors++;
+      throw e;
+    } finally {
+      if (locked) backend.unlock(key).catch(() => {});
+    }
+  }
+
+  /** Rafraîchit `key` ; une seule exécution à la fois par clé */
+  function refresh(key: string, previous?: CacheEntry<T>) {
+    const pending = inflight.get(key);
+    if (pending) {
+      metrics.coalesced++;
+      return pending;
+    }
+    const promise = doRefresh(key, previous).finally(() =>
+      inflight.delete(key)
+    );
+    inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Entrée valide si possible. `maxAgeMs` impose une entrée plus récente que
+   * son expiration normale. En cas d'échec du rafraîchissement, l'erreur est
+   * propagée : à l'appelant de se rabattre sur `peek`.
+   */
+  async function get(key: string, maxAgeMs?: number) {
+    const now = Date.now();
+    const entry = await read(key);
+    const valid =
+      entry &&
+      now < entry.expiresAt &&
+      (maxAgeMs === undefined || now - entry.storedAt < maxAgeMs);
+
+    if (!valid) {
+      metrics.misses++;
+      return refresh(key, entry);
+    }
+
+    metrics.hits++;
+    if (entry.expiresAt - now <= refreshAheadMs && !inflight.has(key)) {
+      metrics.background++;
+      refresh(key, entry).catch(() => {});
+    }
+    return entry;
+  }
+
+  return {
+    get,
+    refresh,
+    /** Dernière entrée connue, même expirée (secours) */
+    peek: read,
+    /** Dernière entrée connue de ce processus, sans interroger le backend */
+    peekLocal: (key: string) => local.get(key),
+    metrics: () => ({ backend: backend.name, ...metrics }),
+  };
+}
@@ -0,0 +1,216 @@
+import type { Station } from "@vlille/contracts";
+import type { Snapshot } from "./gbfs";
+import { historyStationIds, queryHistory } from "./history";
+import type { GbfsSystem } from "./systems";
+
+/**
+ * Exports pour les outils d'analyse (QGIS, tableurs…) : stations courantes en
+ * GeoJSON / CSV, historique en CSV / NDJSON et flux GBFS republié à partir
+ * des stations fusionnées.
+ */
+
+/** Version GBFS republiée */
+const GBFS_VERSION = "2.3";
+
+/** Feeds republiés, en plus du point d'entrée `gbfs.json` */
+export const GBFS_FEEDS = [
+  "system_information",
+  "station_information",
+  "station_status",
+] as const;
+export type GbfsFeed = (typeof GBFS_FEEDS)[number];
+
+/** Un changement enregistré : valeur d'une station à partir de `t` */
+export type HistoryRecord = {
+  t: number;
+  id: string;
+  bikes: number;
+  docks: number;
+};
+
+type Cell = string | number | boolean | undefined;
+
+const isoDate = (t: number | undefined) =>
+  t === undefined ? undefined : new Date(t).toISOString();
+
+/**
+ * Cellule CSV (RFC 4180). Un texte commençant par = + - @, une tabulation ou
+ * un retour chariot est préfixé d'une apostrophe : un tableur l'interpréterait
+ * sinon comme une formule.
+ */
+function csvCell(value: Cell) {
+  if (value === undefined) return "";
+  if (typeof value !== "string") return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: Cell[][]) {
+  return [header, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n");
+}
+
+/** Stations en FeatureCollection (coordonnées [lon, lat], WGS 84) */
+export function stationsGeoJson(stations: Station[]) {
+  return {
+    type: "FeatureCollection",
+    features: stations.map(({ lat, lon, vehicleTypes, ...s }) => ({
+      type: "Feature",
+      id: s.id,
+      geometry: { type: "Point", coordinates: [lon, lat] },
+      properties: {
+        ...s,
+        lastReported: isoDate(s.lastReported),
+        // propriétés à plat : QGIS n'exploite pas les tableaux
+        vehicleTypes: vehicleTypes
+          ?.map((v) => `${v.name ?? v.id}:${v.count}`)
+          .join(";"),
+      },
+    })),
+  };
+}
+
+/** Une ligne par station, dates en ISO 8601 */
+export function stationsCsv(stations: Station[]) {
+  return toCsv(
+    [
+      "id",
+      "name",
+      "lat",
+      "lon",
+      "address",
+      "capacity",
+      "bikes",
+      "docks",
+      "mechanical",
+      "ebikes",
+      "is_installed",
+      "is_renting",
+      "is_returning",
+      "last_reported",
+    ],
+    stations.map((s) => [
+      s.id,
+      s.name,
+      s.lat,
+      s.lon,
+      s.address,
+      s.capacity,
+      s.bikes,
+      s.docks,
+      s.mechanical,
+      s.ebikes,
+      s.isInstalled,
+      s.isRenting,
+      s.isReturning,
+      isoDate(s.lastReported),
+    ])
+  );
+}
+
+/**
+ * Changements enregistrés sur [from, to], toutes stations confondues, par
+ * date puis par station ; chaque station commence par sa valeur à `from`.
+ */
+export function historyRecords(
+  systemId: string,
+  from: number,
+  to: number
+): HistoryRecord[] {
+  const records: HistoryRecord[] = [];
+  for (const id of historyStationIds(systemId)) {
+    for (const p of queryHistory(systemId, id, from, to)) {
+      records.push({ t: p.t, id, bikes: p.bikes, docks: p.docks });
+    }
+  }
+  return records.sort((a, b) => a.t - b.t || a.id.localeCompare(b.id));
+}
+
+/** Historique en CSV, avec le nom courant des stations */
+export function historyCsv(
+  records: HistoryRecord[],
+  names: Map<string, string>
+) {
+  return toCsv(
+    ["time", "station_id", "name", "bikes", "docks"],
+    records.map((r) => [isoDate(r.t), r.id, names.get(r.id), r.bikes, r.docks])
+  );
+}
+
+/** Historique en NDJSON : un objet par ligne */
+export function historyNdjson(records: HistoryRecord[]) {
+  return records.map((r) => JSON.stringify(r) + "\n").join("");
+}
+
+/** Enveloppe GBFS : dates en secondes, `ttl` jusqu'à l'expiration du snapshot */
+function envelope(snapshot: Snapshot, data: unknown) {
+  return {
+    last_updated: Math.floor(snapshot.lastUpdated / 1000),
+    ttl: snapshot.stale
+      ? 0
+      : Math.max(0, Math.floor((snapshot.expiresAt - Date.now()) / 1000)),
+    version: GBFS_VERSION,
+    data,
+  };
+}
+
+/** Point d'entrée `gbfs.json` : feeds servis sous `baseUrl` */
+export function gbfsDiscovery(
+  snapshot: Snapshot,
+  language: string,
+  baseUrl: string
+) {
+  return envelope(snapshot, {
+    [language]: {
+      feeds: GBFS_FEEDS.map((name) => ({
+        name,
+        url: `${baseUrl}/${name}.json`,
+      })),
+    },
+  });
+}
+
+/** Un feed GBFS reconstruit à partir des stations fusionnées */
+export function gbfsFeed(
+  feed: GbfsFeed,
+  system: GbfsSystem,
+  snapshot: Snapshot,
+  language: string
+) {
+  switch (feed) {
+    case "system_information":
+      return envelope(snapshot, {
+        system_id: system.id,
+        language,
+        name: system.name,
+        timezone:
+          system.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+    case "station_information":
+      return envelope(snapshot, {
+        stations: snapshot.stations.map((s) => ({
+          station_id: s.id,
+          name: s.name,
+          lat: s.lat,
+          lon: s.lon,
+          address: s.address,
+          capacity: s.capacity,
+        })),
+      });
+    case "station_status":
+      return envelope(snapshot, {
+        stations: snapshot.stations.map((s) => ({
+          station_id: s.id,
+          num_bikes_available: s.bikes,
+          num_docks_available: s.docks,
+          is_installed: s.isInstalled,
+          is_renting: s.isRenting,
+          is_returning: s.isReturning,
+          last_reported: Math.floor(
+            (s.lastReported ?? snapshot.lastUpdated) / 1000
+          ),
+        })),
+      });
+  }
+}
@@ -0,0 +1,68 @@
+import path from "node:path";
+import { createStore } from "./store";
+import { getSystem } from "./systems";
+
+export type Favorite = { systemId: string; id: string };
+
+const FAVORITES_FILE =
+  process.env.FAVORITES_FILE ??
+  path.join(process.cwd(), "data", "favorites.json");
+const MAX_FAVORITES = 100;
+const MAX_USERS = 10_000;
+
+/** Jeton anonyme généré côté client (UUID ou équivalent) */
+const TOKEN = /^[A-Za-z0-9_-]{16,64}$/;
+const STATION_ID = /^[^\s/]{1,64}$/;
+
+export function isValidToken(token: string) {
+  return TOKEN.test(token);
+}
+
+// Favoris par jeton anonyme (STORE_BACKEND=redis : partagés entre réplicas)
+const store = createStore(
+  "favorites",
+  FAVORITES_FILE,
+  (token, favorites): favorites is Favorite[] =>
+    isValidToken(token) && Array.isArray(favorites)
+);
+
+/** Valide le corps de PUT /favorites/:token ; `{ error }` si invalide */
+export function parseFavorites(body: unknown): Favorite[] | { error: string } {
+  const list = (body as { favorites?: unknown } | undefined)?.favorites;
+  if (!Array.isArray(list)) return { error: "favorites must be an array" };
+  if (list.length > MAX_FAVORITES) return { error: "too many favorites" };
+
+  const out: Favorite[] = [];
+  const seen = new Set<string>();
+  for (const item of list) {
+    const { systemId, id } = (item ?? {}) as Record<string, unknown>;
+    if (typeof systemId !== "string" || !getSystem(systemId)) {
+      return { error: "invalid systemId" };
+    }
+    if (typeof id !== "string" || !STATION_ID.test(id)) {
+      return { error: "invalid id" };
+    }
+    const key = `${systemId}:${id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ systemId, id });
+  }
+  return out;
+}
+
+export async function getFavorites(token: string): Promise<Favorite[]> {
+  return (await store.get(token)) ?? [];
+}
+
+/** Remplace la liste d'un jeton ; `false` si le nombre d'utilisateurs est atteint */
+export async function setFavorites(token: string, favorites: Favorite[]) {
+  if (favorites.length === 0) {
+    await store.delete(token);
+    return true;
+  }
+  if (!(await store.get(token)) && (await store.size()) >= MAX_USERS) {
+    return false;
+  }
+  await store.set(token, favorites);
+  return true;
+}
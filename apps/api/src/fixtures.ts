@@ -0,0 +1,59 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { GbfsSystem } from "./systems";
+
+/**
+ * Fixtures GBFS enregistrées (un dossier par système : gbfs.json,
+ * system_information.json, station_information.json, station_status.json…),
+ * rejouées par le mock (`mock-gbfs.ts`) en mode GBFS_OFFLINE et dans les tests.
+ */
+
+export const FIXTURES_DIR =
+  process.env.GBFS_FIXTURES_DIR ??
+  path.join(__dirname, "..", "fixtures", "gbfs");
+
+export const MOCK_GBFS_PORT = Number(process.env.MOCK_GBFS_PORT ?? 4555);
+
+export type Fixture = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Fixture =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Feeds de chaque système, par nom (`station_status`…) */
+export function readFixtures(dir = FIXTURES_DIR) {
+  const systems = new Map<string, Map<string, Fixture>>();
+  for (const id of fs.readdirSync(dir)) {
+    const systemDir = path.join(dir, id);
+    if (!fs.statSync(systemDir).isDirectory()) continue;
+    const feeds = new Map<string, Fixture>();
+    for (const file of fs.readdirSync(systemDir)) {
+      if (!file.endsWith(".json")) continue;
+      const raw = fs.readFileSync(path.join(systemDir, file), "utf8");
+      const json: unknown = JSON.parse(raw);
+      if (isObject(json)) feeds.set(path.basename(file, ".json"), json);
+    }
+    systems.set(id, feeds);
+  }
+  return systems;
+}
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+
+/** Systèmes des fixtures, pointant vers le mock (mode GBFS_OFFLINE) */
+export function fixtureSystems(
+  baseUrl = `http://localhost:${MOCK_GBFS_PORT}`,
+  dir = FIXTURES_DIR
+): GbfsSystem[] {
+  return [...readFixtures(dir)].map(([id, feeds]) => {
+    const info = feeds.get("system_information")?.data;
+    const data = isObject(info) ? info : {};
+    return {
+      id,
+      name: optionalString(data.name) ?? id,
+      city: optionalString(data.city),
+      url: `${baseUrl}/${id}/gbfs.json`,
+      timeZone: optionalString(data.timezone),
+    };
+  });
+}
@@ -0,0 +1,184 @@
+import type { Station } from "@vlille/contracts";
+import { RETENTION_MS, queryHistory } from "./history";
+import { getSystem } from "./systems";
+import { localTime } from "./time";
+
+const SLOT_MS = 15 * 60_000;
+const SLOTS_PER_DAY = (24 * 60 * 60_000) / SLOT_MS;
+const WEEK_MS = 7 * 24 * 60 * 60_000;
+/** Profondeur du profil : 4 semaines, bornée par la conservation de l'historique */
+const LOOKBACK_MS = Math.min(4 * WEEK_MS, RETENTION_MS);
+const PROFILE_TTL_MS = 60 * 60_000;
+
+/**
+ * En dessous de ce nombre d'échantillons, on élargit au même créneau tous
+ * jours confondus : 3, ou une par semaine d'historique conservée si moins
+ */
+const MIN_WEEKDAY_SAMPLES = Math.max(
+  1,
+  Math.min(3, Math.floor(LOOKBACK_MS / WEEK_MS))
+);
+/** Demi-vie (en ms) du poids accordé à la valeur actuelle face au profil historique */
+const CURRENT_HALF_LIFE_MS = 45 * 60_000;
+/** Quantile ~80 % d'une loi normale : bande [p10, p90] */
+const Z_80 = 1.28;
+/** Volatilité par défaut (vélos / 15 min) quand l'historique est vide */
+const DEFAULT_VOLATILITY = 1;
+
+type Cell = { mean: number; std: number; n: number };
+
+type Profile = {
+  builtAt: number;
+  /** fuseau du réseau, dans lequel sont calculés les créneaux */
+  timeZone?: string;
+  /** [jour de semaine][créneau de 15 min] */
+  weekday: Array<Array<Cell | null>>;
+  /** [créneau de 15 min], tous jours confondus */
+  allDays: Array<Cell | null>;
+  /** écart-type des variations de vélos sur un créneau */
+  volatility: number;
+};
+
+export type Band = { expected: number; low: number; high: number };
+
+export type Forecast = {
+  id: string;
+  systemId: string;
+  at: number;
+  horizonMin: number;
+  bikes: Band;
+  docks: Band;
+  basis: "weekday" | "all-days" | "current";
+  samples: number;
+};
+
+const profiles = new Map<string, Profile>();
+
+function stats(values: number[]): Cell | null {
+  if (values.length === 0) return null;
+  const mean = values.reduce((a, v) => a + v, 0) / values.length;
+  const variance =
+    values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance), n: values.length };
+}
+
+/** Créneau (jour de semaine, quart d'heure) d'un instant, à l'heure du réseau */
+function slotOf(t: number, timeZone?: string) {
+  const { day, hour, minute } = localTime(t, timeZone);
+  return { day, slot: Math.floor((hour * 60 + minute) / 15) };
+}
+
+function buildProfile(station: Station, now: number): Profile {
+  const start = Math.ceil((now - LOOKBACK_MS) / SLOT_MS) * SLOT_MS;
+  const points = queryHistory(
+    station.systemId,
+    station.id,
+    start,
+    now,
+    SLOT_MS
+  );
+
+  const byWeekday = Array.from({ length: 7 }, () =>
+    Array.from({ length: SLOTS_PER_DAY }, () => [] as number[])
+  );
+  const byAllDays = Array.from({ length: SLOTS_PER_DAY }, () => [] as number[]);
+  const deltas: number[] = [];
+  const timeZone = getSystem(station.systemId)?.timeZone;
+
+  points.forEach((p, i) => {
+    const { day, slot } = slotOf(p.t, timeZone);
+    byWeekday[day][slot].push(p.bikes);
+    byAllDays[slot].push(p.bikes);
+
+    const prev = points[i - 1];
+    if (prev && p.t - prev.t === SLOT_MS) deltas.push(p.bikes - prev.bikes);
+  });
+
+  const volatility = stats(deltas)?.std || DEFAULT_VOLATILITY;
+
+  return {
+    builtAt: now,
+    timeZone,
+    weekday: byWeekday.map((slots) => slots.map(stats)),
+    allDays: byAllDays.map(stats),
+    volatility,
+  };
+}
+
+function profileFor(station: Station, now: number) {
+  const key = `${station.systemId}:${station.id}`;
+  const cached = profiles.get(key);
+  if (cached && now - cached.builtAt < PROFILE_TTL_MS) return cached;
+  const profile = buildProfile(station, now);
+  profiles.set(key, profile);
+  return profile;
+}
+
+function cellAt(profile: Profile, t: number) {
+  const { day, slot } = slotOf(t, profile.timeZone);
+  const weekday = profile.weekday[day][slot];
+  if (weekday && weekday.n >= MIN_WEEKDAY_SAMPLES) {
+    return { cell: weekday, basis: "weekday" as const };
+  }
+  const allDays = profile.allDays[slot];
+  if (allDays) return { cell: allDays, basis: "all-days" as const };
+  return null;
+}
+
+const clamp = (v: number, max: number) => Math.min(max, Math.max(0, v));
+
+/**
+ * Prévision vélos/places d'une station à l'instant `at`.
+ *
+ * On part de la valeur actuelle à laquelle on applique la variation
+ * habituelle entre maintenant et `at` (profil jour de semaine × quart
+ * d'heure), puis on glisse vers la moyenne historique à mesure que
+ * l'horizon s'éloigne. La bande combine la volatilité à court terme et la
+ * dispersion historique du créneau.
+ */
+export function forecastStation(
+  station: Station,
+  at: number,
+  now = Date.now()
+): Forecast {
+  const horizon = Math.max(0, at - now);
+  // capacité publiée (places hors service comprises), sinon vélos + places
+  const capacity = station.capacity ?? station.bikes + station.docks;
+  const profile = profileFor(station, now);
+
+  const target = cellAt(profile, at);
+  const current = cellAt(profile, now);
+
+  // poids de la valeur actuelle : 1 à l'horizon 0, 0.5 à la demi-vie
+  const w = Math.pow(0.5, horizon / CURRENT_HALF_LIFE_MS);
+  const shortStd = profile.volatility * Math.sqrt(horizon / SLOT_MS);
+
+  let expected = station.bikes;
+  let std = shortStd;
+  if (target) {
+    const trend = current ? target.cell.mean - current.cell.mean : 0;
+    expected = w * (station.bikes + trend) + (1 - w) * target.cell.mean;
+    std = w * shortStd + (1 - w) * target.cell.std;
+  }
+
+  const bikes: Band = {
+    expected: Math.round(clamp(expected, capacity)),
+    low: Math.floor(clamp(expected - Z_80 * std, capacity)),
+    high: Math.ceil(clamp(expected + Z_80 * std, capacity)),
+  };
+
+  return {
+    id: station.id,
+    systemId: station.systemId,
+    at,
+    horizonMin: Math.round(horizon / 60_000),
+    bikes,
+    docks: {
+      expected: capacity - bikes.expected,
+      low: capacity - bikes.high,
+      high: capacity - bikes.low,
+    },
+    basis: target?.basis ?? "current",
+    samples: target?.cell.n ?? 0,
+  };
+}
@@ -0,0 +1,415 @@
+import type { Station, VehicleTypeCount } from "@vlille/contracts";
+import { fetchJson } from "./upstream";
+
+/**
+ * Client GBFS 1.x / 2.x / 3.0 : découverte des feeds, validation à
+ * l'exécution et fusion station_information + station_status.
+ *
+ * Règle de validation : un feed mal formé (pas d'objet `data`, liste de
+ * stations absente…) rejette tout le snapshot (`GbfsFeedError`) ; une station
+ * dont un champ obligatoire est invalide est écartée et signalée dans le
+ * rapport ; un champ optionnel invalide est simplement ignoré.
+ */
+
+/** Feed absent, illisible ou de structure inattendue */
+export class GbfsFeedError extends Error {
+  constructor(
+    readonly feed: string,
+    message: string
+  ) {
+    super(`${feed}: ${message}`);
+    this.name = "GbfsFeedError";
+  }
+}
+
+export type DroppedStation = {
+  feed: "station_information" | "station_status";
+  /** `null` si l'identifiant lui-même est invalide */
+  id: string | null;
+  reason: string;
+};
+
+/** Bilan de la fusion, pour repérer un feed partiellement cassé */
+export type FeedReport = {
+  /** version annoncée par le `gbfs.json` (`1.0` si absente) */
+  version: string;
+  /** stations publiées après fusion */
+  stations: number;
+  /** entrées invalides, ignorées */
+  dropped: DroppedStation[];
+  /** status sans information correspondante (ni nom ni position) */
+  orphans: string[];
+  /** information sans status (station annoncée, disponibilités inconnues) */
+  withoutStatus: string[];
+};
+
+export type GbfsStations = {
+  stations: Station[];
+  /** `last_updated` du feed station_status (ms epoch) */
+  lastUpdated?: number;
+  /** `ttl` du feed station_status (ms) */
+  ttlMs?: number;
+  report: FeedReport;
+};
+
+type Json = Record<string, unknown>;
+
+/** Enveloppe commune à tous les feeds */
+type FeedEnvelope = {
+  lastUpdated?: number;
+  ttlMs?: number;
+  version?: string;
+  data: Json;
+};
+
+type FeedRef = { name: string; url: string };
+
+type VehicleType = {
+  id: string;
+  name?: string;
+  propulsion?: string;
+};
+
+type StationInformation = Pick<
+  Station,
+  "id" | "name" | "lat" | "lon" | "address" | "capacity"
+>;
+
+type StationStatus = Omit<
+  Station,
+  "systemId" | "name" | "lat" | "lon" | "address" | "capacity"
+>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value !== "" ? value : undefined;
+
+/** Identifiant GBFS : chaîne, ou nombre chez certains réseaux */
+function toId(value: unknown) {
+  if (typeof value === "string" && value !== "") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return null;
+}
+
+/** secondes POSIX (1.x/2.x) ou date ISO 8601 (3.0) → ms epoch */
+function toEpochMs(value: unknown) {
+  const t =
+    typeof value === "number"
+      ? value * 1000
+      : typeof value === "string"
+        ? Date.parse(value)
+        : NaN;
+  return Number.isNaN(t) ? undefined : t;
+}
+
+/** Booléen GBFS : `true/false` en 2.x+, `1/0` en 1.x ; absent = vrai */
+function toFlag(value: unknown) {
+  if (value === true || value === 1) return true;
+  if (value === false || value === 0) return false;
+  return true;
+}
+
+/**
+ * Texte simple (1.x/2.x) ou localisé (3.0 : `[{ text, language }]`) :
+ * première langue préférée disponible, sinon la première publiée.
+ */
+function localized(value: unknown, languages: string[]) {
+  if (typeof value === "string") return value || undefined;
+  if (!Array.isArray(value)) return undefined;
+  const texts = value.filter(
+    (t): t is { text: string; language: string } =>
+      isObject(t) && typeof t.text === "string" && t.text !== ""
+  );
+  const preferred = languages
+    .map((l) => texts.find((t) => t.language === l))
+    .find(Boolean);
+  return (preferred ?? texts[0])?.text;
+}
+
+function parseEnvelope(feed: string, json: unknown): FeedEnvelope {
+  if (!isObject(json)) throw new GbfsFeedError(feed, "not a JSON object");
+  if (!isObject(json.data)) throw new GbfsFeedError(feed, "missing data");
+  return {
+    lastUpdated: toEpochMs(json.last_updated),
+    ttlMs: isCount(json.ttl) ? json.ttl * 1000 : undefined,
+    version: optionalString(json.version),
+    data: json.data,
+  };
+}
+
+/** Liste `data.<key>` d'un feed, obligatoire */
+function listOf(feed: string, envelope: FeedEnvelope, key: string) {
+  const list = envelope.data[key];
+  if (!Array.isArray(list)) {
+    throw new GbfsFeedError(feed, `data.${key} is not an array`);
+  }
+  return list as unknown[];
+}
+
+async function fetchFeed(feed: string, url: string) {
+  let json: unknown;
+  try {
+    json = await fetchJson(url);
+  } catch (e) {
+    if (e instanceof SyntaxError) throw new GbfsFeedError(feed, "invalid JSON");
+    throw e;
+  }
+  return parseEnvelope(feed, json);
+}
+
+/**
+ * Feeds annoncés par le `gbfs.json` : GBFS 3.0 les liste directement dans
+ * `data.feeds`, les versions 1.x/2.x par langue (`data.fr.feeds`, ...).
+ * On prend la première langue préférée disponible, sinon la première publiée.
+ */
+function discoverFeeds(root: FeedEnvelope, languages: string[]): FeedRef[] {
+  const { data } = root;
+  let feeds: unknown = data.feeds;
+  if (!Array.isArray(feeds)) {
+    const withFeeds = (l: string) =>
+      isObject(data[l]) && Array.isArray((data[l] as Json).feeds);
+    const lang = languages.find(withFeeds) ?? Object.keys(data).find(withFeeds);
+    if (!lang) throw new GbfsFeedError("gbfs", "no feeds found");
+    feeds = (data[lang] as Json).feeds;
+  }
+
+  return (feeds as unknown[]).filter(
+    (f): f is FeedRef =>
+      isObject(f) && typeof f.name === "string" && typeof f.url === "string"
+  );
+}
+
+function parseInformation(
+  raw: unknown,
+  languages: string[]
+): StationInformation | { error: string } {
+  if (!isObject(raw)) return { error: "not an object" };
+  const id = toId(raw.station_id);
+  if (!id) return { error: "invalid station_id" };
+
+  const name = localized(raw.name, languages);
+  if (!name) return { error: "missing name" };
+  const { lat, lon } = raw;
+  if (
+    typeof lat !== "number" ||
+    typeof lon !== "number" ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lon) > 180
+  ) {
+    return { error: "invalid lat/lon" };
+  }
+
+  return {
+    id,
+    name,
+    lat,
+    lon,
+    address: optionalString(raw.address),
+    capacity: isCount(raw.capacity) ? raw.capacity : undefined,
+  };
+}
+
+const isElectric = (propulsion?: string) =>
+  propulsion === "electric_assist" || propulsion === "electric";
+
+/**
+ * Répartition mécanique / électrique : d'abord `vehicle_types_available`
+ * croisé avec le feed `vehicle_types`, sinon `num_bikes_available_types`
+ * (non standard mais répandu : Vélib’, Smovengo… ; objet ou liste d'objets).
+ */
+function bikeTypes(
+  raw: Json,
+  vehicleTypes: Map<string, VehicleType>
+): Pick<Station, "mechanical" | "ebikes" | "vehicleTypes"> {
+  if (Array.isArray(raw.vehicle_types_available)) {
+    const counts: VehicleTypeCount[] = [];
+    for (const v of raw.vehicle_types_available) {
+      const id = isObject(v) ? toId(v.vehicle_type_id) : null;
+      if (!id || !isCount(v.count)) continue;
+      const type = vehicleTypes.get(id);
+      counts.push({
+        id,
+        count: v.count,
+        name: type?.name,
+        propulsion: type?.propulsion,
+      });
+    }
+    if (vehicleTypes.size === 0) return { vehicleTypes: counts };
+
+    const ebikes = counts
+      .filter((v) => isElectric(v.propulsion))
+      .reduce((acc, v) => acc + v.count, 0);
+    const mechanical = counts
+      .filter((v) => !isElectric(v.propulsion))
+      .reduce((acc, v) => acc + v.count, 0);
+    return { mechanical, ebikes, vehicleTypes: counts };
+  }
+
+  const rawTypes = raw.num_bikes_available_types;
+  const types: Json | undefined = Array.isArray(rawTypes)
+    ? Object.assign({}, ...rawTypes.filter(isObject))
+    : isObject(rawTypes)
+      ? rawTypes
+      : undefined;
+  if (!types) return {};
+  return {
+    mechanical: isCount(types.mechanical) ? types.mechanical : undefined,
+    ebikes: isCount(types.ebike) ? types.ebike : undefined,
+  };
+}
+
+function parseStatus(
+  raw: unknown,
+  vehicleTypes: Map<string, VehicleType>
+): StationStatus | { error: string } {
+  if (!isObject(raw)) return { error: "not an object" };
+  const id = toId(raw.station_id);
+  if (!id) return { error: "invalid station_id" };
+
+  // `num_vehicles_available` en 3.0
+  const bikes = raw.num_bikes_available ?? raw.num_vehicles_available;
+  if (!isCount(bikes)) return { error: "invalid num_bikes_available" };
+  if (!isCount(raw.num_docks_available)) {
+    return { error: "invalid num_docks_available" };
+  }
+
+  return {
+    id,
+    bikes,
+    docks: raw.num_docks_available,
+    ...bikeTypes(raw, vehicleTypes),
+    isInstalled: toFlag(raw.is_installed),
+    isRenting: toFlag(raw.is_renting),
+    isReturning: toFlag(raw.is_returning),
+    lastReported: toEpochMs(raw.last_reported),
+  };
+}
+
+/** Feed `vehicle_types` (GBFS 2.1+), optionnel : entrées invalides ignorées */
+function parseVehicleTypes(envelope: FeedEnvelope | null, languages: string[]) {
+  const types = new Map<string, VehicleType>();
+  const list = envelope?.data.vehicle_types;
+  if (!Array.isArray(list)) return types;
+  for (const v of list) {
+    const id = isObject(v) ? toId(v.vehicle_type_id) : null;
+    if (!id) continue;
+    types.set(id, {
+      id,
+      name: localized(v.name, languages),
+      propulsion: optionalString(v.propulsion_type),
+    });
+  }
+  return types;
+}
+
+/**
+ * Récupère et valide les feeds de stations d'un système, puis les fusionne.
+ * Lève `GbfsFeedError` si un feed obligatoire manque ou est mal formé.
+ */
+export async function fetchGbfsStations(
+  systemId: string,
+  url: string,
+  languages: string[]
+): Promise<GbfsStations> {
+  const root = await fetchFeed("gbfs", url);
+  const feeds = discoverFeeds(root, languages);
+  const feedUrl = (name: string) => feeds.find((f) => f.name === name)?.url;
+
+  const infoUrl = feedUrl("station_information");
+  const statusUrl = feedUrl("station_status");
+  const typesUrl = feedUrl("vehicle_types");
+  if (!infoUrl) throw new GbfsFeedError("gbfs", "no station_information feed");
+  if (!statusUrl) throw new GbfsFeedError("gbfs", "no station_status feed");
+
+  const [info, status, types] = await Promise.all([
+    fetchFeed("station_information", infoUrl),
+    fetchFeed("station_status", statusUrl),
+    // feed optionnel (GBFS 2.1+)
+    typesUrl ? fetchFeed("vehicle_types", typesUrl).catch(() => null) : null,
+  ]);
+
+  const dropped: DroppedStation[] = [];
+  const vehicleTypes = parseVehicleTypes(types, languages);
+
+  const infoById = new Map<string, StationInformation>();
+  for (const raw of listOf("station_information", info, "stations")) {
+    const parsed = parseInformation(raw, languages);
+    const id = isObject(raw) ? toId(raw.station_id) : null;
+    if ("error" in parsed) {
+      dropped.push({ feed: "station_information", id, reason: parsed.error });
+    } else if (infoById.has(parsed.id)) {
+      dropped.push({
+        feed: "station_information",
+        id,
+        reason: "duplicate station_id",
+      });
+    } else {
+      infoById.set(parsed.id, parsed);
+    }
+  }
+
+  const stations: Station[] = [];
+  const orphans: string[] = [];
+  const seen = new Set<string>();
+  for (const raw of listOf("station_status", status, "stations")) {
+    const parsed = parseStatus(raw, vehicleTypes);
+    const id = isObject(raw) ? toId(raw.station_id) : null;
+    if ("error" in parsed) {
+      dropped.push({ feed: "station_status", id, reason: parsed.error });
+      continue;
+    }
+    if (seen.has(parsed.id)) {
+      dropped.push({
+        feed: "station_status",
+        id,
+        reason: "duplicate station_id",
+      });
+      continue;
+    }
+    seen.add(parsed.id);
+
+    const i = infoById.get(parsed.id);
+    if (!i) {
+      orphans.push(parsed.id);
+      continue;
+    }
+    const { id: stationId, bikes, docks, ...flags } = parsed;
+    stations.push({
+      id: stationId,
+      systemId,
+      name: i.name,
+      lat: i.lat,
+      lon: i.lon,
+      bikes,
+      docks,
+      address: i.address,
+      capacity: i.capacity,
+      ...flags,
+    });
+  }
+
+  // un status invalide est déjà signalé dans `dropped`
+  const invalidStatus = new Set(
+    dropped.flatMap((d) => (d.feed === "station_status" ? [d.id] : []))
+  );
+
+  return {
+    stations,
+    lastUpdated: status.lastUpdated,
+    ttlMs: status.ttlMs,
+    report: {
+      version: root.version ?? "1.0",
+      stations: stations.length,
+      dropped,
+      orphans,
+      withoutStatus: [...infoById.keys()].filter(
+        (id) => !seen.has(id) && !invalidStatus.has(id)
+      ),
+    },
+  };
+}
@@ -0,0 +1,192 @@
+import type { Station } from "@vlille/contracts";
+import { fetchGbfsStations, type FeedReport } from "./gbfs-client";
+import { DEFAULT_LANGUAGES, DEFAULT_SYSTEM_ID, getSystem } from "./systems";
+import { createBackend, createCache } from "./cache";
+import { CircuitOpenError, createBreaker, type Breaker } from "./upstream";
+
+/** Snapshot d'un système et sa fraîcheur */
+export type Snapshot = {
+  stations: Station[];
+  /** date de récupération (ms epoch) */
+  fetchedAt: number;
+  /** `last_updated` du feed station_status (ms epoch), sinon `fetchedAt` */
+  lastUpdated: number;
+  /** fin de validité d'après le `ttl` GBFS */
+  expiresAt: number;
+  /** dernier snapshot valide, servi parce que l'amont est en échec */
+  stale: boolean;
+  /** stations écartées à la validation / fusion des feeds */
+  report: FeedReport;
+};
+
+/** `ttl` absent du feed */
+const DEFAULT_TTL_MS = 60_000;
+/** Bornes de validité : `ttl: 0` est courant, on n'interroge pas en boucle */
+const MIN_TTL_MS = Number(process.env.GBFS_MIN_TTL_MS ?? 10_000);
+const MAX_TTL_MS = 5 * 60_000;
+/** Rafraîchissement anticipé des systèmes consultés juste avant expiration */
+const REFRESH_AHEAD_MS = Number(process.env.CACHE_REFRESH_AHEAD_MS ?? 5_000);
+
+const breakers = new Map<string, Breaker>();
+
+type RefreshListener = (systemId: string, stations: Station[]) => void;
+const refreshListeners = new Set<RefreshListener>();
+
+/** Appelé à chaque nouveau snapshot (pas sur un hit de cache) */
+export function onStationsRefresh(listener: RefreshListener) {
+  refreshListeners.add(listener);
+  return () => {
+    refreshListeners.delete(listener);
+  };
+}
+
+/**
+ * Validité d'après le feed : les données valent jusqu'à `last_updated + ttl`,
+ * bornée à [MIN_TTL_MS, MAX_TTL_MS] après la récupération.
+ */
+function expiryOf(
+  fetchedAt: number,
+  ttlMs = DEFAULT_TTL_MS,
+  lastUpdated?: number
+) {
+  const base =
+    lastUpdated !== undefined && lastUpdated <= fetchedAt
+      ? lastUpdated
+      : fetchedAt;
+  return Math.min(
+    Math.max(base + ttlMs, fetchedAt + MIN_TTL_MS),
+    fetchedAt + MAX_TTL_MS
+  );
+}
+
+function breakerFor(systemId: string) {
+  let breaker = breakers.get(systemId);
+  if (!breaker) {
+    breaker = createBreaker();
+    breakers.set(systemId, breaker);
+  }
+  return breaker;
+}
+
+/** Dernier bilan journalisé par système, pour ne pas le répéter à chaque refresh */
+const loggedReports = new Map<string, string>();
+
+function logReport(systemId: string, report: FeedReport) {
+  const { dropped, orphans, withoutStatus } = report;
+  const key = JSON.stringify({ dropped, orphans, withoutStatus });
+  if (loggedReports.get(systemId) === key) return;
+  loggedReports.set(systemId, key);
+  if (dropped.length || orphans.length || withoutStatus.length) {
+    console.warn(
+      `gbfs: ${systemId}: ${dropped.length} invalid, ${orphans.length} ` +
+        `without information, ${withoutStatus.length} without status`,
+      { dropped, orphans, withoutStatus }
+    );
+  }
+}
+
+/** Interroge l'amont et fusionne information + status */
+async function loadSnapshot(systemId: string): Promise<Snapshot> {
+  const system = getSystem(systemId);
+  if (!system) throw new Error(`unknown GBFS system: ${systemId}`);
+
+  const { stations, lastUpdated, ttlMs, report } = await fetchGbfsStations(
+    systemId,
+    system.url,
+    system.languages ?? DEFAULT_LANGUAGES
+  );
+  logReport(systemId, report);
+
+  const fetchedAt = Date.now();
+  return {
+    stations,
+    fetchedAt,
+    lastUpdated: lastUpdated ?? fetchedAt,
+    expiresAt: expiryOf(fetchedAt, ttlMs, lastUpdated),
+    stale: false,
+    report,
+  };
+}
+
+/** Rafraîchissement effectif, protégé par le disjoncteur du système */
+async function refreshSnapshot(systemId: string) {
+  const breaker = breakerFor(systemId);
+  if (!breaker.allow()) {
+    throw new CircuitOpenError(`gbfs: ${systemId} upstream unavailable`);
+  }
+  try {
+    const snapshot = await loadSnapshot(systemId);
+    breaker.success();
+    return { value: snapshot, expiresAt: snapshot.expiresAt };
+  } catch (e) {
+    breaker.failure();
+    throw e;
+  }
+}
+
+/**
+ * Cache des snapshots : un seul rafraîchissement à la fois par système, même
+ * entre réplicas avec CACHE_BACKEND=redis. Les écouteurs sont prévenus de
+ * chaque nouveau snapshot, qu'il vienne de ce processus ou d'un autre réplica.
+ */
+const snapshots = createCache<Snapshot>({
+  backend: createBackend(),
+  load: refreshSnapshot,
+  refreshAheadMs: REFRESH_AHEAD_MS,
+  onUpdate: (systemId, { value }) => {
+    for (const listener of refreshListeners) {
+      try {
+        listener(systemId, value.stations);
+      } catch (e) {
+        console.error("gbfs: refresh listener failed", e);
+      }
+    }
+  },
+});
+
+/**
+ * Snapshot d'un système, depuis le cache tant qu'il est valide (`ttl` GBFS).
+ * `maxAgeMs` permet d'exiger des données plus fraîches (ex. re-vérification
+ * avant un trajet). Si l'amont échoue ou que son disjoncteur est ouvert, le
+ * dernier snapshot valide est renvoyé avec `stale: true` ; sans snapshot
+ * précédent, l'erreur est propagée.
+ */
+export async function fetchSnapshot(
+  systemId = DEFAULT_SYSTEM_ID,
+  maxAgeMs?: number
+): Promise<Snapshot> {
+  try {
+    return (await snapshots.get(systemId, maxAgeMs)).value;
+  } catch (e) {
+    const cached = await snapshots.peek(systemId);
+    if (!cached) throw e;
+    if (!(e instanceof CircuitOpenError)) {
+      console.error(`gbfs: ${systemId} refresh failed, serving stale data`, e);
+    }
+    return { ...cached.value, stale: true };
+  }
+}
+
+/** Stations fusionnées d'un système (voir fetchSnapshot) */
+export async function fetchStations(
+  systemId = DEFAULT_SYSTEM_ID,
+  maxAgeMs?: number
+): Promise<Station[]> {
+  return (await fetchSnapshot(systemId, maxAgeMs)).stations;
+}
+
+/** État de l'amont d'un système et bilan du dernier snapshot (pour /health) */
+export function upstreamStatus(systemId: string) {
+  const cached = snapshots.peekLocal(systemId)?.value;
+  return {
+    breaker: breakers.get(systemId)?.state() ?? "closed",
+    lastUpdated: cached?.lastUpdated,
+    fetchedAt: cached?.fetchedAt,
+    report: cached?.report,
+  };
+}
+
+/** Compteurs du cache de snapshots (pour /metrics) */
+export function cacheMetrics() {
+  return snapshots.metrics();
+}
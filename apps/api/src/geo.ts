@@ -0,0 +1,26 @@
+export type LatLon = { lat: number; lon: number };
+
+const EARTH_RADIUS_M = 6_371_000;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Distance orthodromique (haversine) en mètres */
+export function distanceMeters(a: LatLon, b: LatLon) {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+/** "lat,lon" → coordonnées ; null si invalide (partie vide comprise) */
+export function parseLatLon(value: string): LatLon | null {
+  const parts = value.split(",");
+  // Number("") vaut 0 : "50.6," serait lu comme 50.6,0
+  if (parts.length !== 2 || parts.some((p) => p.trim() === "")) return null;
+  const [lat, lon] = parts.map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon };
+}
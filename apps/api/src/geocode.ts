@@ -0,0 +1,98 @@
+import type { LatLon } from "./geo";
+import { fetchJson } from "./upstream";
+
+const GEOCODER_URL =
+  process.env.GEOCODER_URL ?? "https://nominatim.openstreetmap.org/search";
+/** Nominatim exige un User-Agent identifiant l'application */
+const USER_AGENT = process.env.GEOCODER_USER_AGENT ?? "vlille-app/1.0";
+const CACHE_MS = 24 * 60 * 60_000;
+/** Requêtes gardées en cache, les moins récemment utilisées évincées d'abord */
+const CACHE_SIZE = 1_000;
+const MAX_RESULTS = 5;
+/** Service public et limité en débit : délai court, une seule nouvelle tentative */
+const TIMEOUT_MS = 5_000;
+const RETRIES = 1;
+
+export type GeocodeResult = LatLon & { label: string };
+
+type NominatimResult = { lat: string; lon: string; display_name: string };
+
+/** Entrée Nominatim → résultat ; null sans coordonnées finies ni libellé */
+function toResult(entry: unknown): GeocodeResult | null {
+  if (typeof entry !== "object" || entry === null) return null;
+  const { lat, lon, display_name } = entry as Partial<NominatimResult>;
+  // Number("") vaut 0 : une coordonnée vide n'est pas 0
+  const coord = (v: unknown) =>
+    typeof v === "string" && v.trim() !== "" ? Number(v) : NaN;
+  const point = { lat: coord(lat), lon: coord(lon) };
+  if (!Number.isFinite(point.lat) || !Number.isFinite(point.lon)) return null;
+  return typeof display_name === "string"
+    ? { ...point, label: display_name }
+    : null;
+}
+
+type CacheEntry = { results: GeocodeResult[]; date: number };
+
+const cache = new Map<string, CacheEntry>();
+
+/** Cache LRU : l'ordre d'insertion de la Map sert d'ordre d'utilisation */
+function remember(key: string, entry: CacheEntry) {
+  cache.delete(key);
+  cache.set(key, entry);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value as string);
+  }
+}
+
+/**
+ * Géocode une adresse via Nominatim (ou compatible). Les résultats sont
+ * gardés 24 h : les adresses ne bougent pas et le service limite le débit.
+ * `near` est arrondi au centième de degré (~1 km) : la zone favorisée
+ * s'étend sur ±0,3° en longitude et ±0,2° en latitude (~20 km de part et
+ * d'autre sous nos latitudes) et la clé de cache reste partagée entre voisins.
+ */
+export async function geocode(
+  q: string,
+  near?: LatLon
+): Promise<GeocodeResult[]> {
+  const round = (v: number) => Math.round(v * 100) / 100;
+  const center = near && { lat: round(near.lat), lon: round(near.lon) };
+  const key = [
+    q.trim().toLowerCase(),
+    center ? `${center.lat},${center.lon}` : "",
+  ].join("|");
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.date < CACHE_MS) {
+    remember(key, cached);
+    return cached.results;
+  }
+
+  const params = new URLSearchParams({
+    q,
+    format: "jsonv2",
+    limit: String(MAX_RESULTS),
+  });
+  // favorise (sans l'imposer) la zone du réseau
+  if (center) {
+    params.set(
+      "viewbox",
+      [
+        center.lon - 0.3,
+        center.lat + 0.2,
+        center.lon + 0.3,
+        center.lat - 0.2,
+      ].join(",")
+    );
+  }
+
+  const raw = await fetchJson(`${GEOCODER_URL}?${params}`, {
+    timeoutMs: TIMEOUT_MS,
+    retries: RETRIES,
+    headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
+  });
+  if (!Array.isArray(raw)) throw new Error("geocoder: unexpected response");
+  const results = raw.flatMap((entry) => toResult(entry) ?? []);
+
+  remember(key, { results, date: Date.now() });
+  return results;
+}
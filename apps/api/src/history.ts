@@ -0,0 +1,317 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { Station } from "@vlille/contracts";
+import { createBackend } from "./cache";
+import { fetchStations } from "./gbfs";
+import { DEFAULT_SYSTEM_ID, SYSTEMS } from "./systems";
+
+export type HistoryPoint = { t: number; bikes: number; docks: number };
+
+/**
+ * Une ligne du fichier NDJSON : horodatage, système (absent = système par
+ * défaut) et stations modifiées [id, vélos, places]
+ */
+type HistoryLine = {
+  t: number;
+  sys?: string;
+  s: Array<[string, number, number]>;
+};
+
+const HISTORY_FILE =
+  process.env.HISTORY_FILE ??
+  path.join(process.cwd(), "data", "history.ndjson");
+const SAMPLE_MS = Number(process.env.HISTORY_SAMPLE_MS ?? 60_000);
+/** Conservation de l'historique (4 semaines : profils par jour de la semaine) */
+export const RETENTION_MS =
+  Number(process.env.HISTORY_RETENTION_DAYS ?? 28) * 24 * 60 * 60_000;
+const COMPACT_MS = 6 * 60 * 60_000;
+/** Bail de l'écriture du fichier, prolongé à chaque échantillonnage */
+const WRITER_LEASE_MS = 3 * SAMPLE_MS;
+
+/** Systèmes échantillonnés : liste d'ids séparés par des virgules, ou "*" */
+const HISTORY_SYSTEMS =
+  process.env.HISTORY_SYSTEMS === "*"
+    ? SYSTEMS.map((s) => s.id)
+    : (process.env.HISTORY_SYSTEMS ?? DEFAULT_SYSTEM_ID)
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean);
+
+// Séries par système puis par station, triées par date. On ne stocke un point
+// que lorsque la station change : la valeur à t est celle du dernier point <= t.
+const series = new Map<string, Map<string, HistoryPoint[]>>();
+let writeChain: Promise<void> = Promise.resolve();
+
+// Réplicas partageant le fichier (CACHE_BACKEND=redis) : tous échantillonnent
+// en mémoire, seul le détenteur du bail ajoute les lignes et compacte. Sans
+// échantillonneur (tests), le processus écrit seul.
+const WRITER_ID = crypto.randomUUID();
+let writer = true;
+
+function systemSeries(systemId: string) {
+  let bySystem = series.get(systemId);
+  if (!bySystem) {
+    bySystem = new Map();
+    series.set(systemId, bySystem);
+  }
+  return bySystem;
+}
+
+function addPoint(systemId: string, id: string, point: HistoryPoint) {
+  const bySystem = systemSeries(systemId);
+  const points = bySystem.get(id);
+  if (points) points.push(point);
+  else bySystem.set(id, [point]);
+}
+
+function toLine(systemId: string, t: number, s: HistoryLine["s"]) {
+  const line: HistoryLine =
+    systemId === DEFAULT_SYSTEM_ID ? { t, s } : { t, sys: systemId, s };
+  return JSON.stringify(line) + "\n";
+}
+
+/** Enregistre un snapshot : seules les stations qui ont changé sont persistées */
+export function recordSnapshot(
+  systemId: string,
+  stations: Station[],
+  t = Date.now()
+) {
+  const bySystem = systemSeries(systemId);
+  const changed: HistoryLine["s"] = [];
+
+  for (const s of stations) {
+    const points = bySystem.get(s.id);
+    const prev = points?.[points.length - 1];
+    if (prev && prev.bikes === s.bikes && prev.docks === s.docks) continue;
+    addPoint(systemId, s.id, { t, bikes: s.bikes, docks: s.docks });
+    changed.push([s.id, s.bikes, s.docks]);
+  }
+
+  if (changed.length === 0 || !writer) return;
+
+  const line = toLine(systemId, t, changed);
+  writeChain = writeChain
+    .then(() => fs.promises.appendFile(HISTORY_FILE, line))
+    .catch((e) => console.error("history: write failed", e));
+}
+
+/** Supprime les points hors rétention en gardant la valeur en vigueur au seuil */
+function prune(now = Date.now()) {
+  const cutoff = now - RETENTION_MS;
+  let removed = false;
+
+  for (const bySystem of series.values()) {
+    for (const [id, points] of bySystem) {
+      // index du dernier point antérieur au seuil
+      let i = 0;
+      while (i + 1 < points.length && points[i + 1].t <= cutoff) i++;
+      if (i === 0 && points[0].t >= cutoff) continue;
+
+      const kept = points.slice(i);
+      kept[0] = { ...kept[0], t: Math.max(kept[0].t, cutoff) };
+      bySystem.set(id, kept);
+      removed = true;
+    }
+  }
+
+  return removed;
+}
+
+/** Réécrit le fichier à partir de la mémoire (après élagage) */
+function rewriteFile() {
+  const lines: Array<{ t: number; text: string }> = [];
+  for (const [systemId, bySystem] of series) {
+    const byTime = new Map<number, HistoryLine["s"]>();
+    for (const [id, points] of bySystem) {
+      for (const p of points) {
+        const entries = byTime.get(p.t) ?? [];
+        entries.push([id, p.bikes, p.docks]);
+        byTime.set(p.t, entries);
+      }
+    }
+    for (const [t, s] of byTime)
+      lines.push({ t, text: toLine(systemId, t, s) });
+  }
+
+  const content = lines
+    .sort((a, b) => a.t - b.t)
+    .map((l) => l.text)
+    .join("");
+
+  writeChain = writeChain
+    .then(() => fs.promises.writeFile(HISTORY_FILE, content))
+    .catch((e) => console.error("history: compaction failed", e));
+}
+
+function compact() {
+  if (prune() && writer) rewriteFile();
+}
+
+/** Recharge l'historique persisté (à appeler au démarrage) */
+export function loadHistory() {
+  fs.mkdirSync(path.dirname(HISTORY_FILE), { recursive: true });
+  if (!fs.existsSync(HISTORY_FILE)) return;
+
+  const lines = fs.readFileSync(HISTORY_FILE, "utf8").split("\n");
+  for (const raw of lines) {
+    if (!raw.trim()) continue;
+    try {
+      const line = JSON.parse(raw) as HistoryLine;
+      for (const [id, bikes, docks] of line.s) {
+        addPoint(line.sys ?? DEFAULT_SYSTEM_ID, id, {
+          t: line.t,
+          bikes,
+          docks,
+        });
+      }
+    } catch {
+      // ligne tronquée (arrêt brutal pendant l'écriture) : on l'ignore
+    }
+  }
+
+  for (const bySystem of series.values()) {
+    for (const points of bySystem.values()) points.sort((a, b) => a.t - b.t);
+  }
+  // la réécriture du fichier revient à l'échantillonneur qui obtient le bail
+  prune();
+}
+
+/**
+ * Échantillonne périodiquement fetchStations() et enregistre chaque snapshot.
+ * Le réplica qui obtient le bail devient seul à écrire le fichier : il le
+ * réécrit d'abord depuis sa mémoire (changements manqués par le précédent).
+ */
+export function startSampler() {
+  // backend du bail créé ici : pas de connexion Redis sans échantillonneur
+  const backend = createBackend();
+  writer = false;
+  const sample = async () => {
+    const wasWriter = writer;
+    // bail injoignable : on cesse d'écrire, un autre réplica a pu le prendre
+    writer = await backend
+      .lease("history-writer", WRITER_ID, WRITER_LEASE_MS)
+      .catch(() => false);
+    if (writer && !wasWriter) rewriteFile();
+    await Promise.all(
+      HISTORY_SYSTEMS.map((systemId) =>
+        fetchStations(systemId)
+          .then((stations) => recordSnapshot(systemId, stations))
+          .catch((e) =>
+            console.error(`history: sampling ${systemId} failed`, e)
+          )
+      )
+    );
+  };
+
+  sample();
+  setInterval(sample, SAMPLE_MS).unref();
+  setInterval(compact, COMPACT_MS).unref();
+}
+
+/** Vide l'historique en mémoire (tests) ; le fichier n'est pas modifié */
+export function clearHistory() {
+  series.clear();
+}
+
+export function hasStation(systemId: string, id: string) {
+  return series.get(systemId)?.has(id) ?? false;
+}
+
+/** Stations d'un système ayant au moins un point enregistré */
+export function historyStationIds(systemId: string) {
+  return [...(series.get(systemId)?.keys() ?? [])];
+}
+
+/**
+ * Série vélos/places d'une station sur [from, to].
+ * Sans `step`, renvoie les changements bruts (précédés de la valeur en vigueur
+ * à `from`). Avec `step` (ms), renvoie une valeur par pas.
+ */
+export function queryHistory(
+  systemId: string,
+  id: string,
+  from: number,
+  to: number,
+  step?: number
+): HistoryPoint[] {
+  const points = series.get(systemId)?.get(id) ?? [];
+
+  // valeur en vigueur à l'instant t (dernier point <= t)
+  let cursor = -1;
+  const valueAt = (t: number) => {
+    while (cursor + 1 < points.length && points[cursor + 1].t <= t) cursor++;
+    return cursor >= 0 ? points[cursor] : undefined;
+  };
+
+  if (step) {
+    const out: HistoryPoint[] = [];
+    for (let t = from; t <= to; t += step) {
+      const p = valueAt(t);
+      if (p) out.push({ t, bikes: p.bikes, docks: p.docks });
+    }
+    return out;
+  }
+
+  const start = valueAt(from);
+  const out: HistoryPoint[] = start
+    ? [{ t: from, bikes: start.bikes, docks: start.docks }]
+    : [];
+  for (const p of points) {
+    if (p.t > from && p.t <= to) out.push(p);
+  }
+  return out;
+}
+
+/** Premier et dernier instant enregistrés pour un système (null si aucun) */
+export function historyBounds(systemId: string) {
+  let from = Infinity;
+  let to = -Infinity;
+  for (const points of series.get(systemId)?.values() ?? []) {
+    if (points.length === 0) continue;
+    from = Math.min(from, points[0].t);
+    to = Math.max(to, points[points.length - 1].t);
+  }
+  return from <= to ? { from, to } : null;
+}
+
+/** Index du dernier point <= t (-1 si aucun), par dichotomie */
+function lastIndexAt(points: HistoryPoint[], t: number) {
+  let lo = 0;
+  let hi = points.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].t <= t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo - 1;
+}
+
+/**
+ * État du réseau au relevé enregistré le plus proche de `at` : `t` est la
+ * date de ce relevé, `values` les vélos/places de chaque station connue à
+ * cet instant. Null si le système n'a pas d'historique.
+ */
+export function snapshotAt(systemId: string, at: number) {
+  const bySystem = series.get(systemId);
+  if (!bySystem) return null;
+
+  // relevé le plus proche : un point de part et d'autre de `at` par station
+  let t: number | undefined;
+  for (const points of bySystem.values()) {
+    const i = lastIndexAt(points, at);
+    for (const p of [points[i], points[i + 1]]) {
+      if (p && (t === undefined || Math.abs(p.t - at) < Math.abs(t - at))) {
+        t = p.t;
+      }
+    }
+  }
+  if (t === undefined) return null;
+
+  const values = new Map<string, HistoryPoint>();
+  for (const [id, points] of bySystem) {
+    const p = points[lastIndexAt(points, t)];
+    if (p) values.set(id, p);
+  }
+  return { t, values };
+}
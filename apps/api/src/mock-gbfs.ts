@@ -0,0 +1,218 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  FIXTURES_DIR,
+  MOCK_GBFS_PORT,
+  fixtureSystems,
+  isObject,
+  readFixtures,
+} from "./fixtures";
+import type { Fixture } from "./fixtures";
+
+/**
+ * Serveur GBFS local rejouant les fixtures enregistrées (`fixtures.ts`), pour
+ * développer et tester sans réseau.
+ *
+ * Scénarios, à choisir au démarrage ou à chaud (`POST /_scenario/<nom>`) :
+ * - `normal` : les fixtures telles quelles, rejouées à l'instant présent ;
+ * - `empty-station` : la première station (ou `emptyStationId`) n'a plus de vélo ;
+ * - `outage` : tous les feeds répondent 503 ;
+ * - `malformed` : station_status renvoie un JSON tronqué.
+ */
+
+export const SCENARIOS = [
+  "normal",
+  "empty-station",
+  "outage",
+  "malformed",
+] as const;
+export type Scenario = (typeof SCENARIOS)[number];
+
+/** Objets d'une liste JSON (feeds, stations), le reste est ignoré */
+const objects = (value: unknown) =>
+  Array.isArray(value) ? value.filter(isObject) : [];
+
+const dataOf = (feed: Fixture) => (isObject(feed.data) ? feed.data : {});
+
+/** Liste des feeds réécrite pour pointer vers ce serveur */
+function rewriteFeeds(root: Fixture, base: string) {
+  const rewrite = (feeds: unknown) =>
+    objects(feeds).map((f) => ({ ...f, url: `${base}/${f.name}.json` }));
+  const data = dataOf(root);
+  return {
+    ...root,
+    data: Array.isArray(data.feeds)
+      ? { ...data, feeds: rewrite(data.feeds) }
+      : Object.fromEntries(
+          Object.entries(data).map(([lang, d]) => [
+            lang,
+            isObject(d) ? { ...d, feeds: rewrite(d.feeds) } : d,
+          ])
+        ),
+  };
+}
+
+/** secondes POSIX (1.x/2.x) ou date ISO 8601 (3.0), selon l'original */
+const asTime = (like: unknown, ms: number) =>
+  typeof like === "string" ? new Date(ms).toISOString() : Math.floor(ms / 1000);
+
+const toMs = (value: unknown) =>
+  typeof value === "string" ? Date.parse(value) : Number(value) * 1000;
+
+/**
+ * Fixture rejouée à l'instant présent : `last_updated` vaut maintenant et les
+ * `last_reported` des stations sont décalés d'autant (même ancienneté relative).
+ */
+function replayed(feed: Fixture): Fixture {
+  const shift = Date.now() - toMs(feed.last_updated);
+  const body = { ...feed, last_updated: asTime(feed.last_updated, Date.now()) };
+  const data = dataOf(feed);
+  if (!Array.isArray(data.stations)) return body;
+  return {
+    ...body,
+    data: {
+      ...data,
+      stations: objects(data.stations).map((s) =>
+        s.last_reported === undefined
+          ? s
+          : {
+              ...s,
+              last_reported: asTime(
+                s.last_reported,
+                toMs(s.last_reported) + shift
+              ),
+            }
+      ),
+    },
+  };
+}
+
+function emptyStation(status: Fixture, stationId?: string) {
+  const data = dataOf(status);
+  const stations = objects(data.stations);
+  const target = stationId ?? String(stations[0]?.station_id);
+  return {
+    ...status,
+    data: {
+      ...data,
+      stations: stations.map((s) => {
+        if (String(s.station_id) !== target) return s;
+        const bikes = Number(
+          s.num_bikes_available ?? s.num_vehicles_available ?? 0
+        );
+        const emptied: Fixture = {
+          ...s,
+          num_docks_available: Number(s.num_docks_available) + bikes,
+        };
+        if ("num_bikes_available" in s) emptied.num_bikes_available = 0;
+        if ("num_vehicles_available" in s) emptied.num_vehicles_available = 0;
+        delete emptied.num_bikes_available_types;
+        delete emptied.vehicle_types_available;
+        return emptied;
+      }),
+    },
+  };
+}
+
+export type MockGbfs = {
+  /** ex. `http://localhost:4555` */
+  baseUrl: string;
+  scenario(): Scenario;
+  setScenario(scenario: Scenario): void;
+  /** nombre de requêtes reçues par feed (`lille/station_status`…) */
+  hits: Map<string, number>;
+  close(): Promise<void>;
+};
+
+/** Démarre le mock ; `port: 0` pour un port libre (tests) */
+export function startMockGbfs({
+  port = MOCK_GBFS_PORT,
+  dir = FIXTURES_DIR,
+  scenario = (process.env.MOCK_SCENARIO as Scenario | undefined) ?? "normal",
+  emptyStationId,
+}: {
+  port?: number;
+  dir?: string;
+  scenario?: Scenario;
+  emptyStationId?: string;
+} = {}): Promise<MockGbfs> {
+  if (!SCENARIOS.includes(scenario)) {
+    throw new Error(`unknown mock scenario: ${scenario}`);
+  }
+  const systems = readFixtures(dir);
+  const hits = new Map<string, number>();
+  let current = scenario;
+  let baseUrl = "";
+
+  const send = (res: http.ServerResponse, status: number, body: string) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(body);
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", baseUrl);
+
+    const control = /^\/_scenario\/([a-z-]+)$/.exec(url.pathname);
+    if (control && req.method === "POST") {
+      const next = control[1] as Scenario;
+      if (!SCENARIOS.includes(next)) {
+        return send(res, 400, JSON.stringify({ error: "unknown scenario" }));
+      }
+      current = next;
+      return send(res, 200, JSON.stringify({ scenario: current }));
+    }
+
+    const match = /^\/([^/]+)\/([a-z_]+)\.json$/.exec(url.pathname);
+    const feeds = match && systems.get(match[1]);
+    const fixture = match && feeds?.get(match[2]);
+    if (!match || !fixture) return send(res, 404, "{}");
+
+    const [, systemId, feed] = match;
+    const key = `${systemId}/${feed}`;
+    hits.set(key, (hits.get(key) ?? 0) + 1);
+
+    if (current === "outage") {
+      return send(res, 503, JSON.stringify({ error: "service unavailable" }));
+    }
+    if (current === "malformed" && feed === "station_status") {
+      return send(res, 200, JSON.stringify(fixture).slice(0, 40));
+    }
+
+    let body = replayed(fixture);
+    if (feed === "gbfs") body = rewriteFeeds(body, `${baseUrl}/${systemId}`);
+    if (feed === "station_status" && current === "empty-station") {
+      body = emptyStation(body, emptyStationId);
+    }
+    send(res, 200, JSON.stringify(body));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => {
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+      resolve({
+        baseUrl,
+        scenario: () => current,
+        setScenario(next) {
+          current = next;
+        },
+        hits,
+        close: () =>
+          new Promise<void>((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+// `npm run mock:gbfs` : mock seul, pour pointer une API (GBFS_SYSTEMS) dessus
+if (require.main === module) {
+  startMockGbfs().then((mock) => {
+    console.log(`Mock GBFS on ${mock.baseUrl} (scenario: ${mock.scenario()})`);
+    for (const s of fixtureSystems(mock.baseUrl)) {
+      console.log(`  ${s.id}: ${s.url}`);
+    }
+  });
+}
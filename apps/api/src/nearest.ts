@@ -0,0 +1,46 @@
+import type { Station } from "@vlille/contracts";
+import { distanceMeters, type LatLon } from "./geo";
+
+/** Vitesse de marche ~4,5 km/h */
+export const WALK_SPEED_MPS = 1.25;
+/** Facteur de détour : la rue n'est pas une ligne droite */
+export const DETOUR_FACTOR = 1.25;
+
+export type NearestMode = "bike" | "dock";
+
+export type NearbyStation = Station & {
+  /** distance à vol d'oiseau, en mètres */
+  distance: number;
+  walkMinutes: number;
+};
+
+export function walkMinutes(meters: number) {
+  return Math.max(
+    1,
+    Math.round((meters * DETOUR_FACTOR) / WALK_SPEED_MPS / 60)
+  );
+}
+
+/** Station utilisable pour emprunter (mode bike) ou rendre (mode dock) */
+export function isUsable(s: Station, mode: NearestMode, min = 1) {
+  if (!s.isInstalled) return false;
+  return mode === "bike"
+    ? s.isRenting && s.bikes >= min
+    : s.isReturning && s.docks >= min;
+}
+
+/** Les `count` stations utilisables les plus proches de `from` */
+export function nearestStations(
+  stations: Station[],
+  from: LatLon,
+  { mode, count, min = 1 }: { mode: NearestMode; count: number; min?: number }
+): NearbyStation[] {
+  return stations
+    .filter((s) => isUsable(s, mode, min))
+    .map((s) => {
+      const distance = Math.round(distanceMeters(from, s));
+      return { ...s, distance, walkMinutes: walkMinutes(distance) };
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, count);
+}
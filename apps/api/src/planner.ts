@@ -0,0 +1,119 @@
+import type { Station } from "@vlille/contracts";
+import { distanceMeters, type LatLon } from "./geo";
+import {
+  DETOUR_FACTOR,
+  nearestStations,
+  walkMinutes,
+  type NearbyStation,
+} from "./nearest";
+
+/** Vitesse moyenne à vélo en ville ~15 km/h */
+export const BIKE_SPEED_MPS = 4.2;
+/** Temps pour décrocher / raccrocher un vélo (min) */
+const DOCK_OVERHEAD_MIN = 1;
+/** Au-delà, on ne propose pas de marcher jusqu'à une station (m) */
+const MAX_WALK_M = 1_500;
+/** Nombre de stations candidates étudiées à chaque extrémité */
+const CANDIDATES = 6;
+/** En dessous (vélos au départ / places à l'arrivée), la station est "presque vide/pleine" */
+export const LOW_AVAILABILITY = 2;
+/** Pénalité (min) pour une station presque vide/pleine : risque d'arriver trop tard */
+const LOW_PENALTY_MIN = 3;
+
+export type TripEnd = {
+  station: NearbyStation;
+  /** seconde station proposée quand la première est presque vide/pleine */
+  fallback?: NearbyStation;
+  low: boolean;
+};
+
+export type TripPlan = {
+  pickup: TripEnd;
+  dropoff: TripEnd;
+  ride: { distance: number; minutes: number };
+  totalMinutes: number;
+  /** marcher tout le trajet, pour comparaison */
+  walk: { distance: number; minutes: number };
+  walkIsFaster: boolean;
+};
+
+export function rideMinutes(meters: number) {
+  return Math.max(
+    1,
+    Math.round((meters * DETOUR_FACTOR) / BIKE_SPEED_MPS / 60)
+  );
+}
+
+/** `other` : station choisie à l'autre bout, exclue des replis */
+function withFallback(
+  chosen: NearbyStation,
+  other: Station,
+  candidates: NearbyStation[],
+  level: (s: Station) => number
+): TripEnd {
+  const low = level(chosen) <= LOW_AVAILABILITY;
+  const fallback = low
+    ? candidates.find(
+        (c) =>
+          c.id !== chosen.id && c.id !== other.id && level(c) > LOW_AVAILABILITY
+      )
+    : undefined;
+  return { station: chosen, fallback, low };
+}
+
+/**
+ * Meilleur couple (station de départ avec vélos, station d'arrivée avec
+ * places) minimisant marche + vélo + marche. Les stations presque vides
+ * (départ) ou presque pleines (arrivée) sont pénalisées et reçoivent une
+ * station de repli. `null` si aucune station n'est à distance de marche.
+ */
+export function planTrip(
+  stations: Station[],
+  from: LatLon,
+  to: LatLon
+): TripPlan | null {
+  const inReach = (list: NearbyStation[]) =>
+    list.filter((s) => s.distance <= MAX_WALK_M);
+
+  const pickups = inReach(
+    nearestStations(stations, from, { mode: "bike", count: CANDIDATES })
+  );
+  const dropoffs = inReach(
+    nearestStations(stations, to, { mode: "dock", count: CANDIDATES })
+  );
+
+  let best: { p: NearbyStation; d: NearbyStation; score: number } | null = null;
+  for (const p of pickups) {
+    for (const d of dropoffs) {
+      if (p.id === d.id) continue;
+      const ride = rideMinutes(distanceMeters(p, d));
+      const score =
+        p.walkMinutes +
+        ride +
+        2 * DOCK_OVERHEAD_MIN +
+        d.walkMinutes +
+        (p.bikes <= LOW_AVAILABILITY ? LOW_PENALTY_MIN : 0) +
+        (d.docks <= LOW_AVAILABILITY ? LOW_PENALTY_MIN : 0);
+      if (!best || score < best.score) best = { p, d, score };
+    }
+  }
+  if (!best) return null;
+
+  const { p, d } = best;
+  const rideDistance = Math.round(distanceMeters(p, d));
+  const ride = { distance: rideDistance, minutes: rideMinutes(rideDistance) };
+  const totalMinutes =
+    p.walkMinutes + ride.minutes + 2 * DOCK_OVERHEAD_MIN + d.walkMinutes;
+
+  const walkDistance = Math.round(distanceMeters(from, to));
+  const walk = { distance: walkDistance, minutes: walkMinutes(walkDistance) };
+
+  return {
+    pickup: withFallback(p, d, pickups, (s) => s.bikes),
+    dropoff: withFallback(d, p, dropoffs, (s) => s.docks),
+    ride,
+    totalMinutes,
+    walk,
+    walkIsFaster: walk.minutes <= totalMinutes,
+  };
+}
@@ -0,0 +1,60 @@
+import type { Station } from "@vlille/contracts";
+import { queryHistory } from "./history";
+
+/** Variation minimale (vélos) sur la fenêtre pour parler de tendance */
+const MIN_DELTA = 2;
+/** Au-delà, une station qui se vide / se remplit n'est pas jugée sous tension */
+const HORIZON_MIN = 60;
+
+export type PressureTrend = "emptying" | "filling";
+
+export type StationPressure = {
+  id: string;
+  systemId: string;
+  trend: PressureTrend;
+  /** variation de vélos sur la fenêtre (négative : la station se vide) */
+  delta: number;
+  /** rythme actuel, en vélos par heure */
+  perHour: number;
+  /** minutes avant 0 vélo (emptying) ou 0 place (filling) à ce rythme */
+  etaMin: number;
+};
+
+/**
+ * Stations sous tension : celles qui se vident ou se remplissent sur les
+ * `windowMs` dernières ms au point d'atteindre 0 vélo / 0 place dans l'heure
+ * (ou qui y sont déjà). Triées de la plus urgente à la moins urgente.
+ */
+export function stationsPressure(
+  stations: Station[],
+  windowMs: number,
+  now = Date.now()
+): StationPressure[] {
+  const out: StationPressure[] = [];
+
+  for (const s of stations) {
+    if (!s.isInstalled) continue;
+    // première valeur = celle en vigueur au début de la fenêtre
+    const [start] = queryHistory(s.systemId, s.id, now - windowMs, now);
+    if (!start) continue;
+
+    const delta = s.bikes - start.bikes;
+    if (Math.abs(delta) < MIN_DELTA) continue;
+
+    const perMin = delta / (windowMs / 60_000);
+    const left = delta < 0 ? s.bikes : s.docks;
+    const etaMin = Math.round(left / Math.abs(perMin));
+    if (etaMin > HORIZON_MIN) continue;
+
+    out.push({
+      id: s.id,
+      systemId: s.systemId,
+      trend: delta < 0 ? "emptying" : "filling",
+      delta,
+      perHour: Math.round(perMin * 60),
+      etaMin,
+    });
+  }
+
+  return out.sort((a, b) => a.etaMin - b.etaMin);
+}
@@ -0,0 +1,173 @@
+import type { Request } from "express";
+import type { Station } from "@vlille/contracts";
+import { distanceMeters, parseLatLon, type LatLon } from "./geo";
+
+const MAX_LIMIT = 500;
+const MAX_RADIUS_M = 50_000;
+
+type SortKey = "distance" | "bikes" | "docks" | "name";
+
+export type StationsQuery = {
+  min: number;
+  minDocks: number;
+  /** [minLon, minLat, maxLon, maxLat] (ordre GeoJSON) */
+  bbox?: [number, number, number, number];
+  near?: LatLon;
+  /** rayon en mètres autour de `near` */
+  radius?: number;
+  q?: string;
+  status?: "open" | "closed";
+  sort?: SortKey;
+  order?: "asc" | "desc";
+  limit?: number;
+  offset: number;
+};
+
+export type StationWithDistance = Station & { distance?: number };
+
+/** Sens par défaut : le plus proche / le plus fourni d'abord */
+const DEFAULT_ORDER: Record<SortKey, "asc" | "desc"> = {
+  distance: "asc",
+  bikes: "desc",
+  docks: "desc",
+  name: "asc",
+};
+
+/** Minuscules sans accents, pour une recherche "republique" → "RÉPUBLIQUE" */
+export function normalizeText(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
+function intParam(value: unknown, max = Infinity) {
+  if (value === undefined || value === "") return undefined;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 && n <= max ? n : NaN;
+}
+
+/** Valide la query string de GET /stations ; `{ error }` si invalide */
+export function parseStationsQuery(
+  query: Request["query"]
+): StationsQuery | { error: string } {
+  const str = (key: string) =>
+    typeof query[key] === "string" ? (query[key] as string) : undefined;
+
+  const min = intParam(query.min) ?? 0;
+  const minDocks = intParam(query.minDocks) ?? 0;
+  const limit = intParam(query.limit, MAX_LIMIT);
+  const offset = intParam(query.offset) ?? 0;
+  if (Number.isNaN(min)) return { error: "invalid min" };
+  if (Number.isNaN(minDocks)) return { error: "invalid minDocks" };
+  if (Number.isNaN(limit)) return { error: "invalid limit" };
+  if (Number.isNaN(offset)) return { error: "invalid offset" };
+
+  let bbox: StationsQuery["bbox"];
+  if (str("bbox")) {
+    const parts = str("bbox")!.split(",").map(Number);
+    const [minLon, minLat, maxLon, maxLat] = parts;
+    if (
+      parts.length !== 4 ||
+      parts.some((n) => !Number.isFinite(n)) ||
+      minLon > maxLon ||
+      minLat > maxLat
+    ) {
+      return { error: "invalid bbox" };
+    }
+    bbox = [minLon, minLat, maxLon, maxLat];
+  }
+
+  let near: LatLon | undefined;
+  if (str("near")) {
+    near = parseLatLon(str("near")!) ?? undefined;
+    if (!near) return { error: "invalid near" };
+  }
+
+  const radius = intParam(query.radius, MAX_RADIUS_M);
+  if (Number.isNaN(radius)) return { error: "invalid radius" };
+  if (radius !== undefined && !near) return { error: "radius requires near" };
+
+  const status = str("status");
+  if (status && status !== "open" && status !== "closed") {
+    return { error: "invalid status" };
+  }
+
+  const sort = str("sort");
+  if (sort && !Object.keys(DEFAULT_ORDER).includes(sort)) {
+    return { error: "invalid sort" };
+  }
+  if (sort === "distance" && !near) {
+    return { error: "sort=distance requires near" };
+  }
+
+  const order = str("order");
+  if (order && order !== "asc" && order !== "desc") {
+    return { error: "invalid order" };
+  }
+
+  return {
+    min,
+    minDocks,
+    bbox,
+    near,
+    radius,
+    q: str("q") ? normalizeText(str("q")!) : undefined,
+    status: status as StationsQuery["status"],
+    sort: sort as SortKey | undefined,
+    order: order as StationsQuery["order"],
+    limit,
+    offset,
+  };
+}
+
+export function isOpen(s: Station) {
+  return s.isInstalled && s.isRenting;
+}
+
+/**
+ * Filtre, trie et pagine les stations. `total` = nombre de résultats avant
+ * pagination. Avec `near`, chaque station porte sa distance en mètres.
+ */
+export function applyStationsQuery(stations: Station[], q: StationsQuery) {
+  let out: StationWithDistance[] = stations.filter((s) => {
+    if (s.bikes < q.min || s.docks < q.minDocks) return false;
+    if (q.status && isOpen(s) !== (q.status === "open")) return false;
+    if (q.bbox) {
+      const [minLon, minLat, maxLon, maxLat] = q.bbox;
+      if (s.lon < minLon || s.lon > maxLon) return false;
+      if (s.lat < minLat || s.lat > maxLat) return false;
+    }
+    if (q.q) {
+      const haystack = normalizeText(`${s.name} ${s.address ?? ""}`);
+      if (!haystack.includes(q.q)) return false;
+    }
+    return true;
+  });
+
+  if (q.near) {
+    const near = q.near;
+    out = out.map((s) => ({
+      ...s,
+      distance: Math.round(distanceMeters(near, s)),
+    }));
+    if (q.radius !== undefined) {
+      out = out.filter((s) => s.distance! <= q.radius!);
+    }
+  }
+
+  if (q.sort) {
+    const key = q.sort;
+    const dir = (q.order ?? DEFAULT_ORDER[key]) === "asc" ? 1 : -1;
+    out = [...out].sort((a, b) =>
+      key === "name"
+        ? dir * a.name.localeCompare(b.name)
+        : dir * ((a[key] ?? 0) - (b[key] ?? 0))
+    );
+  }
+
+  const total = out.length;
+  const end = q.limit === undefined ? undefined : q.offset + q.limit;
+  return { stations: out.slice(q.offset, end), total };
+}
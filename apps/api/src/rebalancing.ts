@@ -0,0 +1,189 @@
+import type { Station } from "@vlille/contracts";
+import { distanceMeters } from "./geo";
+import { queryHistory } from "./history";
+
+/** Part de la capacité en dessous de laquelle une station est presque vide / pleine */
+const NEARLY_RATIO = 0.15;
+/** Remplissage visé par un rééquilibrage (vélos / capacité) */
+const TARGET_RATIO = 0.5;
+/**
+ * Au-dessus, une station peut céder des vélos (jusqu'à la cible) ; en dessous
+ * de 1 - DONOR_RATIO, elle peut en recevoir
+ */
+const DONOR_RATIO = 0.7;
+/** Distance maximale d'un déplacement proposé (m) */
+const MAX_MOVE_M = 3_000;
+/** Profondeur d'historique pour dater l'entrée dans l'état courant */
+const STATE_LOOKBACK_MS = 24 * 60 * 60_000;
+
+export type ImbalanceLevel = "empty" | "nearly-empty" | "nearly-full" | "full";
+
+export type ImbalancedStation = {
+  id: string;
+  systemId: string;
+  name: string;
+  lat: number;
+  lon: number;
+  bikes: number;
+  docks: number;
+  level: ImbalanceLevel;
+  /** vélos / (vélos + places), de 0 à 1 */
+  fill: number;
+  /** écart à l'équilibre, de 0 (à moitié pleine) à 1 (vide ou pleine) */
+  imbalance: number;
+  /**
+   * entrée dans cet état (ms epoch) d'après l'historique ; au plus
+   * STATE_LOOKBACK_MS en arrière, null sans historique pour la station
+   */
+  since: number | null;
+};
+
+export type RebalancingMove = {
+  from: { id: string; name: string };
+  to: { id: string; name: string };
+  bikes: number;
+  /** distance à vol d'oiseau, en mètres */
+  distance: number;
+};
+
+/** Capacité publiée (bornes hors service comprises), à défaut vélos + places */
+const capacityOf = (s: Station) => s.capacity ?? s.bikes + s.docks;
+
+/** Niveau de déséquilibre selon la capacité (par défaut vélos + places) */
+export function imbalanceLevel(
+  bikes: number,
+  docks: number,
+  capacity = bikes + docks
+): ImbalanceLevel | null {
+  if (capacity <= 0) return null;
+  if (bikes === 0) return "empty";
+  if (docks === 0) return "full";
+  if (bikes / capacity <= NEARLY_RATIO) return "nearly-empty";
+  if (docks / capacity <= NEARLY_RATIO) return "nearly-full";
+  return null;
+}
+
+/** Date d'entrée dans `level` : on remonte l'historique tant qu'il y reste */
+function stateSince(s: Station, level: ImbalanceLevel, now: number) {
+  const points = queryHistory(s.systemId, s.id, now - STATE_LOOKBACK_MS, now);
+  if (points.length === 0) return null;
+
+  // dernier relevé différent de l'état courant : la station vient d'y entrer
+  let since = now;
+  for (let i = points.length - 1; i >= 0; i--) {
+    const { bikes, docks } = points[i];
+    if (imbalanceLevel(bikes, docks, capacityOf(s)) !== level) break;
+    since = points[i].t;
+  }
+  return since;
+}
+
+/**
+ * Stations en service vides, presque vides, presque pleines ou pleines,
+ * de la plus déséquilibrée à la moins déséquilibrée, puis de la plus
+ * ancienne dans son état à la plus récente.
+ */
+export function stationImbalances(
+  stations: Station[],
+  now = Date.now()
+): ImbalancedStation[] {
+  const out: ImbalancedStation[] = [];
+
+  for (const s of stations) {
+    if (!s.isInstalled) continue;
+    const capacity = capacityOf(s);
+    const level = imbalanceLevel(s.bikes, s.docks, capacity);
+    if (!level) continue;
+
+    const fill = s.bikes / capacity;
+    out.push({
+      id: s.id,
+      systemId: s.systemId,
+      name: s.name,
+      lat: s.lat,
+      lon: s.lon,
+      bikes: s.bikes,
+      docks: s.docks,
+      level,
+      fill: Math.round(fill * 100) / 100,
+      imbalance: Math.round(Math.abs(fill - TARGET_RATIO) * 200) / 100,
+      since: stateSince(s, level, now),
+    });
+  }
+
+  return out.sort(
+    (a, b) => b.imbalance - a.imbalance || (a.since ?? now) - (b.since ?? now)
+  );
+}
+
+/** Vélos à céder (au-dessus de la cible) ou à recevoir (en dessous) */
+type Stock = { s: Station; count: number };
+
+/**
+ * Déplacements proposés, à moins de MAX_MOVE_M : chaque station vide ou
+ * presque vide (la plus urgente d'abord) est remontée jusqu'à la cible avec
+ * les vélos en surplus des stations les plus proches (au-delà de
+ * DONOR_RATIO) ; puis chaque station pleine ou presque pleine cède ce qui lui
+ * reste au-dessus de la cible aux plus proches qui ont de la place.
+ */
+export function rebalancingMoves(
+  stations: Station[],
+  imbalances: ImbalancedStation[]
+): RebalancingMove[] {
+  const surplus = new Map<string, Stock>();
+  const deficit = new Map<string, Stock>();
+  for (const s of stations) {
+    const capacity = capacityOf(s);
+    if (!s.isInstalled || capacity <= 0) continue;
+    const target = Math.round(capacity * TARGET_RATIO);
+    const fill = s.bikes / capacity;
+    if (fill >= DONOR_RATIO) {
+      surplus.set(s.id, { s, count: s.bikes - target });
+    } else if (fill <= 1 - DONOR_RATIO) {
+      deficit.set(s.id, { s, count: target - s.bikes });
+    }
+  }
+
+  /** stocks non épuisés de `pool`, du plus proche de `origin` au plus loin */
+  const nearest = (pool: Map<string, Stock>, origin: Station) =>
+    [...pool.values()]
+      .filter((stock) => stock.count > 0)
+      .map((stock) => ({
+        stock,
+        distance: Math.round(distanceMeters(stock.s, origin)),
+      }))
+      .filter(({ distance }) => distance <= MAX_MOVE_M)
+      .sort((a, b) => a.distance - b.distance);
+
+  const moves: RebalancingMove[] = [];
+  const move = (from: Stock, to: Stock, distance: number) => {
+    const bikes = Math.min(from.count, to.count);
+    from.count -= bikes;
+    to.count -= bikes;
+    moves.push({
+      from: { id: from.s.id, name: from.s.name },
+      to: { id: to.s.id, name: to.s.name },
+      bikes,
+      distance,
+    });
+  };
+
+  for (const { id, level } of imbalances) {
+    const to = deficit.get(id);
+    if (!to || (level !== "empty" && level !== "nearly-empty")) continue;
+    for (const { stock: from, distance } of nearest(surplus, to.s)) {
+      if (to.count <= 0) break;
+      move(from, to, distance);
+    }
+  }
+  for (const { id, level } of imbalances) {
+    const from = surplus.get(id);
+    if (!from || (level !== "full" && level !== "nearly-full")) continue;
+    for (const { stock: to, distance } of nearest(deficit, from.s)) {
+      if (from.count <= 0) break;
+      move(from, to, distance);
+    }
+  }
+
+  return moves;
+}
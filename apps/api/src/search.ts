@@ -0,0 +1,108 @@
+import type { Station } from "@vlille/contracts";
+
+export type SearchResult = Station & {
+  /** pertinence (plus haut = meilleur) */
+  score: number;
+  /** champ qui a le mieux répondu à la recherche */
+  matched: "name" | "address";
+};
+
+/** Minuscules, sans accents ni ponctuation : "RÉPUBLIQUE-Beaux Arts" → "republique beaux arts" */
+export function normalize(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** Distance de Levenshtein bornée : au-delà de `max`, renvoie `max + 1` */
+function distance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Fautes tolérées selon la longueur du mot cherché */
+const typos = (token: string) =>
+  token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0;
+
+/**
+ * Note d'un mot cherché face aux mots d'un champ : mot exact > début de mot >
+ * contenu dans un mot > mot à une ou deux fautes près. 0 si aucun ne convient.
+ */
+function tokenScore(token: string, words: string[]) {
+  let best = 0;
+  for (const word of words) {
+    if (word === token) return 1;
+    if (word.startsWith(token)) best = Math.max(best, 0.8);
+    else if (token.length >= 3 && word.includes(token)) {
+      best = Math.max(best, 0.5);
+    } else {
+      const max = typos(token);
+      if (max === 0) continue;
+      // mot entier, ou seulement son début s'il est en cours de frappe
+      const d = Math.min(
+        distance(token, word, max),
+        distance(token, word.slice(0, token.length), max)
+      );
+      if (d <= max) best = Math.max(best, 0.6 - 0.2 * d);
+    }
+  }
+  return best;
+}
+
+/** Note d'un champ : tous les mots cherchés doivent y trouver une correspondance */
+function fieldScore(tokens: string[], text: string | undefined) {
+  if (!text) return 0;
+  const words = normalize(text).split(" ");
+  let total = 0;
+  for (const token of tokens) {
+    const score = tokenScore(token, words);
+    if (score === 0) return 0;
+    total += score;
+  }
+  return total / tokens.length;
+}
+
+/**
+ * Recherche approximative (accents, casse et fautes de frappe tolérés) sur le
+ * nom puis l'adresse des stations. Le nom l'emporte à pertinence égale.
+ */
+export function searchStations(
+  stations: Station[],
+  query: string,
+  limit: number
+): SearchResult[] {
+  const tokens = normalize(query).split(" ").filter(Boolean);
+  if (tokens.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const s of stations) {
+    const name = fieldScore(tokens, s.name);
+    const address = fieldScore(tokens, s.address) * 0.9;
+    const score = Math.max(name, address);
+    if (score === 0) continue;
+    results.push({
+      ...s,
+      score: Math.round(score * 100) / 100,
+      matched: name >= address ? "name" : "address",
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
@@ -0,0 +1,146 @@
+import fs from "node:fs";
+import path from "node:path";
+import type Redis from "ioredis";
+import { connectRedis } from "./cache";
+
+/**
+ * Table clé → valeur JSON des données des utilisateurs (favoris, alertes).
+ * `delete` n'aboutit que pour un seul appelant, même entre réplicas : il sert
+ * à réserver une entrée avant de la traiter.
+ */
+export type Store<T> = {
+  name: string;
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  /** `false` si la clé n'existait plus */
+  delete(key: string): Promise<boolean>;
+  values(): Promise<T[]>;
+  size(): Promise<number>;
+};
+
+type IsValid<T> = (key: string, value: unknown) => value is T;
+
+/**
+ * Table en mémoire du processus (un seul réplica), réécrite entièrement dans
+ * `file` à chaque modification (quelques Ko, pas de journal nécessaire) et
+ * rechargée au premier accès. `file` vide : mémoire seulement.
+ */
+export function fileStore<T>(
+  name: string,
+  file: string,
+  isValid: IsValid<T>
+): Store<T> {
+  const entries = new Map<string, T>();
+  let loaded = false;
+  let writeChain: Promise<void> = Promise.resolve();
+
+  function load() {
+    loaded = true;
+    if (!file) return;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    if (!fs.existsSync(file)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(file, "utf8"));
+      for (const [key, value] of Object.entries(data ?? {})) {
+        if (isValid(key, value)) entries.set(key, value);
+      }
+    } catch (e) {
+      console.error(`${name}: load failed`, e);
+    }
+  }
+
+  const all = () => {
+    if (!loaded) load();
+    return entries;
+  };
+
+  function persist() {
+    if (!file) return;
+    const content = JSON.stringify(Object.fromEntries(entries));
+    writeChain = writeChain
+      .then(() => fs.promises.writeFile(file, content))
+      .catch((e) => console.error(`${name}: write failed`, e));
+  }
+
+  return {
+    name: "memory",
+    async get(key) {
+      return all().get(key);
+    },
+    async set(key, value) {
+      all().set(key, value);
+      persist();
+    },
+    async delete(key) {
+      const deleted = all().delete(key);
+      if (deleted) persist();
+      return deleted;
+    },
+    async values() {
+      return [...all().values()];
+    },
+    async size() {
+      return all().size;
+    },
+  };
+}
+
+/** Hash Redis, partagé entre réplicas ; les entrées invalides sont ignorées */
+export function redisStore<T>(
+  redis: Redis,
+  hash: string,
+  isValid: IsValid<T>
+): Store<T> {
+  const parse = (key: string, raw: string | null) => {
+    if (raw === null) return undefined;
+    const value: unknown = JSON.parse(raw);
+    return isValid(key, value) ? value : undefined;
+  };
+
+  return {
+    name: "redis",
+    async get(key) {
+      return parse(key, await redis.hget(hash, key));
+    },
+    async set(key, value) {
+      await redis.hset(hash, key, JSON.stringify(value));
+    },
+    async delete(key) {
+      return (await redis.hdel(hash, key)) > 0;
+    },
+    async values() {
+      const all = await redis.hgetall(hash);
+      return Object.entries(all).flatMap(([key, raw]) => {
+        const value = parse(key, raw);
+        return value === undefined ? [] : [value];
+      });
+    },
+    async size() {
+      return redis.hlen(hash);
+    },
+  };
+}
+
+let redis: Redis | undefined;
+
+/**
+ * STORE_BACKEND=memory|redis (REDIS_URL, défaut redis://localhost:6379) :
+ * `file` en mémoire, hash `vlille:<name>` avec Redis
+ */
+export function createStore<T>(
+  name: string,
+  file: string,
+  isValid: IsValid<T>
+): Store<T> {
+  const wanted = process.env.STORE_BACKEND ?? "memory";
+  if (wanted === "memory") return fileStore(name, file, isValid);
+  if (wanted === "redis") {
+    redis ??= connectRedis(
+      process.env.REDIS_URL ?? "redis://localhost:6379",
+      "store"
+    );
+    return redisStore(redis, `vlille:${name}`, isValid);
+  }
+  throw new Error(`unknown STORE_BACKEND: ${wanted}`);
+}
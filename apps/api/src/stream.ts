@@ -0,0 +1,181 @@
+import type { Request, Response } from "express";
+import type { Station, StationsDiff } from "@vlille/contracts";
+import { fetchSnapshot, type Snapshot } from "./gbfs";
+
+const POLL_MS = Number(process.env.STREAM_POLL_MS ?? 15_000);
+const HEARTBEAT_MS = 25_000;
+
+type Client = { res: Response; min: number };
+
+/** État du flux d'un système : clients connectés et dernier snapshot diffusé */
+type Channel = {
+  clients: Set<Client>;
+  previous: Station[] | null;
+  /** dernière fraîcheur diffusée (`lastUpdated:stale`) */
+  freshness: string | null;
+  pollTimer: NodeJS.Timeout | null;
+  heartbeatTimer: NodeJS.Timeout | null;
+};
+
+const channels = new Map<string, Channel>();
+
+function channelFor(systemId: string) {
+  let channel = channels.get(systemId);
+  if (!channel) {
+    channel = {
+      clients: new Set(),
+      previous: null,
+      freshness: null,
+      pollTimer: null,
+      heartbeatTimer: null,
+    };
+    channels.set(systemId, channel);
+  }
+  return channel;
+}
+
+function sameStation(a: Station, b: Station) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((k) => {
+    const va = a[k as keyof Station];
+    const vb = b[k as keyof Station];
+    // vehicleTypes : nouveau tableau à chaque refresh, on compare le contenu
+    return typeof va === "object" && typeof vb === "object"
+      ? JSON.stringify(va) === JSON.stringify(vb)
+      : va === vb;
+  });
+}
+
+/** Stations ajoutées/modifiées et identifiants disparus entre deux snapshots */
+export function diffStations(prev: Station[], next: Station[]): StationsDiff {
+  const prevById = new Map(prev.map((s) => [s.id, s]));
+  const nextIds = new Set(next.map((s) => s.id));
+
+  return {
+    changed: next.filter((s) => {
+      const p = prevById.get(s.id);
+      return !p || !sameStation(p, s);
+    }),
+    removed: prev.filter((s) => !nextIds.has(s.id)).map((s) => s.id),
+  };
+}
+
+function send(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function freshnessOf(snapshot: Snapshot) {
+  return { updatedAt: snapshot.lastUpdated, stale: snapshot.stale };
+}
+
+const freshnessKey = (snapshot: Snapshot) =>
+  `${snapshot.lastUpdated}:${snapshot.stale}`;
+
+/**
+ * Applique le filtre `min` du client : une station qui passe sous le seuil
+ * est annoncée comme supprimée pour ce client.
+ */
+function diffForClient(diff: StationsDiff, min: number): StationsDiff {
+  if (min <= 0) return diff;
+  return {
+    changed: diff.changed.filter((s) => s.bikes >= min),
+    removed: [
+      ...diff.removed,
+      ...diff.changed.filter((s) => s.bikes < min).map((s) => s.id),
+    ],
+  };
+}
+
+async function poll(systemId: string, channel: Channel) {
+  try {
+    const snapshot = await fetchSnapshot(systemId);
+    const stations = snapshot.stations;
+
+    // fraîcheur : nouvelle donnée amont, ou bascule vers/depuis le secours
+    const key = freshnessKey(snapshot);
+    if (key !== channel.freshness) {
+      channel.freshness = key;
+      for (const c of channel.clients) {
+        send(c.res, "freshness", freshnessOf(snapshot));
+      }
+    }
+
+    // même référence tant que le snapshot n'a pas été rafraîchi
+    if (stations === channel.previous) return;
+
+    const diff = channel.previous
+      ? diffStations(channel.previous, stations)
+      : { changed: stations, removed: [] };
+    channel.previous = stations;
+    if (diff.changed.length === 0 && diff.removed.length === 0) return;
+
+    for (const c of channel.clients) {
+      const d = diffForClient(diff, c.min);
+      if (d.changed.length || d.removed.length) send(c.res, "changes", d);
+    }
+  } catch (e) {
+    console.error("stream: refresh failed", e);
+  }
+}
+
+function start(systemId: string, channel: Channel) {
+  channel.pollTimer = setInterval(() => poll(systemId, channel), POLL_MS);
+  channel.heartbeatTimer = setInterval(() => {
+    for (const c of channel.clients) c.res.write(": ping\n\n");
+  }, HEARTBEAT_MS);
+}
+
+function stop(channel: Channel) {
+  if (channel.pollTimer) clearInterval(channel.pollTimer);
+  if (channel.heartbeatTimer) clearInterval(channel.heartbeatTimer);
+  channel.pollTimer = channel.heartbeatTimer = null;
+}
+
+/**
+ * Ouvre un flux Server-Sent Events : un événement `snapshot` complet à la
+ * connexion, puis des événements `changes` ne contenant que les différences
+ * et `freshness` quand la date des données ou leur statut de secours change.
+ * Le polling amont ne tourne que tant qu'au moins un client est connecté.
+ */
+export async function subscribeStations(req: Request, res: Response) {
+  const systemId: string = res.locals.systemId;
+  const channel = channelFor(systemId);
+  const min = Number(req.query.min ?? 0) || 0;
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const client: Client = { res, min };
+  let closed = false;
+  req.on("close", () => {
+    closed = true;
+    channel.clients.delete(client);
+    if (channel.clients.size === 0) stop(channel);
+  });
+
+  try {
+    const snapshot = await fetchSnapshot(systemId);
+    if (!channel.pollTimer) {
+      channel.previous = snapshot.stations;
+      channel.freshness = freshnessKey(snapshot);
+    }
+    send(
+      res,
+      "snapshot",
+      snapshot.stations.filter((s) => s.bikes >= min)
+    );
+    send(res, "freshness", freshnessOf(snapshot));
+  } catch (e) {
+    console.error(e);
+    send(res, "upstream-error", { error: "failed to fetch stations" });
+  }
+
+  if (closed) return;
+  channel.clients.add(client);
+  if (!channel.pollTimer) start(systemId, channel);
+}
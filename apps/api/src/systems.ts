@@ -0,0 +1,82 @@
+import fs from "node:fs";
+import { fixtureSystems } from "./fixtures";
+
+/** Un réseau de vélos en libre-service publiant un flux GBFS */
+export type GbfsSystem = {
+  id: string;
+  name: string;
+  city?: string;
+  /** URL du point d'entrée `gbfs.json` (auto-discovery) */
+  url: string;
+  /** Langues préférées pour la découverte des feeds, par ordre de priorité */
+  languages?: string[];
+  /** Fuseau IANA du réseau (heures des statistiques), sinon celui du serveur */
+  timeZone?: string;
+};
+
+const DEFAULT_SYSTEMS: GbfsSystem[] = [
+  {
+    id: "lille",
+    name: "V’Lille",
+    city: "Lille",
+    url: "https://media.ilevia.fr/opendata/gbfs.json",
+    timeZone: "Europe/Paris",
+  },
+  {
+    id: "paris",
+    name: "Vélib’ Métropole",
+    city: "Paris",
+    url: "https://velib-metropole-opendata.smovengo.cloud/opendata/Velib_Metropole/gbfs.json",
+    timeZone: "Europe/Paris",
+  },
+];
+
+/** Langues essayées quand un système n'en précise pas (puis la première dispo) */
+export const DEFAULT_LANGUAGES = (process.env.GBFS_LANGUAGES ?? "fr,en")
+  .split(",")
+  .map((l) => l.trim())
+  .filter(Boolean);
+
+function isSystem(value: unknown): value is GbfsSystem {
+  const s = value as GbfsSystem;
+  return (
+    typeof s?.id === "string" &&
+    /^[a-z0-9_-]+$/i.test(s.id) &&
+    typeof s.name === "string" &&
+    typeof s.url === "string" &&
+    (s.timeZone === undefined || typeof s.timeZone === "string")
+  );
+}
+
+/** GBFS_OFFLINE=1 : systèmes des fixtures, servis par le mock local */
+export const OFFLINE = process.env.GBFS_OFFLINE === "1";
+
+/**
+ * Registre des systèmes : `GBFS_SYSTEMS_FILE` (chemin d'un JSON) ou
+ * `GBFS_SYSTEMS` (JSON inline), sinon la liste par défaut.
+ */
+function loadSystems(): GbfsSystem[] {
+  if (OFFLINE) return fixtureSystems();
+  const raw = process.env.GBFS_SYSTEMS_FILE
+    ? fs.readFileSync(process.env.GBFS_SYSTEMS_FILE, "utf8")
+    : process.env.GBFS_SYSTEMS;
+  if (!raw) return DEFAULT_SYSTEMS;
+
+  const parsed = JSON.parse(raw) as unknown;
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length === 0 ||
+    !parsed.every(isSystem)
+  ) {
+    throw new Error("invalid GBFS systems configuration");
+  }
+  return parsed;
+}
+
+export const SYSTEMS = loadSystems();
+
+export const DEFAULT_SYSTEM_ID = process.env.DEFAULT_SYSTEM ?? SYSTEMS[0].id;
+
+export function getSystem(id: string) {
+  return SYSTEMS.find((s) => s.id === id);
+}
@@ -0,0 +1,35 @@
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formats = new Map<string, Intl.DateTimeFormat>();
+
+function formatFor(timeZone?: string) {
+  const key = timeZone ?? "";
+  let format = formats.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-GB", {
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+      timeZone,
+    });
+    formats.set(key, format);
+  }
+  return format;
+}
+
+/**
+ * Jour de semaine (0 = dimanche), heure (0–23) et minute de `t` dans
+ * `timeZone` (celui du réseau ; fuseau du serveur si absent)
+ */
+export function localTime(t: number, timeZone?: string) {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of formatFor(timeZone).formatToParts(t)) {
+    parts[type] = value;
+  }
+  return {
+    day: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
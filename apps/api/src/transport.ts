@@ -0,0 +1,99 @@
+import webpush from "web-push";
+
+/** Abonnement Web Push tel que renvoyé par `PushSubscription.toJSON()` */
+export type PushTarget = {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+};
+
+export type Notification = {
+  title: string;
+  body: string;
+  /** page ouverte au clic sur la notification */
+  url: string;
+  tag: string;
+};
+
+/**
+ * Moyen d'envoi des alertes. `"gone"` : l'abonnement n'existe plus côté
+ * navigateur, les alertes associées peuvent être supprimées.
+ */
+export type AlertTransport = {
+  name: string;
+  /** clé VAPID publique à fournir au navigateur pour s'abonner */
+  publicKey?: string;
+  send(
+    target: PushTarget,
+    notification: Notification
+  ): Promise<"sent" | "gone">;
+};
+
+/** Web Push (clés VAPID) : `npx web-push generate-vapid-keys` */
+function webPushTransport(
+  publicKey: string,
+  privateKey: string,
+  subject: string
+): AlertTransport {
+  webpush.setVapidDetails(subject, publicKey, privateKey);
+  return {
+    name: "webpush",
+    publicKey,
+    async send(target, notification) {
+      try {
+        await webpush.sendNotification(target, JSON.stringify(notification), {
+          TTL: 10 * 60,
+        });
+        return "sent";
+      } catch (e) {
+        if (
+          e instanceof webpush.WebPushError &&
+          (e.statusCode === 404 || e.statusCode === 410)
+        ) {
+          return "gone";
+        }
+        throw e;
+      }
+    },
+  };
+}
+
+/**
+ * Journalise les notifications au lieu de les envoyer (développement local).
+ * Sans VAPID_PUBLIC_KEY, une clé générée au démarrage permet quand même au
+ * navigateur de s'abonner : rien n'est envoyé, la clé privée est inutile.
+ */
+export const logTransport: AlertTransport = {
+  name: "log",
+  publicKey:
+    process.env.VAPID_PUBLIC_KEY ?? webpush.generateVAPIDKeys().publicKey,
+  async send(target, notification) {
+    console.log(
+      `alerts: [${notification.tag}] ${notification.title} — ${notification.body} → ${target.endpoint}`
+    );
+    return "sent";
+  },
+};
+
+/** ALERT_TRANSPORT=webpush|log ; par défaut Web Push si les clés VAPID sont définies */
+export function createTransport(): AlertTransport {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const wanted =
+    process.env.ALERT_TRANSPORT ??
+    (publicKey && privateKey ? "webpush" : "log");
+
+  if (wanted === "webpush") {
+    if (!publicKey || !privateKey) {
+      throw new Error(
+        "ALERT_TRANSPORT=webpush requires VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY"
+      );
+    }
+    return webPushTransport(
+      publicKey,
+      privateKey,
+      process.env.VAPID_SUBJECT ?? "mailto:admin@example.com"
+    );
+  }
+  if (wanted === "log") return logTransport;
+  throw new Error(`unknown ALERT_TRANSPORT: ${wanted}`);
+}
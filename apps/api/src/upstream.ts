@@ -0,0 +1,108 @@
+const TIMEOUT_MS = Number(process.env.UPSTREAM_TIMEOUT_MS ?? 8_000);
+const RETRIES = Number(process.env.UPSTREAM_RETRIES ?? 2);
+const BACKOFF_MS = 300;
+const BREAKER_THRESHOLD = Number(process.env.BREAKER_THRESHOLD ?? 5);
+const BREAKER_COOLDOWN_MS = Number(process.env.BREAKER_COOLDOWN_MS ?? 30_000);
+
+/** Réponse HTTP en erreur ; `retryable` pour les 5xx et 429 */
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+
+  get retryable() {
+    return (
+      this.status === undefined || this.status >= 500 || this.status === 429
+    );
+  }
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * GET JSON avec délai maximal par tentative et nouvelles tentatives
+ * (backoff exponentiel + jitter) sur erreur réseau, timeout, 5xx ou 429.
+ */
+export async function fetchJson<T = unknown>(
+  url: string,
+  {
+    timeoutMs = TIMEOUT_MS,
+    retries = RETRIES,
+    headers,
+  }: { timeoutMs?: number; retries?: number; headers?: HeadersInit } = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const res = await fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!res.ok) {
+        throw new UpstreamError(`${url} answered ${res.status}`, res.status);
+      }
+      return (await res.json()) as T;
+    } catch (e) {
+      const retryable = !(e instanceof UpstreamError) || e.retryable;
+      if (!retryable || attempt >= retries) throw e;
+      const delay = BACKOFF_MS * 2 ** attempt;
+      await sleep(delay / 2 + Math.random() * delay);
+    }
+  }
+}
+
+/** Appel évité : le disjoncteur de la source est ouvert */
+export class CircuitOpenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CircuitOpenError";
+  }
+}
+
+export type BreakerState = "closed" | "open" | "half-open";
+
+/**
+ * Disjoncteur : après `threshold` échecs consécutifs, on cesse d'appeler
+ * l'amont pendant `cooldownMs`, puis une seule requête d'essai est autorisée
+ * (half-open) ; son succès referme le circuit, son échec le rouvre.
+ */
+export function createBreaker({
+  threshold = BREAKER_THRESHOLD,
+  cooldownMs = BREAKER_COOLDOWN_MS,
+} = {}) {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let probing = false;
+
+  const state = (now = Date.now()): BreakerState => {
+    if (openedAt === null) return "closed";
+    return now - openedAt >= cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    state,
+    /** `false` si l'appel doit être évité (circuit ouvert ou essai en cours) */
+    allow(now = Date.now()) {
+      const s = state(now);
+      if (s === "closed") return true;
+      if (s === "open" || probing) return false;
+      probing = true;
+      return true;
+    },
+    success() {
+      failures = 0;
+      openedAt = null;
+      probing = false;
+    },
+    failure(now = Date.now()) {
+      failures++;
+      if (probing || failures >= threshold) openedAt = now;
+      probing = false;
+    },
+  };
+}
+
+export type Breaker = ReturnType<typeof createBreaker>;
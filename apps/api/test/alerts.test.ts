@@ -0,0 +1,205 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { Station } from "@vlille/contracts";
+import type { AlertRequest } from "../src/alerts";
+import type { Notification, PushTarget } from "../src/transport";
+
+type AlertsModule = typeof import("../src/alerts");
+
+let alerts: AlertsModule;
+let sent: Array<{ target: PushTarget; notification: Notification }>;
+let reply: "sent" | "gone";
+
+const HOUR = 60 * 60_000;
+
+const station = (bikes: number, docks = 10): Station => ({
+  id: "36",
+  systemId: "lille",
+  name: "LILLE FLANDRES",
+  lat: 50.63659,
+  lon: 3.07005,
+  bikes,
+  docks,
+  isInstalled: true,
+  isRenting: true,
+  isReturning: true,
+});
+
+const request = (endpoint: string, threshold = 3): AlertRequest => ({
+  kind: "bikes",
+  threshold,
+  lang: "fr",
+  target: {
+    endpoint: `https://push.example/${endpoint}`,
+    keys: { p256dh: "p256dh", auth: "auth" },
+  },
+});
+
+beforeAll(async () => {
+  // alertes en mémoire seulement
+  vi.stubEnv("ALERTS_FILE", "");
+  vi.stubEnv("PUSH_HOSTS", "push.example");
+  vi.resetModules();
+  alerts = await import("../src/alerts");
+  alerts.setTransport({
+    name: "fake",
+    async send(target, notification) {
+      sent.push({ target, notification });
+      return reply;
+    },
+  });
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  sent = [];
+  reply = "sent";
+});
+
+describe("parseAlertRequest", () => {
+  const subscription = {
+    endpoint: "https://push.example/a",
+    keys: { p256dh: "p", auth: "a" },
+  };
+
+  it("accepts a valid request and defaults the language", () => {
+    expect(
+      alerts.parseAlertRequest({ kind: "docks", threshold: 2, subscription })
+    ).toEqual({
+      kind: "docks",
+      threshold: 2,
+      lang: "fr",
+      target: subscription,
+    });
+  });
+
+  it("rejects invalid fields", () => {
+    const valid = { kind: "bikes", threshold: 2, subscription };
+    expect(alerts.parseAlertRequest(null)).toEqual({ error: "invalid kind" });
+    expect(alerts.parseAlertRequest({ ...valid, threshold: "2" })).toEqual({
+      error: "invalid threshold",
+    });
+    expect(alerts.parseAlertRequest({ ...valid, lang: "de" })).toEqual({
+      error: "invalid lang",
+    });
+    expect(
+      alerts.parseAlertRequest({
+        ...valid,
+        subscription: { endpoint: "http://push.example/a", keys: {} },
+      })
+    ).toEqual({ error: "invalid subscription" });
+  });
+
+  it("only accepts endpoints of the allowed push services", () => {
+    const withEndpoint = (endpoint: string) =>
+      alerts.parseAlertRequest({
+        kind: "bikes",
+        threshold: 2,
+        subscription: { ...subscription, endpoint },
+      });
+
+    expect(withEndpoint("https://eu.push.example/a")).not.toHaveProperty(
+      "error"
+    );
+    for (const endpoint of [
+      "https://169.254.169.254/latest/meta-data",
+      "https://push.example.evil.test/a",
+      "https://evilpush.example/a",
+      "https://push.example:8443/a",
+      "https://user@push.example/a",
+      "not a url",
+    ]) {
+      expect(withEndpoint(endpoint)).toEqual({
+        error: "invalid subscription",
+      });
+    }
+  });
+});
+
+describe("alerts", () => {
+  it("fires once when the threshold is reached", async () => {
+    const now = Date.now();
+    const alert = await alerts.createAlert(
+      "lille",
+      station(1),
+      request("fire"),
+      now
+    );
+    expect(alert).not.toBeNull();
+
+    await alerts.evaluateAlerts("lille", [station(2)], now);
+    expect(sent).toHaveLength(0);
+
+    await alerts.evaluateAlerts("lille", [station(4)], now + 60_000);
+    await alerts.evaluateAlerts("lille", [station(5)], now + 120_000);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].notification).toMatchObject({
+      title: "🚲 LILLE FLANDRES",
+      body: "4 vélos disponibles (alerte ≥ 3)",
+      url: "/fr",
+    });
+    expect(await alerts.listAlerts("https://push.example/fire")).toEqual([]);
+  });
+
+  it("ignores other systems", async () => {
+    const now = Date.now();
+    await alerts.createAlert("lille", station(1), request("system"), now);
+
+    await alerts.evaluateAlerts("other", [station(10)], now);
+    expect(sent).toHaveLength(0);
+    expect(await alerts.listAlerts("https://push.example/system")).toHaveLength(
+      1
+    );
+  });
+
+  it("expires alerts that never fired", async () => {
+    const now = Date.now();
+    await alerts.createAlert("lille", station(1), request("expire"), now);
+
+    await alerts.evaluateAlerts("lille", [station(10)], now + 13 * HOUR);
+    expect(sent).toHaveLength(0);
+    expect(await alerts.listAlerts("https://push.example/expire")).toEqual([]);
+  });
+
+  it("limits the number of alerts per subscription", async () => {
+    const now = Date.now();
+    for (let i = 0; i < 20; i++) {
+      expect(
+        await alerts.createAlert(
+          "lille",
+          station(0),
+          request("limit", i + 1),
+          now
+        )
+      ).not.toBeNull();
+    }
+    expect(
+      await alerts.createAlert("lille", station(0), request("limit", 21), now)
+    ).toBeNull();
+    expect(
+      await alerts.createAlert("lille", station(0), request("other"), now)
+    ).not.toBeNull();
+  });
+
+  it("drops every alert of a subscription that is gone", async () => {
+    const now = Date.now();
+    // autre réseau : les alertes des tests précédents ne se déclenchent pas
+    await alerts.createAlert("roubaix", station(1), request("gone", 2), now);
+    await alerts.createAlert("roubaix", station(1), request("gone", 50), now);
+    reply = "gone";
+
+    await alerts.evaluateAlerts("roubaix", [station(3)], now);
+    expect(sent).toHaveLength(1);
+    expect(await alerts.listAlerts("https://push.example/gone")).toEqual([]);
+  });
+});
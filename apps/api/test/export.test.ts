@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import type { Station } from "@vlille/contracts";
+import { stationsCsv } from "../src/export";
+
+/** Ligne CSV d'une station nommée `name`, sans l'en-tête */
+const row = (name: string) =>
+  stationsCsv([
+    {
+      id: "36",
+      systemId: "lille",
+      name,
+      lat: 50.63659,
+      lon: 3.07005,
+      bikes: 12,
+      docks: 26,
+      isInstalled: true,
+      isRenting: true,
+      isReturning: true,
+    } satisfies Station,
+  ]).split("\r\n")[1];
+
+describe("stationsCsv", () => {
+  it("quotes cells holding commas, quotes or line breaks", () => {
+    expect(row('GARE "EUROPE", LILLE')).toContain(
+      '36,"GARE ""EUROPE"", LILLE",50.63659,'
+    );
+  });
+
+  it("defuses cells a spreadsheet would read as a formula", () => {
+    for (const name of ["=1+1", "+33", "-1", "@SUM(A1)", "\t=1"]) {
+      expect(row(name)).toContain(`36,'${name},50.63659,`);
+    }
+    // retour chariot : préfixé puis cité
+    expect(row("\r=1")).toContain(`36,"'\r=1",50.63659,`);
+  });
+});
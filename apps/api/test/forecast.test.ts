@@ -0,0 +1,111 @@
+import os from "node:os";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Station } from "@vlille/contracts";
+
+type ForecastModule = typeof import("../src/forecast");
+type HistoryModule = typeof import("../src/history");
+
+let forecastStation: ForecastModule["forecastStation"];
+let recordSnapshot: HistoryModule["recordSnapshot"];
+
+const MIN = 60_000;
+const DAY = 24 * 60 * MIN;
+
+const station = (id: string, bikes: number, docks: number): Station => ({
+  id,
+  systemId: "lille",
+  name: `STATION ${id}`,
+  lat: 50.63,
+  lon: 3.06,
+  bikes,
+  docks,
+  isInstalled: true,
+  isRenting: true,
+  isReturning: true,
+});
+
+beforeAll(async () => {
+  // historique en mémoire seulement
+  vi.stubEnv("HISTORY_FILE", os.devNull);
+  vi.stubEnv(
+    "GBFS_SYSTEMS",
+    JSON.stringify([
+      {
+        id: "lille",
+        name: "V’Lille",
+        url: "http://localhost/gbfs.json",
+        timeZone: "Europe/Paris",
+      },
+    ])
+  );
+
+  vi.resetModules();
+  ({ forecastStation } = await import("../src/forecast"));
+  ({ recordSnapshot } = await import("../src/history"));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("forecastStation", () => {
+  it("uses the weekday profile in the network's time zone", () => {
+    // le lundi à 8 h (heure de Lille) la station se vide, de part et
+    // d'autre du passage à l'heure d'hiver (26 octobre)
+    for (const monday of ["2025-10-06", "2025-10-13", "2025-10-20"]) {
+      const eight = Date.parse(`${monday}T08:00:00+02:00`);
+      recordSnapshot("lille", [station("1", 10, 10)], eight - 15 * MIN);
+      recordSnapshot("lille", [station("1", 2, 18)], eight);
+      recordSnapshot("lille", [station("1", 10, 10)], eight + 15 * MIN);
+    }
+    const eight = Date.parse("2025-10-27T08:00:00+01:00");
+    recordSnapshot("lille", [station("1", 10, 10)], eight - 15 * MIN);
+    recordSnapshot("lille", [station("1", 2, 18)], eight);
+    recordSnapshot("lille", [station("1", 10, 10)], eight + 15 * MIN);
+
+    const now = Date.parse("2025-11-02T20:00:00+01:00");
+    const at = Date.parse("2025-11-03T08:00:00+01:00");
+    const forecast = forecastStation(station("1", 10, 10), at, now);
+
+    expect(forecast).toMatchObject({
+      basis: "weekday",
+      samples: 4,
+      horizonMin: 12 * 60,
+    });
+    expect(forecast.bikes.expected).toBe(2);
+    expect(forecast.docks.expected).toBe(18);
+  });
+
+  it("falls back to the same slot on all days with too few samples", () => {
+    // une seule semaine d'historique : le mardi ne suffit pas
+    const now = Date.parse("2025-11-02T20:00:00+01:00");
+    for (let day = 6; day >= 1; day--) {
+      recordSnapshot(
+        "lille",
+        [station("2", 4 + (day % 2), 16)],
+        now - day * DAY
+      );
+    }
+    const forecast = forecastStation(station("2", 4, 16), now + 2 * DAY, now);
+
+    expect(forecast.basis).toBe("all-days");
+    expect(forecast.samples).toBeGreaterThan(1);
+  });
+
+  it("keeps the current value and bounds the band by the capacity", () => {
+    const now = Date.parse("2025-11-02T20:00:00+01:00");
+    // 5 places hors service : capacité publiée 20, vélos + places 15
+    const forecast = forecastStation(
+      { ...station("3", 5, 10), capacity: 20 },
+      now + 4 * 60 * MIN,
+      now
+    );
+
+    expect(forecast.basis).toBe("current");
+    expect(forecast.bikes.expected).toBe(5);
+    expect(forecast.bikes.low).toBeGreaterThanOrEqual(0);
+    expect(forecast.bikes.high).toBeLessThanOrEqual(20);
+    expect(forecast.docks.expected).toBe(15);
+    expect(forecast.bikes.high).toBeGreaterThan(forecast.bikes.expected);
+  });
+});
@@ -0,0 +1,260 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { startMockGbfs, type MockGbfs } from "../src/mock-gbfs";
+
+let mock: MockGbfs;
+
+/** Module gbfs neuf (cache et disjoncteurs vides), configuré par l'env */
+async function loadGbfs() {
+  vi.resetModules();
+  return import("../src/gbfs");
+}
+
+beforeAll(async () => {
+  mock = await startMockGbfs({ port: 0 });
+  vi.stubEnv("UPSTREAM_RETRIES", "0");
+  vi.stubEnv(
+    "GBFS_SYSTEMS",
+    JSON.stringify([
+      { id: "lille", name: "V’Lille", url: `${mock.baseUrl}/lille/gbfs.json` },
+    ])
+  );
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await mock.close();
+});
+
+beforeEach(() => {
+  mock.setScenario("normal");
+  mock.hits.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("fetchStations", () => {
+  it("merges station_information and station_status", async () => {
+    const { fetchStations } = await loadGbfs();
+    const stations = await fetchStations("lille");
+
+    expect(stations).toHaveLength(8);
+    expect(stations.find((s) => s.id === "36")).toMatchObject({
+      systemId: "lille",
+      name: "LILLE FLANDRES",
+      lat: 50.63659,
+      lon: 3.07005,
+      bikes: 12,
+      docks: 26,
+      capacity: 40,
+      isRenting: true,
+    });
+    expect(stations.find((s) => s.id === "73")?.isRenting).toBe(false);
+  });
+
+  it("serves the cache within the feed ttl", async () => {
+    const { fetchStations } = await loadGbfs();
+    await fetchStations("lille");
+    await fetchStations("lille");
+
+    expect(mock.hits.get("lille/station_status")).toBe(1);
+  });
+
+  it("coalesces concurrent refreshes into one upstream call", async () => {
+    const { fetchStations } = await loadGbfs();
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => fetchStations("lille"))
+    );
+
+    expect(mock.hits.get("lille/station_status")).toBe(1);
+    expect(new Set(results).size).toBe(1);
+  });
+
+  it("picks up a station going empty", async () => {
+    const { fetchSnapshot } = await loadGbfs();
+    await fetchSnapshot("lille");
+    mock.setScenario("empty-station");
+    const { stations } = await fetchSnapshot("lille", 0);
+
+    expect(stations.find((s) => s.id === "36")).toMatchObject({
+      bikes: 0,
+      docks: 38,
+    });
+  });
+
+  it("serves the last snapshot as stale during an outage", async () => {
+    const { fetchSnapshot } = await loadGbfs();
+    const fresh = await fetchSnapshot("lille");
+    mock.setScenario("outage");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 5 * 60_000);
+    const snapshot = await fetchSnapshot("lille");
+
+    expect(snapshot.stale).toBe(true);
+    expect(snapshot.stations).toBe(fresh.stations);
+    expect(snapshot.lastUpdated).toBe(fresh.lastUpdated);
+  });
+
+  it("fails when the upstream is down and nothing is cached", async () => {
+    const { fetchStations } = await loadGbfs();
+    mock.setScenario("outage");
+
+    await expect(fetchStations("lille")).rejects.toThrow(/503/);
+  });
+
+  it("rejects malformed JSON with a feed error", async () => {
+    const { fetchStations } = await loadGbfs();
+    mock.setScenario("malformed");
+
+    await expect(fetchStations("lille")).rejects.toThrow(
+      "station_status: invalid JSON"
+    );
+  });
+});
+
+describe("feed validation", () => {
+  let dir: string;
+  let gbfs3: MockGbfs;
+
+  const feed = (data: unknown) => ({
+    last_updated: "2025-10-18T08:00:00Z",
+    ttl: 60,
+    version: "3.0",
+    data,
+  });
+
+  beforeAll(async () => {
+    // système GBFS 3.0 volontairement abîmé
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "gbfs-"));
+    const systemDir = path.join(dir, "broken");
+    fs.mkdirSync(systemDir);
+    const write = (name: string, body: unknown) =>
+      fs.writeFileSync(
+        path.join(systemDir, `${name}.json`),
+        JSON.stringify(body)
+      );
+
+    write(
+      "gbfs",
+      feed({
+        feeds: [
+          { name: "station_information", url: "" },
+          { name: "station_status", url: "" },
+        ],
+      })
+    );
+    write(
+      "station_information",
+      feed({
+        stations: [
+          {
+            station_id: "a",
+            name: [
+              { text: "Central", language: "en" },
+              { text: "Centre", language: "fr" },
+            ],
+            lat: 50.6,
+            lon: 3.1,
+          },
+          {
+            station_id: "b",
+            name: [{ text: "Nord", language: "fr" }],
+            lat: 91,
+            lon: 3,
+          },
+          {
+            station_id: "c",
+            name: [{ text: "Sud", language: "fr" }],
+            lat: 50.5,
+            lon: 3,
+          },
+          {
+            station_id: "y",
+            name: [{ text: "Est", language: "fr" }],
+            lat: 50.6,
+            lon: 3.2,
+          },
+        ],
+      })
+    );
+    write(
+      "station_status",
+      feed({
+        stations: [
+          {
+            station_id: "a",
+            num_vehicles_available: 4,
+            num_docks_available: 6,
+          },
+          {
+            station_id: "a",
+            num_vehicles_available: 4,
+            num_docks_available: 6,
+          },
+          {
+            station_id: "b",
+            num_vehicles_available: 1,
+            num_docks_available: 1,
+          },
+          {
+            station_id: "z",
+            num_vehicles_available: 2,
+            num_docks_available: 3,
+          },
+          {
+            station_id: "y",
+            num_vehicles_available: -1,
+            num_docks_available: 3,
+          },
+        ],
+      })
+    );
+    gbfs3 = await startMockGbfs({ port: 0, dir });
+  });
+
+  afterAll(async () => {
+    await gbfs3.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps valid stations and reports the others", async () => {
+    const { fetchGbfsStations } = await import("../src/gbfs-client");
+    const { stations, report } = await fetchGbfsStations(
+      "broken",
+      `${gbfs3.baseUrl}/broken/gbfs.json`,
+      ["fr", "en"]
+    );
+
+    expect(stations).toEqual([
+      expect.objectContaining({ id: "a", name: "Centre", bikes: 4, docks: 6 }),
+    ]);
+    expect(report).toMatchObject({
+      version: "3.0",
+      stations: 1,
+      orphans: ["b", "z"],
+      withoutStatus: ["c"],
+    });
+    expect(report.dropped).toEqual([
+      { feed: "station_information", id: "b", reason: "invalid lat/lon" },
+      { feed: "station_status", id: "a", reason: "duplicate station_id" },
+      {
+        feed: "station_status",
+        id: "y",
+        reason: "invalid num_bikes_available",
+      },
+    ]);
+  });
+});
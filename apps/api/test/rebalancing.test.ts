@@ -0,0 +1,70 @@
+import os from "node:os";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Station } from "@vlille/contracts";
+
+type RebalancingModule = typeof import("../src/rebalancing");
+
+let rebalancingMoves: RebalancingModule["rebalancingMoves"];
+let stationImbalances: RebalancingModule["stationImbalances"];
+
+/** Station à `km` kilomètres au nord de la première */
+const station = (
+  id: string,
+  km: number,
+  bikes: number,
+  docks: number,
+  capacity?: number
+): Station => ({
+  id,
+  systemId: "lille",
+  name: `STATION ${id}`,
+  lat: 50.63 + km / 111,
+  lon: 3.06,
+  bikes,
+  docks,
+  capacity,
+  isInstalled: true,
+  isRenting: true,
+  isReturning: true,
+});
+
+const moves = (stations: Station[]) =>
+  rebalancingMoves(stations, stationImbalances(stations)).map(
+    ({ from, to, bikes }) => [from.id, to.id, bikes]
+  );
+
+beforeAll(async () => {
+  // historique en mémoire seulement
+  vi.stubEnv("HISTORY_FILE", os.devNull);
+  vi.resetModules();
+  ({ rebalancingMoves, stationImbalances } =
+    await import("../src/rebalancing"));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("rebalancingMoves", () => {
+  it("sizes stations with their capacity, out-of-service docks included", () => {
+    // 20 bornes hors service : la cible de "b" est 15 vélos, pas 5
+    expect(moves([station("a", 0, 40, 0), station("b", 1, 0, 10, 30)])).toEqual(
+      [["a", "b", 15]]
+    );
+  });
+
+  it("moves bikes out of full stations towards stations with room", () => {
+    // aucune station vide : "a" cède son surplus, la plus proche d'abord
+    expect(
+      moves([
+        station("a", 0, 20, 0),
+        station("b", 2, 4, 16),
+        station("c", 1, 5, 15),
+        station("d", 5, 0, 20),
+      ])
+    ).toEqual([
+      ["a", "c", 5],
+      ["a", "b", 5],
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { Station } from "@vlille/contracts";
+import { normalize, searchStations } from "../src/search";
+
+const station = (id: string, name: string, address?: string): Station => ({
+  id,
+  systemId: "lille",
+  name,
+  address,
+  lat: 50.63,
+  lon: 3.06,
+  bikes: 5,
+  docks: 5,
+  isInstalled: true,
+  isRenting: true,
+  isReturning: true,
+});
+
+const STATIONS = [
+  station("36", "LILLE FLANDRES", "Place des Buisses"),
+  station("27", "RÉPUBLIQUE BEAUX-ARTS", "Place de la République"),
+  station("1", "GARE LILLE EUROPE", "Parvis de Rotterdam"),
+  station("44", "CATHÉDRALE", "Rue de la Monnaie"),
+  station("73", "GAMBETTA", "Rue Gambetta"),
+];
+
+const ids = (query: string, limit = 8) =>
+  searchStations(STATIONS, query, limit).map((s) => s.id);
+
+describe("searchStations", () => {
+  it("ignores accents, case and punctuation", () => {
+    expect(normalize("RÉPUBLIQUE-Beaux Arts")).toBe("republique beaux arts");
+    expect(ids("republique")).toEqual(["27"]);
+    expect(ids("Cathedrale")).toEqual(["44"]);
+  });
+
+  it("matches word prefixes and tolerates typos", () => {
+    expect(ids("rep beaux")).toEqual(["27"]);
+    expect(ids("gambeta")).toEqual(["73"]);
+    expect(ids("flnadres")).toEqual(["36"]);
+  });
+
+  it("falls back on the address, ranking names first", () => {
+    const [result] = searchStations(STATIONS, "rotterdam", 8);
+    expect(result).toMatchObject({ id: "1", matched: "address" });
+    expect(ids("lille")).toEqual(["1", "36"]);
+    expect(ids("lille", 1)).toEqual(["1"]);
+  });
+
+  it("returns nothing for blank or unmatched queries", () => {
+    expect(ids("  ")).toEqual([]);
+    expect(ids("roubaix")).toEqual([]);
+  });
+});
@@ -0,0 +1,481 @@
+import fs from "node:fs";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { Station } from "@vlille/contracts";
+import { startMockGbfs, type MockGbfs } from "../src/mock-gbfs";
+
+let mock: MockGbfs;
+let server: Server;
+let api: string;
+let tmp: string;
+
+beforeAll(async () => {
+  mock = await startMockGbfs({ port: 0 });
+  const url = `${mock.baseUrl}/lille/gbfs.json`;
+  vi.stubEnv("UPSTREAM_RETRIES", "0");
+  vi.stubEnv("ALERTS_FILE", "");
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), "api-"));
+  vi.stubEnv("HISTORY_FILE", path.join(tmp, "history.ndjson"));
+  // deux systèmes sur les mêmes fixtures : caches indépendants
+  vi.stubEnv(
+    "GBFS_SYSTEMS",
+    JSON.stringify([
+      { id: "lille", name: "V’Lille", url, timeZone: "Europe/Paris" },
+      { id: "other", name: "Autre", url },
+    ])
+  );
+
+  vi.resetModules();
+  const { app } = await import("../src/app");
+  server = app.listen(0);
+  api = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  server.close();
+  await mock.close();
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  mock.setScenario("normal");
+  vi.useRealTimers();
+});
+
+/**
+ * Repart d'un historique vide, puis `record` enregistre les relevés du bloc à
+ * partir des stations actuelles : aucun bloc ne dépend d'un autre.
+ */
+async function withHistory(
+  record: (
+    stations: Station[],
+    recordSnapshot: (stations: Station[], t: number) => void
+  ) => void
+) {
+  const { fetchStations } = await import("../src/gbfs");
+  const { clearHistory, recordSnapshot } = await import("../src/history");
+  clearHistory();
+  record(await fetchStations("lille"), (stations, t) =>
+    recordSnapshot("lille", stations, t)
+  );
+}
+
+// heure de pointe : à t0 + 10 min, LILLE FLANDRES passe de 12 à 0 vélo
+const t0 = Date.parse("2025-10-14T07:00:00Z");
+const recordRushHour = () =>
+  withHistory((stations, record) => {
+    record(stations, t0);
+    record(
+      stations.map((s) => (s.id === "36" ? { ...s, bikes: 0, docks: 38 } : s)),
+      t0 + 10 * 60_000
+    );
+  });
+
+describe("GET /stations", () => {
+  it("returns the default system's stations with freshness headers", async () => {
+    const res = await fetch(`${api}/stations`);
+    const stations = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(stations).toHaveLength(8);
+    expect(res.headers.get("X-Total-Count")).toBe("8");
+    expect(res.headers.get("X-Data-Stale")).toBe("false");
+    expect(res.headers.get("ETag")).toMatch(/^"[\w-]+"$/);
+    expect(res.headers.get("Last-Modified")).toBeTruthy();
+    expect(res.headers.get("Cache-Control")).toMatch(
+      /max-age=\d+, stale-while-revalidate=\d+/
+    );
+  });
+
+  it("applies filters and pagination", async () => {
+    const res = await fetch(`${api}/stations?min=10&sort=bikes&limit=1`);
+    const stations = await res.json();
+
+    expect(res.headers.get("X-Total-Count")).toBe("3");
+    expect(stations.map((s: { id: string }) => s.id)).toEqual(["1"]);
+  });
+
+  it("answers 304 to a matching If-None-Match", async () => {
+    const first = await fetch(`${api}/stations`);
+    const etag = first.headers.get("ETag")!;
+    const res = await fetch(`${api}/stations`, {
+      headers: { "If-None-Match": etag },
+    });
+
+    expect(res.status).toBe(304);
+    expect(await res.text()).toBe("");
+    expect(res.headers.get("ETag")).toBe(etag);
+  });
+
+  it("rejects invalid queries and unknown systems", async () => {
+    expect((await fetch(`${api}/stations?min=abc`)).status).toBe(400);
+    expect((await fetch(`${api}/stations?near=50.63,`)).status).toBe(400);
+    expect((await fetch(`${api}/stations?near=%20,3.07`)).status).toBe(400);
+    expect((await fetch(`${api}/systems/nope/stations`)).status).toBe(404);
+  });
+
+  it("flags stale data when the upstream goes down", async () => {
+    await fetch(`${api}/systems/lille/stations`);
+    mock.setScenario("outage");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 5 * 60_000);
+    const res = await fetch(`${api}/systems/lille/stations`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Data-Stale")).toBe("true");
+    expect(await res.json()).toHaveLength(8);
+  });
+
+  it("answers 500 when a malformed feed leaves nothing to serve", async () => {
+    mock.setScenario("malformed");
+    const res = await fetch(`${api}/systems/other/stations`);
+
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: "failed to fetch stations" });
+  });
+});
+
+describe("GET /stations/search", () => {
+  it("finds stations by name without accents", async () => {
+    const res = await fetch(`${api}/stations/search?q=republique`);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual([
+      expect.objectContaining({ id: "27", name: "RÉPUBLIQUE BEAUX-ARTS" }),
+    ]);
+    expect((await fetch(`${api}/stations/search?q=`)).status).toBe(400);
+  });
+});
+
+describe("GET /stations/:id", () => {
+  it("returns one station, or 404 when it does not exist", async () => {
+    const res = await fetch(`${api}/systems/lille/stations/36`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("ETag")).toBeTruthy();
+    expect(await res.json()).toMatchObject({
+      id: "36",
+      name: "LILLE FLANDRES",
+    });
+    expect((await fetch(`${api}/stations/nope`)).status).toBe(404);
+  });
+});
+
+describe("GET /stations/replay", () => {
+  beforeAll(recordRushHour);
+
+  const replay = async (at: number) =>
+    (await fetch(`${api}/stations/replay?at=${at}`)).json();
+
+  it("serves the recorded snapshot closest to the requested time", async () => {
+    const before = await replay(t0 + 3 * 60_000);
+    const after = await replay(t0 + 8 * 60_000);
+
+    expect(before).toMatchObject({
+      at: t0,
+      requested: t0 + 3 * 60_000,
+      from: t0,
+      to: t0 + 10 * 60_000,
+    });
+    expect(before.stations).toHaveLength(8);
+    expect(
+      before.stations.find((s: { id: string }) => s.id === "36")
+    ).toMatchObject({ name: "LILLE FLANDRES", bikes: 12, docks: 26 });
+    expect(after.at).toBe(t0 + 10 * 60_000);
+    expect(
+      after.stations.find((s: { id: string }) => s.id === "36")
+    ).toMatchObject({ bikes: 0, docks: 38, lastReported: t0 + 10 * 60_000 });
+  });
+
+  it("rejects invalid times and systems without history", async () => {
+    expect((await fetch(`${api}/stations/replay?at=soon`)).status).toBe(400);
+    expect((await fetch(`${api}/systems/other/stations/replay`)).status).toBe(
+      404
+    );
+  });
+});
+
+describe("GET /stations/pressure", () => {
+  beforeAll(() =>
+    withHistory((stations, record) => {
+      // 40 min plus tôt, LILLE FLANDRES avait 8 vélos de plus
+      record(
+        stations.map((s) =>
+          s.id === "36" ? { ...s, bikes: 20, docks: 18 } : s
+        ),
+        Date.now() - 40 * 60_000
+      );
+    })
+  );
+
+  it("lists stations trending empty with the time left", async () => {
+    const res = await fetch(`${api}/stations/pressure`);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      window: 30 * 60_000,
+      stations: [
+        {
+          id: "36",
+          systemId: "lille",
+          trend: "emptying",
+          delta: -8,
+          perHour: -16,
+          etaMin: 45,
+        },
+      ],
+    });
+  });
+
+  it("leaves out slow trends and rejects invalid windows", async () => {
+    // sur 2 h, les variations sont trop lentes pour être signalées
+    const slow = await fetch(`${api}/stations/pressure?window=2h`);
+    expect((await slow.json()).stations).toEqual([]);
+    expect((await fetch(`${api}/stations/pressure?window=4h`)).status).toBe(
+      400
+    );
+  });
+});
+
+describe("GET /rebalancing", () => {
+  beforeAll(() =>
+    withHistory((stations, record) => {
+      // état actuel relevé avant la fenêtre : CATHÉDRALE pleine depuis 2 jours
+      record(stations, Date.now() - 48 * 60 * 60_000);
+      // RÉPUBLIQUE BEAUX-ARTS avait encore des vélos il y a 20 min
+      record(
+        stations.map((s) =>
+          s.id === "27" ? { ...s, bikes: 5, docks: 29 } : s
+        ),
+        Date.now() - 20 * 60_000
+      );
+      record(stations, Date.now() - 10 * 60_000);
+    })
+  );
+
+  it("lists imbalanced stations with how long they have been so", async () => {
+    const now = Date.now();
+    const res = await fetch(`${api}/rebalancing`);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Data-Stale")).toBe("false");
+    expect(
+      body.stations.map((s: { id: string; level: string }) => [s.id, s.level])
+    ).toEqual([
+      ["44", "full"],
+      ["27", "empty"],
+      ["112", "nearly-empty"],
+    ]);
+    // CATHÉDRALE pleine depuis toute la fenêtre, RÉPUBLIQUE vide depuis 10 min
+    expect(body.stations[0].since).toBeLessThanOrEqual(now - 23 * 60 * 60_000);
+    expect(now - body.stations[1].since).toBeGreaterThanOrEqual(10 * 60_000);
+    expect(now - body.stations[1].since).toBeLessThan(11 * 60_000);
+  });
+
+  it("suggests moving surplus bikes to the nearest empty stations", async () => {
+    const body = await (await fetch(`${api}/rebalancing`)).json();
+
+    // CATHÉDRALE cède ce qui dépasse la moitié de sa capacité
+    expect(body.moves).toEqual([
+      {
+        from: { id: "44", name: "CATHÉDRALE" },
+        to: { id: "27", name: "RÉPUBLIQUE BEAUX-ARTS" },
+        bikes: 8,
+        distance: expect.any(Number),
+      },
+    ]);
+    expect(body.moves[0].distance).toBeGreaterThan(1_000);
+    expect(body.moves[0].distance).toBeLessThan(1_200);
+  });
+});
+
+describe("GET /analytics", () => {
+  beforeAll(recordRushHour);
+
+  it("summarizes the whole network regardless of client filters", async () => {
+    const res = await fetch(`${api}/analytics/summary`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Data-Updated-At")).toBeTruthy();
+    expect(await res.json()).toMatchObject({
+      stations: 8,
+      active: 8,
+      bikes: 70,
+      docks: 136,
+      occupancy: 0.34,
+      empty: 1,
+      full: 1,
+      avgBikes: 8.8,
+    });
+  });
+
+  it("summarizes a recorded snapshot for the replay", async () => {
+    const summary = await (
+      await fetch(`${api}/analytics/summary?at=${t0 + 11 * 60_000}`)
+    ).json();
+
+    expect(summary).toMatchObject({
+      at: t0 + 10 * 60_000,
+      bikes: 58,
+      empty: 2,
+    });
+    expect(
+      (await fetch(`${api}/systems/other/analytics/summary?at=${t0}`)).status
+    ).toBe(404);
+  });
+
+  it("builds the network time series", async () => {
+    const qs = `from=${t0}&to=${t0 + 20 * 60_000}&step=10m`;
+    const body = await (
+      await fetch(`${api}/analytics/timeseries?${qs}`)
+    ).json();
+
+    expect(body.points).toEqual([
+      { t: t0, bikes: 70, docks: 136, occupancy: 0.34, empty: 1, full: 1 },
+      {
+        t: t0 + 10 * 60_000,
+        bikes: 58,
+        docks: 148,
+        occupancy: 0.282,
+        empty: 2,
+        full: 1,
+      },
+      {
+        t: t0 + 20 * 60_000,
+        bikes: 58,
+        docks: 148,
+        occupancy: 0.282,
+        empty: 2,
+        full: 1,
+      },
+    ]);
+    expect(
+      (await fetch(`${api}/analytics/timeseries?step=1s&from=0`)).status
+    ).toBe(400);
+  });
+
+  it("estimates turnover by local hour and busiest stations", async () => {
+    const qs = `from=${t0}&to=${t0 + 60 * 60_000}`;
+    const body = await (await fetch(`${api}/analytics/activity?${qs}`)).json();
+
+    expect(body.turnover).toBe(12);
+    // 07:10 UTC = 09:10 à Lille
+    expect(body.byHour[9]).toBe(12);
+    expect(body.stations).toEqual([
+      { id: "36", name: "LILLE FLANDRES", turnover: 12 },
+    ]);
+    expect((await fetch(`${api}/analytics/activity?limit=0`)).status).toBe(400);
+  });
+});
+
+describe("GET /export", () => {
+  beforeAll(recordRushHour);
+
+  it("exports the current stations as GeoJSON", async () => {
+    const res = await fetch(`${api}/export/stations.geojson?min=10`);
+    const body = await res.json();
+
+    expect(res.headers.get("Content-Type")).toMatch(/^application\/geo\+json/);
+    expect(res.headers.get("Content-Disposition")).toMatch(
+      /attachment; filename="lille-stations.geojson"/
+    );
+    expect(body.type).toBe("FeatureCollection");
+    expect(body.features).toHaveLength(3);
+    expect(body.features[0]).toMatchObject({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [3.07005, 50.63659] },
+      properties: { id: "36", name: "LILLE FLANDRES", bikes: 12 },
+    });
+  });
+
+  it("exports the current stations as CSV", async () => {
+    const res = await fetch(`${api}/export/stations.csv`);
+    const lines = (await res.text()).split("\r\n");
+
+    expect(res.headers.get("Content-Type")).toMatch(/^text\/csv/);
+    expect(lines).toHaveLength(9);
+    expect(lines[0]).toMatch(/^id,name,lat,lon,/);
+    expect(lines[1]).toMatch(/^36,LILLE FLANDRES,/);
+    expect((await fetch(`${api}/export/stations.xlsx`)).status).toBe(404);
+  });
+
+  it("exports the recorded history for a range", async () => {
+    const qs = `from=${t0}&to=${t0 + 10 * 60_000}`;
+    const csv = (
+      await (await fetch(`${api}/export/history.csv?${qs}`)).text()
+    ).split("\r\n");
+    const ndjson = await (
+      await fetch(`${api}/export/history.ndjson?${qs}`)
+    ).text();
+    const records = ndjson
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l));
+
+    // valeur de chaque station à `from`, puis le changement de 07:10
+    expect(csv[0]).toBe("time,station_id,name,bikes,docks");
+    expect(csv).toHaveLength(10);
+    expect(csv[9]).toBe("2025-10-14T07:10:00.000Z,36,LILLE FLANDRES,0,38");
+    expect(records).toHaveLength(9);
+    expect(records[8]).toEqual({
+      t: t0 + 10 * 60_000,
+      id: "36",
+      bikes: 0,
+      docks: 38,
+    });
+    expect((await fetch(`${api}/export/history.csv?from=x`)).status).toBe(400);
+    expect(
+      (await fetch(`${api}/systems/other/export/history.csv`)).status
+    ).toBe(404);
+  });
+});
+
+describe("GET /gbfs", () => {
+  it("publishes a discovery file pointing at the system's feeds", async () => {
+    const body = await (
+      await fetch(`${api}/systems/other/gbfs/gbfs.json`)
+    ).json();
+
+    expect(body.version).toBe("2.3");
+    expect(body.data.fr.feeds).toContainEqual({
+      name: "station_status",
+      url: `${api}/systems/other/gbfs/station_status.json`,
+    });
+  });
+
+  it("republishes the merged stations", async () => {
+    const info = await (
+      await fetch(`${api}/gbfs/system_information.json`)
+    ).json();
+    const status = await (
+      await fetch(`${api}/gbfs/station_status.json`)
+    ).json();
+
+    expect(info.data).toMatchObject({
+      system_id: "lille",
+      name: "V’Lille",
+      timezone: "Europe/Paris",
+    });
+    expect(status.data.stations).toHaveLength(8);
+    expect(status.data.stations[0]).toMatchObject({
+      station_id: "36",
+      num_bikes_available: 12,
+      num_docks_available: 26,
+      is_renting: true,
+    });
+    expect((await fetch(`${api}/gbfs/free_bike_status.json`)).status).toBe(404);
+  });
+});
@@ -1,24 +1,47 @@
 import Script from "next/script";
 import { cookies } from "next/headers";
+import { notFound } from "next/navigation";
 
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import "leaflet/dist/leaflet.css";
 import "leaflet.markercluster/dist/MarkerCluster.css";
 import "leaflet.markercluster/dist/MarkerCluster.Default.css";
 import "leaflet-defaulticon-compatibility/dist/leaflet-defaulticon-compatibility.css";
-import "./globals.css";
+import "../globals.css";
+import { LOCALES, isLocale } from "@/i18n";
+import ServiceWorker from "@/components/ServiceWorker";
 
 
 
 export const metadata: Metadata = {
   title: "V’Lille Maps",
+  // base des URLs absolues (Open Graph) : l'adresse publique du site
+  metadataBase: process.env.NEXT_PUBLIC_SITE_URL
+    ? new URL(process.env.NEXT_PUBLIC_SITE_URL)
+    : undefined,
+  // icône de l'app installée sur iOS (le manifeste couvre les autres)
+  icons: { apple: "/icons/icon-192.png" },
 };
 
+export const viewport: Viewport = {
+  themeColor: "#0284c7",
+};
+
+// une version de chaque page par langue (/fr, /en, /nl)
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
 export default async function RootLayout({
   children,
+  params,
 }: {
   children: React.ReactNode;
+  params: Promise<{ locale: string }>;
 }) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
   // ⬇️ cookies() est async dans ta version
   const cookieStore = await cookies();
   const themeCookie =
@@ -26,7 +49,7 @@ export default async function RootLayout({
     undefined;
 
   return (
-    <html lang="fr" data-theme={themeCookie} suppressHydrationWarning>
+    <html lang={locale} data-theme={themeCookie} suppressHydrationWarning>
       <head>
         {/* Si pas de cookie (1ère visite), on décide avant hydratation */}
         <Script id="theme-init" strategy="beforeInteractive">
@@ -43,7 +66,10 @@ export default async function RootLayout({
           `}
         </Script>
       </head>
-      <body>{children}</body>
+      <body>
+        {children}
+        <ServiceWorker />
+      </body>
     </html>
   );
 }
\ No newline at end of file
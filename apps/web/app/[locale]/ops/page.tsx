@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import OpsDashboard from "@/components/OpsDashboard";
+import { LOCALES, getMessages, isLocale } from "@/i18n";
+
+type Props = { params: Promise<{ locale: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+  const { meta, ops } = getMessages(locale);
+  return {
+    title: `${ops.title} — ${meta.site}`,
+    description: ops.intro,
+    alternates: {
+      canonical: `/${locale}/ops`,
+      languages: Object.fromEntries(LOCALES.map((l) => [l, `/${l}/ops`])),
+    },
+    // outil interne des équipes terrain : rien à indexer
+    robots: { index: false },
+  };
+}
+
+export default async function Page({ params }: Props) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+  return <OpsDashboard lang={locale} />;
+}
@@ -0,0 +1,34 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import HomePage from "@/components/HomePage";
+import { LOCALES, OG_LOCALES, getMessages, isLocale } from "@/i18n";
+
+type Props = { params: Promise<{ locale: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+  const { meta } = getMessages(locale);
+  return {
+    title: meta.site,
+    description: meta.description,
+    alternates: {
+      canonical: `/${locale}`,
+      languages: Object.fromEntries(LOCALES.map((l) => [l, `/${l}`])),
+    },
+    openGraph: {
+      type: "website",
+      siteName: meta.site,
+      title: meta.site,
+      description: meta.description,
+      url: `/${locale}`,
+      locale: OG_LOCALES[locale],
+    },
+  };
+}
+
+export default async function Page({ params }: Props) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+  return <HomePage lang={locale} />;
+}
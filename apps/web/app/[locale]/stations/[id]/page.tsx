@@ -0,0 +1,32 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import StationDetails, {
+  loadStationDetails,
+  stationMetadata,
+} from "@/components/StationDetails";
+import { isLocale } from "@/i18n";
+
+// Page partageable d'une station : ?system=... pour un autre réseau que celui par défaut
+type Props = {
+  params: Promise<{ locale: string; id: string }>;
+  searchParams: Promise<{ system?: string | string[] }>;
+};
+
+async function load({ params, searchParams }: Props) {
+  const { locale, id } = await params;
+  const { system } = await searchParams;
+  const systemId = typeof system === "string" ? system : undefined;
+  if (!isLocale(locale)) return { locale: null, systemId, data: null };
+  return { locale, systemId, data: await loadStationDetails(id, systemId) };
+}
+
+export async function generateMetadata(props: Props): Promise<Metadata> {
+  const { locale, systemId, data } = await load(props);
+  return locale ? stationMetadata(locale, data, systemId) : {};
+}
+
+export default async function Page(props: Props) {
+  const { locale, systemId, data } = await load(props);
+  if (!locale || !data) notFound();
+  return <StationDetails lang={locale} data={data} system={systemId} />;
+}
@@ -0,0 +1,26 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import StatsDashboard from "@/components/StatsDashboard";
+import { LOCALES, getMessages, isLocale } from "@/i18n";
+
+type Props = { params: Promise<{ locale: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+  const { meta, stats } = getMessages(locale);
+  return {
+    title: `${stats.title} — ${meta.site}`,
+    description: stats.intro,
+    alternates: {
+      canonical: `/${locale}/stats`,
+      languages: Object.fromEntries(LOCALES.map((l) => [l, `/${l}/stats`])),
+    },
+  };
+}
+
+export default async function Page({ params }: Props) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+  return <StatsDashboard lang={locale} />;
+}
@@ -0,0 +1,18 @@
+import { apiBase, badRequest } from "@/lib/proxy";
+
+const ID = /^[0-9a-f-]{36}$/;
+
+export async function DELETE(
+    _request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    if (!ID.test(id)) return badRequest("invalid id");
+
+    const res = await fetch(`${apiBase()}/alerts/${id}`, { method: "DELETE" });
+    if (res.status === 204) return new Response(null, { status: 204 });
+    if (res.status === 404) {
+        return Response.json(await res.json(), { status: 404 });
+    }
+    return new Response("Upstream error", { status: 502 });
+}
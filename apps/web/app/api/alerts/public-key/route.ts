@@ -0,0 +1,14 @@
+import { apiBase } from "@/lib/proxy";
+
+export async function GET() {
+    const res = await fetch(`${apiBase()}/alerts/public-key`, {
+        cache: "no-store",
+    });
+    if (res.status === 503) {
+        return Response.json(await res.json(), { status: 503 });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data);
+}
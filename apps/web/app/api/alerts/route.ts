@@ -0,0 +1,19 @@
+import { apiBase, badRequest } from "@/lib/proxy";
+
+export async function GET(request: Request) {
+    // ?endpoint=... : alertes en attente d'un abonnement push
+    const endpoint = new URL(request.url).searchParams.get("endpoint");
+    if (!endpoint?.startsWith("https://")) return badRequest("invalid endpoint");
+
+    const res = await fetch(
+        `${apiBase()}/alerts?${new URLSearchParams({ endpoint })}`,
+        { cache: "no-store" }
+    );
+    if (res.status === 400) {
+        return Response.json(await res.json(), { status: 400 });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data);
+}
@@ -0,0 +1,16 @@
+import { TIME, parseQuery, queryString } from "@/lib/proxy";
+
+export async function GET(request: Request) {
+    // ?at=... (rejeu) + ?system=...
+    const query = parseQuery(request, { at: TIME });
+    if (query instanceof Response) return query;
+    const { base, forwarded } = query;
+
+    const res = await fetch(`${base}/analytics/summary${queryString(forwarded)}`, { cache: "no-store" });
+    if (res.status === 400 || res.status === 404) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    return Response.json(await res.json());
+}
@@ -0,0 +1,22 @@
+import { DURATION, TIME, parseQuery, queryString } from "@/lib/proxy";
+
+const PARAMS: Record<string, RegExp> = {
+    from: TIME,
+    to: TIME,
+    step: DURATION,
+};
+
+export async function GET(request: Request) {
+    // ?from=...&to=...&step=... (+ ?system=...)
+    const query = parseQuery(request, PARAMS);
+    if (query instanceof Response) return query;
+    const { base, forwarded } = query;
+
+    const res = await fetch(`${base}/analytics/timeseries${queryString(forwarded)}`, { cache: "no-store" });
+    if (res.status === 400 || res.status === 404) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    return Response.json(await res.json());
+}
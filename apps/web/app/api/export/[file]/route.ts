@@ -0,0 +1,43 @@
+import { TIME, parseQuery, queryString } from "@/lib/proxy";
+
+const FILES = ["stations.geojson", "stations.csv", "history.csv", "history.ndjson"];
+
+const PARAMS: Record<string, RegExp> = {
+    from: TIME,
+    to: TIME,
+};
+
+// type, nom du fichier proposé et fraîcheur des données
+const FORWARDED_HEADERS = [
+    "Content-Type",
+    "Content-Disposition",
+    "X-Data-Updated-At",
+    "X-Data-Age",
+    "X-Data-Stale",
+];
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ file: string }> }
+) {
+    // ?from=...&to=... pour l'historique (+ ?system=...)
+    const { file } = await params;
+    if (!FILES.includes(file)) return Response.json({ error: "unknown file" }, { status: 404 });
+
+    const query = parseQuery(request, PARAMS);
+    if (query instanceof Response) return query;
+    const { base, forwarded } = query;
+
+    const res = await fetch(`${base}/export/${file}${queryString(forwarded)}`, { cache: "no-store" });
+    if (res.status === 400 || res.status === 404) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const headers = new Headers();
+    for (const name of FORWARDED_HEADERS) {
+        const value = res.headers.get(name);
+        if (value) headers.set(name, value);
+    }
+    return new Response(res.body, { headers });
+}
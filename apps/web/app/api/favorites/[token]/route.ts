@@ -0,0 +1,30 @@
+import { apiBase, badRequest } from "@/lib/proxy";
+
+const TOKEN = /^[A-Za-z0-9_-]{16,64}$/;
+
+type Context = { params: Promise<{ token: string }> };
+
+/** Relaie GET / PUT / DELETE /favorites/:token vers l'API */
+async function forward(request: Request, { params }: Context) {
+    const { token } = await params;
+    if (!TOKEN.test(token)) return badRequest("invalid token");
+
+    const res = await fetch(`${apiBase()}/favorites/${token}`, {
+        method: request.method,
+        headers: { "Content-Type": "application/json" },
+        body: request.method === "PUT" ? await request.text() : undefined,
+        cache: "no-store",
+    });
+    if (res.status === 204) return new Response(null, { status: 204 });
+    if (res.status === 400 || res.status === 503) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data);
+}
+
+export const GET = forward;
+export const PUT = forward;
+export const DELETE = forward;
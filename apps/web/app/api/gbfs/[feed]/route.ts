@@ -0,0 +1,38 @@
+import { parseQuery } from "@/lib/proxy";
+
+const FEEDS = ["gbfs", "system_information", "station_information", "station_status"];
+
+type Discovery = {
+    data: Record<string, { feeds: Array<{ name: string; url: string }> }>;
+};
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ feed: string }> }
+) {
+    // flux GBFS republié par l'API : /api/gbfs/<feed>.json (+ ?system=...)
+    const { feed: file } = await params;
+    const feed = file.replace(/\.json$/, "");
+    if (!file.endsWith(".json") || !FEEDS.includes(feed)) {
+        return Response.json({ error: "unknown feed" }, { status: 404 });
+    }
+
+    const query = parseQuery(request);
+    if (query instanceof Response) return query;
+    const { system, base } = query;
+
+    const res = await fetch(`${base}/gbfs/${feed}.json`, { cache: "no-store" });
+    if (res.status === 404) return Response.json(await res.json(), { status: 404 });
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    if (feed === "gbfs") {
+        // les feeds annoncés par l'API pointent vers elle : on les sert ici
+        const { origin } = new URL(request.url);
+        const qs = system ? `?system=${system}` : "";
+        for (const { feeds } of Object.values((data as Discovery).data)) {
+            for (const f of feeds) f.url = `${origin}/api/gbfs/${f.name}.json${qs}`;
+        }
+    }
+    return Response.json(data);
+}
@@ -0,0 +1,20 @@
+import { LAT_LON, apiBase, badRequest } from "@/lib/proxy";
+
+export async function GET(request: Request) {
+    // ?q=adresse (+ ?near=lat,lon pour favoriser la zone affichée)
+    const url = new URL(request.url);
+    const q = (url.searchParams.get("q") ?? "").trim();
+    const near = url.searchParams.get("near");
+
+    if (q.length < 3 || q.length > 200) return badRequest("invalid q");
+    if (near && !LAT_LON.test(near)) return badRequest("invalid near");
+
+    const params = new URLSearchParams({ q });
+    if (near) params.set("near", near);
+
+    const res = await fetch(`${apiBase()}/geocode?${params}`);
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data);
+}
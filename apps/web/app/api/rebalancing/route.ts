@@ -0,0 +1,13 @@
+import { parseQuery } from "@/lib/proxy";
+
+export async function GET(request: Request) {
+    // seul paramètre : ?system=...
+    const query = parseQuery(request);
+    if (query instanceof Response) return query;
+
+    const res = await fetch(`${query.base}/rebalancing`, { cache: "no-store" });
+    if (res.status === 404) return Response.json(await res.json(), { status: 404 });
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    return Response.json(await res.json());
+}
@@ -0,0 +1,24 @@
+import { parseQuery } from "@/lib/proxy";
+
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    // corps JSON relayé tel quel (validé par l'API), système via ?system=...
+    const { id } = await params;
+    const query = parseQuery(request);
+    if (query instanceof Response) return query;
+
+    const res = await fetch(`${query.base}/stations/${encodeURIComponent(id)}/alerts`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await request.text(),
+    });
+    if ([400, 404, 429].includes(res.status)) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data, { status: 201 });
+}
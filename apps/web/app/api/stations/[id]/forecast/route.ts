@@ -0,0 +1,22 @@
+import { TIME, parseQuery, queryString } from "@/lib/proxy";
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    // on forward la query ?at=... et le système (?system=...)
+    const { id } = await params;
+    const query = parseQuery(request, { at: TIME });
+    if (query instanceof Response) return query;
+    const { base, forwarded } = query;
+    const upstream = `${base}/stations/${encodeURIComponent(id)}/forecast${queryString(forwarded)}`;
+
+    const res = await fetch(upstream, { cache: "no-store" });
+    if (res.status === 400 || res.status === 404) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data);
+}
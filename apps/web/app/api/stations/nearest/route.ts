@@ -0,0 +1,24 @@
+import { LAT_LON, parseQuery } from "@/lib/proxy";
+
+const PARAMS: Record<string, RegExp> = {
+    near: LAT_LON,
+    mode: /^(?:bike|dock)$/,
+    count: /^\d+$/,
+    min: /^\d+$/,
+};
+
+export async function GET(request: Request) {
+    // ?near=lat,lon&mode=bike|dock&count=...&min=... (+ ?system=...)
+    const query = parseQuery(request, PARAMS);
+    if (query instanceof Response) return query;
+    const { base, forwarded } = query;
+
+    const res = await fetch(`${base}/stations/nearest?${forwarded}`, { cache: "no-store" });
+    if (res.status === 400 || res.status === 404) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data);
+}
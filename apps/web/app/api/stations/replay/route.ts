@@ -0,0 +1,17 @@
+import { TIME, parseQuery } from "@/lib/proxy";
+
+export async function GET(request: Request) {
+    // ?at=... (+ ?system=...)
+    const query = parseQuery(request, { at: TIME });
+    if (query instanceof Response) return query;
+    const { base, forwarded } = query;
+
+    const res = await fetch(`${base}/stations/replay?${forwarded}`, { cache: "no-store" });
+    if (res.status === 400 || res.status === 404) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data);
+}
@@ -1,14 +1,62 @@
-const API_URL = process.env.NEXT_PUBLIC_API_URL;
+import { LAT_LON, parseQuery, queryString } from "@/lib/proxy";
+
+const NUMBER = "-?\\d+(?:\\.\\d+)?";
+
+// Paramètres acceptés par GET /stations côté API, avec leur format attendu
+const PARAMS: Record<string, RegExp> = {
+    min: /^\d+$/,
+    minDocks: /^\d+$/,
+    bbox: new RegExp(`^${NUMBER}(?:,${NUMBER}){3}$`),
+    near: LAT_LON,
+    radius: /^\d+$/,
+    q: /^.{1,100}$/,
+    status: /^(?:open|closed)$/,
+    sort: /^(?:distance|bikes|docks|name)$/,
+    order: /^(?:asc|desc)$/,
+    limit: /^\d+$/,
+    offset: /^\d+$/,
+};
+
+const FORWARDED_HEADERS = [
+    "ETag",
+    "Last-Modified",
+    "Cache-Control",
+    "X-Total-Count",
+    "X-Data-Updated-At",
+    "X-Data-Age",
+    "X-Data-Stale",
+];
 
 export async function GET(request: Request) {
-    // on forward aussi la query ?min=...
-    const url = new URL(request.url);
-    const min = url.searchParams.get("min");
-    const upstream = `${API_URL}/stations${min ? `?min=${min}` : ""}`;
+    // on forward tous les filtres connus (validés) et le système (?system=...)
+    const query = parseQuery(request, PARAMS);
+    if (query instanceof Response) return query;
+    const { base, forwarded } = query;
+    const upstream = `${base}/stations${queryString(forwarded)}`;
+
+    // requête conditionnelle relayée telle quelle : l'API répond 304 si le
+    // client a déjà cette version (pas de corps à retransmettre)
+    const conditional = new Headers();
+    for (const name of ["If-None-Match", "If-Modified-Since"]) {
+        const value = request.headers.get(name);
+        if (value) conditional.set(name, value);
+    }
+
+    const res = await fetch(upstream, { cache: "no-store", headers: conditional });
+    if (res.status === 400 || res.status === 404) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok && res.status !== 304) return new Response("Upstream error", { status: 502 });
 
-    const res = await fetch(upstream, { cache: "no-store" });
-    if (!res.ok) return new Response("Upstream error", { status: 502 });
+    // validateurs HTTP, total avant pagination + fraîcheur des données (date GBFS, âge, secours)
+    const headers = new Headers();
+    for (const name of FORWARDED_HEADERS) {
+        const value = res.headers.get(name);
+        if (value) headers.set(name, value);
+    }
+    if (res.status === 304) return new Response(null, { status: 304, headers });
 
-    const data = await res.json();
-    return Response.json(data);
-}
\ No newline at end of file
+    // corps relayé à l'identique : l'ETag (hash du corps) reste valable
+    headers.set("Content-Type", "application/json");
+    return new Response(await res.text(), { headers });
+}
@@ -0,0 +1,23 @@
+import { parseQuery } from "@/lib/proxy";
+
+const PARAMS: Record<string, RegExp> = {
+    // au moins un caractère non blanc, 100 au plus
+    q: /^(?=.*\S).{1,100}$/,
+    limit: /^\d+$/,
+};
+
+export async function GET(request: Request) {
+    // ?q=...&limit=... (+ ?system=...)
+    const query = parseQuery(request, PARAMS);
+    if (query instanceof Response) return query;
+    const { base, forwarded } = query;
+
+    const res = await fetch(`${base}/stations/search?${forwarded}`, { cache: "no-store" });
+    if (res.status === 400 || res.status === 404) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data);
+}
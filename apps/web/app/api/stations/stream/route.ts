@@ -0,0 +1,25 @@
+import { parseQuery, queryString } from "@/lib/proxy";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+    // flux SSE relayé tel quel (on forward aussi ?min=... et ?system=...)
+    const query = parseQuery(request, { min: /^\d+$/ });
+    if (query instanceof Response) return query;
+    const { base, forwarded } = query;
+    const upstream = `${base}/stations/stream${queryString(forwarded)}`;
+
+    const res = await fetch(upstream, {
+        cache: "no-store",
+        signal: request.signal,
+    });
+    if (!res.ok || !res.body) return new Response("Upstream error", { status: 502 });
+
+    return new Response(res.body, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
@@ -0,0 +1,9 @@
+import { apiBase } from "@/lib/proxy";
+
+export async function GET() {
+    const res = await fetch(`${apiBase()}/systems`, { cache: "no-store" });
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data);
+}
@@ -0,0 +1,22 @@
+import { LAT_LON, badRequest, parseQuery } from "@/lib/proxy";
+
+export async function GET(request: Request) {
+    // ?from=lat,lon&to=lat,lon (+ ?system=...)
+    const query = parseQuery(request, { from: LAT_LON, to: LAT_LON });
+    if (query instanceof Response) return query;
+    const { base, forwarded } = query;
+    for (const key of ["from", "to"]) {
+        if (!forwarded.has(key)) return badRequest(`invalid ${key}`);
+    }
+
+    const res = await fetch(`${base}/trips/plan?${forwarded}`, {
+        cache: "no-store",
+    });
+    if (res.status === 400 || res.status === 404) {
+        return Response.json(await res.json(), { status: res.status });
+    }
+    if (!res.ok) return new Response("Upstream error", { status: 502 });
+
+    const data = await res.json();
+    return Response.json(data);
+}
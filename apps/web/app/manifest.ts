@@ -0,0 +1,30 @@
+import type { MetadataRoute } from "next";
+import { DEFAULT_LOCALE, getMessages } from "@/i18n";
+
+/**
+ * Manifeste de l'app installable. `start_url` reste `/` : le proxy redirige
+ * ensuite vers la langue du visiteur (cookie ou Accept-Language).
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  const { meta } = getMessages(DEFAULT_LOCALE);
+  return {
+    name: meta.site,
+    short_name: "V’Lille",
+    description: meta.description,
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#030712",
+    theme_color: "#0284c7",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      {
+        src: "/icons/icon-512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ],
+  };
+}
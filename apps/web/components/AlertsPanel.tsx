@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import type { FormEvent } from "react";
+import type { Station } from "@vlille/contracts";
+import type { AlertError, AlertKind, StationAlert } from "@/hooks/useAlerts";
+import { formatTime, getMessages } from "@/i18n";
+import type { Locale } from "@/i18n";
+
+/**
+ * Alertes de disponibilité : formulaire pour la station choisie depuis la
+ * carte (🔔) et liste des alertes en attente.
+ */
+export default function AlertsPanel({
+  lang,
+  station,
+  onClose,
+  alerts,
+  onCreate,
+  onRemove,
+}: {
+  lang: Locale;
+  /** station choisie via le bouton 🔔 d'une popup */
+  station: Station | null;
+  onClose: () => void;
+  alerts: StationAlert[];
+  onCreate: (
+    station: Station,
+    kind: AlertKind,
+    threshold: number,
+    lang: Locale
+  ) => Promise<unknown>;
+  onRemove: (id: string) => Promise<void>;
+}) {
+  const t = getMessages(lang).alerts;
+  const [kind, setKind] = useState<AlertKind>("bikes");
+  const [threshold, setThreshold] = useState(1);
+  const [status, setStatus] = useState<
+    AlertError | "saving" | "created" | null
+  >(null);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!station) return;
+    setStatus("saving");
+    try {
+      await onCreate(station, kind, threshold, lang);
+      setStatus("created");
+      onClose();
+    } catch (err) {
+      const code = err instanceof Error ? err.message : "failed";
+      setStatus(code in t.errors ? (code as AlertError) : "failed");
+    }
+  };
+
+  const time = (ms: number) => formatTime(lang, ms);
+
+  return (
+    <div className="card p-4 space-y-3">
+      <h2 className="text-lg font-semibold">{t.title}</h2>
+
+      {station ? (
+        <form
+          onSubmit={submit}
+          className="flex flex-wrap items-center gap-2 text-sm"
+        >
+          <span>
+            {t.notify} <strong>{station.name}</strong> {t.has}
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={200}
+            className="input w-20"
+            value={threshold}
+            onChange={(e) => setThreshold(Math.max(1, Number(e.target.value)))}
+          />
+          <select
+            className="input"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AlertKind)}
+          >
+            <option value="bikes">{t.bikes}</option>
+            <option value="docks">{t.docks}</option>
+          </select>
+          <button
+            type="submit"
+            className="input cursor-pointer"
+            disabled={status === "saving"}
+          >
+            {t.create}
+          </button>
+          <button
+            type="button"
+            className="input cursor-pointer"
+            onClick={() => {
+              setStatus(null);
+              onClose();
+            }}
+          >
+            {t.cancel}
+          </button>
+        </form>
+      ) : (
+        alerts.length === 0 && (
+          <p className="text-sm text-slate-400">{t.hint}</p>
+        )
+      )}
+
+      {status === "created" && !station && (
+        <p className="text-sm text-emerald-400">{t.created}</p>
+      )}
+      {status && status in t.errors && (
+        <p className="text-sm text-rose-400">
+          {t.errors[status as AlertError]}
+        </p>
+      )}
+
+      {alerts.length > 0 && (
+        <ul className="space-y-2">
+          {alerts.map((a) => (
+            <li key={a.id} className="flex items-center gap-3 text-sm">
+              <span className="shrink-0">
+                {a.kind === "bikes" ? "🚲" : "🅿️"}
+              </span>
+              <span className="min-w-0 flex-1 truncate">
+                {a.stationName ?? "Station"}
+              </span>
+              <span className="shrink-0 font-semibold">
+                ≥ {a.threshold} {a.kind === "bikes" ? t.bikes : t.docks}
+              </span>
+              <span className="shrink-0 text-xs text-slate-400">
+                {t.until} {time(a.expiresAt)}
+              </span>
+              <button
+                type="button"
+                className="shrink-0 cursor-pointer text-slate-400 hover:text-rose-400"
+                onClick={() => onRemove(a.id).catch(() => {})}
+                title={t.remove}
+                aria-label={t.remove}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
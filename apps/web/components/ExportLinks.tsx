@@ -0,0 +1,76 @@
+import { getMessages } from "@/i18n";
+import type { Locale } from "@/i18n";
+
+const linkClass = "chip text-xs text-sky-500 hover:bg-slate-500/10";
+
+/**
+ * Liens de téléchargement des exports de l'API (stations, historique) et du
+ * flux GBFS republié. `range` : période de l'historique, 24 h sinon.
+ */
+export default function ExportLinks({
+  lang,
+  systemId,
+  range,
+}: {
+  lang: Locale;
+  systemId?: string;
+  range?: { from: number; to: number };
+}) {
+  const t = getMessages(lang).downloads;
+
+  const system = new URLSearchParams();
+  if (systemId) system.set("system", systemId);
+  const history = new URLSearchParams(system);
+  if (range) {
+    history.set("from", String(range.from));
+    history.set("to", String(range.to));
+  }
+  const qs = (params: URLSearchParams) => (params.size ? `?${params}` : "");
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold">{t.title}</h2>
+      <p className="text-sm text-slate-400">{range ? t.range : t.intro}</p>
+      <dl className="grid gap-2 text-sm sm:grid-cols-[auto_1fr] sm:items-center">
+        <dt className="text-slate-400">{t.stations}</dt>
+        <dd className="flex flex-wrap gap-2">
+          {["geojson", "csv"].map((format) => (
+            <a
+              key={format}
+              href={`/api/export/stations.${format}${qs(system)}`}
+              download
+              className={linkClass}
+            >
+              {format.toUpperCase()}
+            </a>
+          ))}
+        </dd>
+        <dt className="text-slate-400">{t.history}</dt>
+        <dd className="flex flex-wrap gap-2">
+          {["csv", "ndjson"].map((format) => (
+            <a
+              key={format}
+              href={`/api/export/history.${format}${qs(history)}`}
+              download
+              className={linkClass}
+            >
+              {format.toUpperCase()}
+            </a>
+          ))}
+        </dd>
+        <dt className="text-slate-400">{t.gbfs}</dt>
+        <dd>
+          <a
+            href={`/api/gbfs/gbfs.json${qs(system)}`}
+            target="_blank"
+            rel="noreferrer"
+            title={t.gbfsHint}
+            className={linkClass}
+          >
+            gbfs.json
+          </a>
+        </dd>
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import type { Station } from "@vlille/contracts";
+import { favoriteKey } from "@/hooks/useFavorites";
+import type { Favorite, SyncState } from "@/hooks/useFavorites";
+import { getMessages, plural } from "@/i18n";
+import type { Locale } from "@/i18n";
+
+const TOKEN = /^[A-Za-z0-9_-]{16,64}$/;
+
+/**
+ * Favoris : disponibilités en direct des stations suivies (réseau courant)
+ * et réglages de synchronisation.
+ */
+export default function FavoritesPanel({
+  lang,
+  stations,
+  favorites,
+  onToggle,
+  token,
+  syncState,
+  onEnableSync,
+  onDisableSync,
+}: {
+  lang: Locale;
+  /** stations du réseau affiché, mises à jour en direct */
+  stations: Station[];
+  favorites: Favorite[];
+  onToggle: (f: Favorite) => void;
+  token: string | null;
+  syncState: SyncState;
+  onEnableSync: (token?: string) => void;
+  onDisableSync: () => void;
+}) {
+  const t = getMessages(lang).favorites;
+  const [code, setCode] = useState("");
+
+  const byKey = new Map(stations.map((s) => [`${s.systemId}:${s.id}`, s]));
+  const visible = favorites.flatMap((f) => {
+    const s = byKey.get(favoriteKey(f));
+    return s ? [{ f, s }] : [];
+  });
+  const elsewhere = favorites.length - visible.length;
+
+  return (
+    <div className="card p-4 space-y-3">
+      <h2 className="text-lg font-semibold">{t.title}</h2>
+
+      {favorites.length === 0 ? (
+        <p className="text-sm text-slate-400">{t.hint}</p>
+      ) : (
+        <ul className="space-y-2">
+          {visible.map(({ f, s }) => {
+            const closed = !s.isInstalled || !s.isRenting;
+            return (
+              <li
+                key={favoriteKey(f)}
+                className="flex items-center gap-3 text-sm"
+              >
+                <button
+                  type="button"
+                  onClick={() => onToggle(f)}
+                  className="shrink-0 cursor-pointer text-amber-400"
+                  title={t.remove}
+                  aria-label={t.remove}
+                >
+                  ★
+                </button>
+                <span className="min-w-0 flex-1 truncate">{s.name}</span>
+                {closed ? (
+                  <span className="chip text-xs">{t.closed}</span>
+                ) : (
+                  <>
+                    <span className="shrink-0 font-semibold">
+                      🚲 {s.bikes}
+                      {s.ebikes ? (
+                        <span className="ml-1 text-xs font-normal text-slate-400">
+                          (⚡ {s.ebikes})
+                        </span>
+                      ) : null}
+                    </span>
+                    <span className="shrink-0 text-slate-400">
+                      🅿️ {s.docks}
+                    </span>
+                  </>
+                )}
+              </li>
+            );
+          })}
+          {elsewhere > 0 && (
+            <li className="text-xs text-slate-400">
+              {plural(lang, elsewhere, t.elsewhere)}
+            </li>
+          )}
+        </ul>
+      )}
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-slate-400">
+          {t.sync}
+          {syncState !== "off" && (
+            <span
+              className={[
+                "ml-2 text-xs",
+                syncState === "error" ? "text-rose-400" : "text-slate-500",
+              ].join(" ")}
+            >
+              {t.states[syncState]}
+            </span>
+          )}
+        </summary>
+        <div className="mt-2 space-y-2">
+          <p className="text-xs text-slate-400">{t.syncHint}</p>
+          {token ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="text-slate-400">{t.code}</label>
+              <input
+                className="input min-w-0 flex-1 font-mono text-xs"
+                value={token}
+                readOnly
+                onFocus={(e) => e.target.select()}
+              />
+              <button
+                type="button"
+                className="input cursor-pointer"
+                onClick={onDisableSync}
+              >
+                {t.disable}
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                className="input cursor-pointer"
+                onClick={() => onEnableSync()}
+              >
+                {t.enable}
+              </button>
+              <input
+                className="input min-w-0 flex-1 font-mono text-xs"
+                value={code}
+                onChange={(e) => setCode(e.target.value.trim())}
+                placeholder={t.codePlaceholder}
+              />
+              <button
+                type="button"
+                className="input cursor-pointer"
+                disabled={!TOKEN.test(code)}
+                onClick={() => onEnableSync(code)}
+              >
+                {t.join}
+              </button>
+            </div>
+          )}
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { DataFreshness } from "@/hooks/useStationsStream";
+import { INTL_LOCALES, formatTime, getMessages } from "@/i18n";
+import type { Locale } from "@/i18n";
+
+/** Au-delà, les chiffres sont signalés comme anciens même hors secours */
+const OLD_AFTER_MIN = 5;
+
+/**
+ * Fraîcheur des données affichées : âge d'après la date GBFS (et non la date
+ * de réception), avertissement quand l'API sert son dernier snapshot connu,
+ * ou quand l'appareil est hors ligne (snapshot gardé par le service worker,
+ * daté par `lastUpdate`).
+ */
+export default function FreshnessBadge({
+  lang,
+  freshness,
+  offline = false,
+  lastUpdate = null,
+}: {
+  lang: Locale;
+  freshness: DataFreshness | null;
+  offline?: boolean;
+  lastUpdate?: Date | null;
+}) {
+  const t = getMessages(lang).freshness;
+  const [now, setNow] = useState(() => Date.now());
+
+  // l'âge évolue même sans nouvelle donnée
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(id);
+  }, []);
+
+  if (!freshness && !offline) return null;
+
+  const minutes = freshness
+    ? Math.max(0, Math.floor((now - freshness.updatedAt) / 60_000))
+    : 0;
+  const stale = freshness?.stale ?? false;
+  const warn = offline || stale || minutes >= OLD_AFTER_MIN;
+
+  return (
+    <span
+      className={[
+        "chip text-xs",
+        warn ? "text-amber-500 dark:text-amber-400" : "text-slate-400",
+      ].join(" ")}
+      title={
+        freshness
+          ? new Date(freshness.updatedAt).toLocaleString(INTL_LOCALES[lang])
+          : undefined
+      }
+      role={offline ? "status" : undefined}
+    >
+      {offline && (
+        <strong>
+          📴 {t.offline}
+          {lastUpdate && ` (${t.snapshot(formatTime(lang, lastUpdate))})`}
+          {freshness && " — "}
+        </strong>
+      )}
+      {stale && !offline && "⚠️ "}
+      {freshness && (minutes === 0 ? t.now : t.ago(minutes))}
+      {stale && ` — ${t.stale}`}
+    </span>
+  );
+}
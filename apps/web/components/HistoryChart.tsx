@@ -0,0 +1,112 @@
+import { formatTime, getMessages } from "@/i18n";
+import type { Locale } from "@/i18n";
+
+export type HistoryPoint = { t: number; bikes: number; docks: number };
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PAD = { top: 8, right: 8, bottom: 20, left: 28 };
+const TICK_MS = 6 * 60 * 60_000;
+
+/**
+ * Courbes vélos / places d'une station (SVG statique, rendu côté serveur).
+ * `timeZone` : fuseau des graduations (celui du réseau, pas du serveur).
+ */
+export default function HistoryChart({
+  lang,
+  points,
+  timeZone,
+}: {
+  lang: Locale;
+  points: HistoryPoint[];
+  timeZone?: string;
+}) {
+  const t = getMessages(lang).chart;
+  if (points.length < 2) return null;
+
+  const from = points[0].t;
+  const to = points[points.length - 1].t;
+  const max = Math.max(1, ...points.map((p) => p.bikes + p.docks));
+  const x = (time: number) =>
+    PAD.left + ((time - from) / (to - from)) * (WIDTH - PAD.left - PAD.right);
+  const y = (value: number) =>
+    HEIGHT - PAD.bottom - (value / max) * (HEIGHT - PAD.top - PAD.bottom);
+  const line = (key: "bikes" | "docks") =>
+    points.map((p) => `${x(p.t).toFixed(1)},${y(p[key]).toFixed(1)}`).join(" ");
+
+  const ticks: number[] = [];
+  for (
+    let tick = Math.ceil(from / TICK_MS) * TICK_MS;
+    tick <= to;
+    tick += TICK_MS
+  ) {
+    ticks.push(tick);
+  }
+
+  return (
+    <figure className="space-y-2">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={t.title}
+      >
+        {[0, max].map((v) => (
+          <g key={v} className="text-slate-500">
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={y(v)}
+              y2={y(v)}
+              stroke="currentColor"
+              strokeOpacity={0.25}
+            />
+            <text
+              x={PAD.left - 4}
+              y={y(v) + 4}
+              textAnchor="end"
+              fontSize={10}
+              fill="currentColor"
+            >
+              {v}
+            </text>
+          </g>
+        ))}
+        {ticks.map((tick) => (
+          <text
+            key={tick}
+            x={x(tick)}
+            y={HEIGHT - 4}
+            textAnchor="middle"
+            fontSize={10}
+            className="fill-slate-500"
+          >
+            {formatTime(lang, tick, timeZone)}
+          </text>
+        ))}
+        <polyline
+          points={line("docks")}
+          fill="none"
+          stroke="#0ea5e9"
+          strokeWidth={2}
+        />
+        <polyline
+          points={line("bikes")}
+          fill="none"
+          stroke="#22c55e"
+          strokeWidth={2}
+        />
+      </svg>
+      <figcaption className="flex gap-4 text-xs text-slate-400">
+        <span className="inline-flex items-center gap-1.5">
+          <span className="inline-block h-0.5 w-4 bg-emerald-500" />
+          {t.bikes}
+        </span>
+        <span className="inline-flex items-center gap-1.5">
+          <span className="inline-block h-0.5 w-4 bg-sky-500" />
+          {t.docks}
+        </span>
+      </figcaption>
+    </figure>
+  );
+}
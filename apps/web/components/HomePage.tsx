@@ -0,0 +1,591 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Station } from "@vlille/contracts";
+import ThemeToggle from "@/components/ThemeToggle";
+import LanguageToggle from "@/components/LanguageToogle";
+import SystemSelect from "@/components/SystemSelect";
+import FreshnessBadge from "@/components/FreshnessBadge";
+import NearbyPanel from "@/components/NearbyPanel";
+import TripPlanner from "@/components/TripPlanner";
+import FavoritesPanel from "@/components/FavoritesPanel";
+import AlertsPanel from "@/components/AlertsPanel";
+import ExportLinks from "@/components/ExportLinks";
+import ReplayPanel from "@/components/ReplayPanel";
+import MapLegend from "@/components/MapLegend";
+import StationSearch from "@/components/StationSearch";
+import type { MapLayer } from "@/components/mapLayers";
+import type { MarkerMode } from "@/components/mapTheme";
+import type { MapFocus } from "@/components/StationsMap";
+import type { PickTarget } from "@/components/TripPlanner";
+import {
+  freshnessFromHeaders,
+  useStationsStream,
+} from "@/hooks/useStationsStream";
+import type { DataFreshness } from "@/hooks/useStationsStream";
+import { useNearestStations } from "@/hooks/useNearestStations";
+import type { LatLon, NearestMode } from "@/hooks/useNearestStations";
+import { useTripPlan } from "@/hooks/useTripPlan";
+import { favoriteKey, useFavorites } from "@/hooks/useFavorites";
+import { useAlerts } from "@/hooks/useAlerts";
+import { useReplay } from "@/hooks/useReplay";
+import { usePressure } from "@/hooks/usePressure";
+import { useNetworkSummary } from "@/hooks/useAnalytics";
+import { useOnline, useRefreshScheduler } from "@/hooks/useRefreshScheduler";
+import type { Place } from "@/hooks/useTripPlan";
+import {
+  DEFAULT_LOCALE,
+  formatDateTime,
+  formatNumber,
+  getMessages,
+  isLocale,
+} from "@/i18n";
+import type { Locale } from "@/i18n";
+import { rich } from "@/i18n/rich";
+import { motion, AnimatePresence } from "framer-motion";
+import type { MotionProps, Variants } from "framer-motion";
+
+/** Message d'attente de la carte (composant de chargement : sans props) */
+function MapLoading() {
+  const { locale } = useParams<{ locale: string }>();
+  const t = getMessages(isLocale(locale) ? locale : DEFAULT_LOCALE).home;
+  return <div className="card p-3">{t.loadingMap}</div>;
+}
+
+const StationsMap = dynamic(() => import("@/components/StationsMap"), {
+  ssr: false,
+  loading: MapLoading,
+});
+
+// --- Data fetcher (proxy Next) ---
+/**
+ * Stations du système. Avec `etag`, requête conditionnelle : `stations` vaut
+ * `null` si rien n'a changé depuis (304, aucun corps téléchargé). Sans réseau,
+ * le service worker sert le dernier snapshot (`offline`, daté de sa mise en cache).
+ */
+async function fetchStations(
+  signal: AbortSignal,
+  min?: number,
+  systemId?: string,
+  etag?: string | null
+): Promise<{
+  stations: Station[] | null;
+  freshness: DataFreshness | null;
+  etag: string | null;
+  offline: boolean;
+  fetchedAt: Date;
+}> {
+  const params = new URLSearchParams();
+  if (min) params.set("min", String(min));
+  if (systemId) params.set("system", systemId);
+  const qs = params.size ? `?${params}` : "";
+  const res = await fetch(`/api/stations${qs}`, {
+    cache: "no-store",
+    headers: etag ? { "If-None-Match": etag } : undefined,
+    signal,
+  });
+  const freshness = freshnessFromHeaders(res.headers);
+  const offline = res.headers.get("X-Offline") === "true";
+  const cachedAt = Date.parse(res.headers.get("X-Cached-At") ?? "");
+  const fetchedAt = new Date(offline && cachedAt ? cachedAt : Date.now());
+  if (res.status === 304)
+    return {
+      stations: null,
+      freshness,
+      etag: etag ?? null,
+      offline,
+      fetchedAt,
+    };
+  if (!res.ok) throw new Error("Failed to fetch stations");
+  return {
+    stations: await res.json(),
+    freshness,
+    etag: res.headers.get("ETag"),
+    offline,
+    fetchedAt,
+  };
+}
+
+/* ---------------- Motion presets ---------------- */
+
+const EASE_OUT: [number, number, number, number] = [0.16, 1, 0.3, 1];
+
+const pageVariants: Variants = {
+  hidden: { opacity: 0 },
+  show: {
+    opacity: 1,
+    transition: {
+      duration: 0.25,
+      when: "beforeChildren",
+      staggerChildren: 0.08,
+    },
+  },
+};
+
+const sectionVariants: Variants = {
+  hidden: { opacity: 0, y: 10, filter: "blur(2px)" },
+  show: {
+    opacity: 1,
+    y: 0,
+    filter: "blur(0px)",
+    transition: { duration: 0.28, ease: EASE_OUT },
+  },
+};
+
+const cardVariants: Variants = {
+  hidden: { opacity: 0, y: 8 },
+  show: {
+    opacity: 1,
+    y: 0,
+    transition: { duration: 0.22, ease: EASE_OUT },
+  },
+};
+
+const statHover: MotionProps = {
+  whileHover: { y: -4, scale: 1.01 },
+  whileTap: { scale: 0.99 },
+  transition: { type: "spring", stiffness: 300, damping: 22 },
+};
+
+/** Page d'accueil : carte, filtres et panneaux, dans la langue de la route */
+export default function HomePage({ lang }: { lang: Locale }) {
+  const t = getMessages(lang).home;
+  const [stations, setStations] = useState<Station[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [min, setMin] = useState<number>(0);
+  const [systemId, setSystemId] = useState<string | undefined>(undefined);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [freshness, setFreshness] = useState<DataFreshness | null>(null);
+  const [position, setPosition] = useState<LatLon | null>(null);
+  const [nearMode, setNearMode] = useState<NearestMode>("bike");
+  const [tripOrigin, setTripOrigin] = useState<Place | null>(null);
+  const [tripDestination, setTripDestination] = useState<Place | null>(null);
+  const [pickTarget, setPickTarget] = useState<PickTarget | null>(null);
+  const [alertStation, setAlertStation] = useState<Station | null>(null);
+  // Couche de la carte (marqueurs, chaleur, pression), couleur des marqueurs et légende
+  const [mapLayer, setMapLayer] = useState<MapLayer>("markers");
+  const [markerMode, setMarkerMode] = useState<MarkerMode>("bikes");
+  const [focus, setFocus] = useState<MapFocus | null>(null);
+  // Données servies par le service worker (dernier snapshot, sans réseau)
+  const [fromCache, setFromCache] = useState(false);
+  const online = useOnline();
+  // ETag de la dernière liste reçue (polling conditionnel)
+  const etagRef = useRef<string | null>(null);
+  // Rafraîchissement en cours, annulé par le suivant ou au changement de filtre
+  const refreshAbortRef = useRef<AbortController | null>(null);
+
+  // Chargement initial + au changement de filtre
+  useEffect(() => {
+    const ac = new AbortController();
+    let cancelled = false;
+
+    (async () => {
+      try {
+        setLoading(true);
+        const data = await fetchStations(ac.signal, min, systemId);
+        if (cancelled) return;
+        etagRef.current = data.etag;
+        setStations(data.stations ?? []);
+        setFreshness(data.freshness);
+        setError(null);
+        setLastUpdate(data.fetchedAt);
+        setFromCache(data.offline);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (cancelled) return;
+        setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      ac.abort();
+    };
+  }, [min, systemId]);
+
+  // Flux temps réel (SSE) : seules les stations modifiées sont reçues
+  const liveUpdate = useCallback((at: Date) => {
+    setLastUpdate(at);
+    setFromCache(false);
+  }, []);
+  const streaming = useStationsStream(
+    min,
+    systemId,
+    setStations,
+    liveUpdate,
+    setFreshness
+  );
+
+  // Repli si le flux est coupé : toutes les 60s, en pause onglet caché ou
+  // hors ligne, et aussitôt le réseau revenu
+  const refresh = useCallback(() => {
+    refreshAbortRef.current?.abort();
+    const ac = new AbortController();
+    refreshAbortRef.current = ac;
+    fetchStations(ac.signal, min, systemId, etagRef.current)
+      .then((data) => {
+        etagRef.current = data.etag;
+        if (data.stations) setStations(data.stations);
+        setFreshness(data.freshness);
+        setLastUpdate(data.fetchedAt);
+        setFromCache(data.offline);
+      })
+      .catch(() => {});
+  }, [min, systemId]);
+  useEffect(() => () => refreshAbortRef.current?.abort(), [refresh]);
+  useRefreshScheduler(refresh, 60_000, !streaming);
+
+  // Stations les plus proches (mode “trouver un vélo / une place”)
+  const nearest = useNearestStations(position, nearMode, systemId, lastUpdate);
+
+  // Favoris (localStorage + synchronisation optionnelle)
+  const fav = useFavorites();
+  const favoriteKeys = useMemo(
+    () => new Set(fav.favorites.map(favoriteKey)),
+    [fav.favorites]
+  );
+  const toggleFav = fav.toggle;
+  const toggleFavorite = useCallback(
+    (s: Station) => toggleFav({ systemId: s.systemId, id: s.id }),
+    [toggleFav]
+  );
+
+  // Alertes de disponibilité (Web Push), relues à chaque mise à jour
+  const stationAlerts = useAlerts(lastUpdate);
+
+  // Itinéraire : recalculé à chaque mise à jour des disponibilités
+  const trip = useTripPlan(tripOrigin, tripDestination, systemId, lastUpdate);
+
+  // Rejeu de l'historique : remplace les données en direct sur la carte
+  const replay = useReplay(systemId);
+  const replayed = replay.active ? replay.frame : null;
+  const shown = useMemo(
+    () =>
+      replayed ? replayed.stations.filter((s) => s.bikes >= min) : stations,
+    [replayed, stations, min]
+  );
+
+  // Stations sous tension, chargées seulement quand la couche est affichée
+  const pressure = usePressure(
+    mapLayer === "pressure" && !replayed,
+    systemId,
+    lastUpdate
+  );
+
+  // Recherche : la carte vole jusqu'à la station (ses marqueurs doivent être visibles)
+  const focusStation = (station: Station) => {
+    if (mapLayer !== "markers" && mapLayer !== "pressure")
+      setMapLayer("markers");
+    setFocus({ station, nonce: Date.now() });
+  };
+
+  const pickPlace = (pos: LatLon) => {
+    if (pickTarget === "origin") setTripOrigin(pos);
+    if (pickTarget === "destination") setTripDestination(pos);
+    setPickTarget(null);
+  };
+
+  // Indicateurs de tout le réseau, calculés par l'API (indépendants du
+  // filtre `min`) ; ceux du relevé affiché pendant un rejeu
+  const summary = useNetworkSummary(systemId, replayed?.at, lastUpdate);
+
+  return (
+    <motion.main
+      className="page-shell space-y-8"
+      variants={pageVariants}
+      initial="hidden"
+      animate="show"
+    >
+      {/* HERO */}
+      <motion.section className="space-y-3" variants={sectionVariants}>
+        <motion.div
+          className="chip text-xs"
+          initial={{ opacity: 0, y: -6 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.25, ease: "easeOut" }}
+        >
+          <span>{t.badge}</span>
+          <span aria-hidden>•</span>
+          <span>{t.realtime}</span>
+        </motion.div>
+
+        <div className="flex flex-wrap items-center gap-3 justify-between">
+          <motion.h1
+            className="text-3xl md:text-4xl font-bold tracking-tight"
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.28, ease: "easeOut" }}
+          >
+            {t.title}
+          </motion.h1>
+
+          <motion.div
+            className="flex items-center gap-2"
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.24, ease: "easeOut", delay: 0.05 }}
+          >
+            <LanguageToggle />
+            <ThemeToggle lang={lang} className="shrink-0" />
+          </motion.div>
+        </div>
+
+        <motion.p
+          className="max-w-2xl text-slate-400"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.25, delay: 0.06 }}
+        >
+          {t.intro}
+        </motion.p>
+
+        {/* Controls */}
+        <motion.div
+          className="flex flex-wrap items-center gap-3 pt-1"
+          initial={{ opacity: 0, y: 8 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.22, ease: "easeOut", delay: 0.08 }}
+        >
+          <StationSearch
+            lang={lang}
+            systemId={systemId}
+            onSelect={focusStation}
+          />
+
+          <label className="text-sm text-slate-400">{t.minLabel}</label>
+          <input
+            type="number"
+            min={0}
+            value={min}
+            onChange={(e) => setMin(Number(e.target.value) || 0)}
+            className="input"
+            placeholder="0"
+            aria-label={t.minAria}
+          />
+
+          <SystemSelect
+            value={systemId}
+            onChange={setSystemId}
+            label={t.network}
+          />
+
+          {lastUpdate && (
+            <span className="text-xs text-slate-400">
+              {t.lastUpdate}{" "}
+              <span className="text-slate-600 dark:text-slate-300">
+                {formatDateTime(lang, lastUpdate)}
+              </span>
+            </span>
+          )}
+
+          <FreshnessBadge
+            lang={lang}
+            freshness={freshness}
+            offline={!online || fromCache}
+            lastUpdate={lastUpdate}
+          />
+        </motion.div>
+      </motion.section>
+
+      {/* STATS */}
+      <motion.section
+        className="grid gap-3 md:grid-cols-3"
+        variants={sectionVariants}
+      >
+        <motion.div className="card p-4" variants={cardVariants} {...statHover}>
+          <div className="text-xs text-slate-400">{t.stations}</div>
+          <div className="text-2xl font-semibold">
+            {summary?.stations ?? "—"}
+          </div>
+        </motion.div>
+
+        <motion.div className="card p-4" variants={cardVariants} {...statHover}>
+          <div className="text-xs text-slate-400">{t.bikes}</div>
+          <div className="text-2xl font-semibold">{summary?.bikes ?? "—"}</div>
+        </motion.div>
+
+        <motion.div className="card p-4" variants={cardVariants} {...statHover}>
+          <div className="text-xs text-slate-400">{t.average}</div>
+          <div className="text-2xl font-semibold">
+            {summary ? formatNumber(lang, summary.avgBikes) : "—"}
+          </div>
+        </motion.div>
+      </motion.section>
+
+      {/* MAP */}
+      <AnimatePresence>
+        {error && (
+          <motion.div
+            className="card p-4 border-red-500/30 text-red-300"
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 6 }}
+            transition={{ duration: 0.2 }}
+          >
+            {t.loadError} {error}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* REJEU */}
+      <motion.section variants={sectionVariants}>
+        <ReplayPanel lang={lang} {...replay} />
+      </motion.section>
+
+      <motion.section aria-label={t.mapLabel} variants={sectionVariants}>
+        <motion.div
+          className="will-change-transform"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.25 }}
+        >
+          <StationsMap
+            stations={shown}
+            height={560}
+            onLocate={setPosition}
+            nearby={nearest.stations}
+            origin={position}
+            onMapClick={pickTarget ? pickPlace : undefined}
+            picking={pickTarget !== null}
+            trip={{
+              origin: tripOrigin,
+              destination: tripDestination,
+              plan: trip.plan,
+            }}
+            favorites={favoriteKeys}
+            onToggleFavorite={toggleFavorite}
+            onAlert={setAlertStation}
+            layer={mapLayer}
+            onLayerChange={setMapLayer}
+            pressure={pressure.stations}
+            lang={lang}
+            markerMode={markerMode}
+            focus={focus}
+          />
+        </motion.div>
+
+        {/* Légende */}
+        <motion.div
+          className="mt-3"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.22, delay: 0.05 }}
+        >
+          <MapLegend
+            lang={lang}
+            layer={mapLayer}
+            mode={markerMode}
+            onModeChange={setMarkerMode}
+          />
+        </motion.div>
+      </motion.section>
+
+      {/* MES STATIONS */}
+      <motion.section variants={sectionVariants}>
+        <FavoritesPanel
+          lang={lang}
+          stations={stations}
+          favorites={fav.favorites}
+          onToggle={fav.toggle}
+          token={fav.token}
+          syncState={fav.syncState}
+          onEnableSync={fav.enableSync}
+          onDisableSync={fav.disableSync}
+        />
+      </motion.section>
+
+      {/* ALERTES */}
+      <motion.section variants={sectionVariants}>
+        <AlertsPanel
+          lang={lang}
+          station={alertStation}
+          onClose={() => setAlertStation(null)}
+          alerts={stationAlerts.alerts}
+          onCreate={stationAlerts.create}
+          onRemove={stationAlerts.remove}
+        />
+      </motion.section>
+
+      {/* À PROXIMITÉ */}
+      <motion.section variants={sectionVariants}>
+        <NearbyPanel
+          lang={lang}
+          mode={nearMode}
+          onModeChange={setNearMode}
+          position={position}
+          onPosition={setPosition}
+          {...nearest}
+        />
+      </motion.section>
+
+      {/* ITINÉRAIRE */}
+      <motion.section variants={sectionVariants}>
+        <TripPlanner
+          lang={lang}
+          origin={tripOrigin}
+          destination={tripDestination}
+          onOriginChange={setTripOrigin}
+          onDestinationChange={setTripDestination}
+          picking={pickTarget}
+          onPickingChange={setPickTarget}
+          near={position ?? undefined}
+          {...trip}
+        />
+      </motion.section>
+
+      {/* EXPORTS */}
+      <motion.section className="card p-5" variants={sectionVariants}>
+        <ExportLinks lang={lang} systemId={systemId} />
+      </motion.section>
+
+      {/* ABOUT */}
+      <motion.section className="card p-5 space-y-3" variants={sectionVariants}>
+        <h2 className="text-lg font-semibold">{t.aboutTitle}</h2>
+        <p className="text-sm text-slate-400">{t.about}</p>
+        <ul className="text-sm text-slate-400 list-disc pl-5 space-y-1">
+          {t.aboutItems.map((item) => (
+            <li key={item}>{rich(item)}</li>
+          ))}
+        </ul>
+        <div className="text-xs text-slate-500">{rich(t.tip)}</div>
+      </motion.section>
+
+      {/* FOOTER */}
+      <motion.footer
+        className="py-6 text-xs text-slate-500"
+        variants={sectionVariants}
+      >
+        {t.footer}{" "}
+        <Link href={`/${lang}/stats`} className="text-sky-500">
+          {getMessages(lang).stats.link}
+        </Link>{" "}
+        •{" "}
+        <Link href={`/${lang}/ops`} className="text-sky-500">
+          {getMessages(lang).ops.link}
+        </Link>
+      </motion.footer>
+
+      {/* Loader fin / overlay léger si besoin */}
+      <AnimatePresence>
+        {loading && (
+          <motion.div
+            className="fixed inset-x-0 bottom-3 mx-auto w-fit rounded-full bg-slate-900/80 border border-slate-800 px-3 py-1 text-xs text-slate-300 shadow"
+            initial={{ opacity: 0, y: 10, scale: 0.98 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 8, scale: 0.98 }}
+            transition={{ duration: 0.2, ease: "easeOut" }}
+          >
+            {t.refreshing}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.main>
+  );
+}
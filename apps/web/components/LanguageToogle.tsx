@@ -1,10 +1,23 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { usePathname, useRouter } from "next/navigation";
 import type { SVGProps } from "react";
-
-type Lang = "fr" | "en";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  LOCALE_NAMES,
+  LOCALES,
+  getMessages,
+  localizePath,
+  splitLocale,
+} from "@/i18n";
+import type { Locale } from "@/i18n";
+
+/** Mémorisée comme le thème : le proxy la réutilise aux prochaines visites */
+function rememberLocale(lang: Locale) {
+  document.cookie = `${LOCALE_COOKIE}=${lang}; Path=/; Max-Age=31536000; SameSite=Lax`;
+}
 
 export default function LanguageToggle({
   className = "",
@@ -16,26 +29,14 @@ export default function LanguageToggle({
   const [open, setOpen] = useState(false);
   const rootRef = useRef<HTMLDivElement | null>(null);
 
-  const currentLang: Lang = useMemo(() => {
-    const isEnglish = pathname === "/en" || pathname.startsWith("/en/");
-    return isEnglish ? "en" : "fr";
-  }, [pathname]);
-
-  const switchTo = (lang: Lang) => {
-    if (lang === currentLang) {
-      setOpen(false);
-      return;
-    }
-
-    if (lang === "en") {
-      const newPath = pathname === "/" ? "/en" : `/en${pathname}`;
-      router.push(newPath);
-    } else {
-      const withoutEn = pathname.replace(/^\/en(\/?)/, "/");
-      router.push(withoutEn === "//" ? "/" : withoutEn);
-    }
+  const currentLang = splitLocale(pathname).locale ?? DEFAULT_LOCALE;
 
+  const switchTo = (lang: Locale) => {
     setOpen(false);
+    if (lang === currentLang) return;
+
+    rememberLocale(lang);
+    router.push(`${localizePath(lang, pathname)}${window.location.search}`);
   };
 
   // Fermer si clic en dehors
@@ -89,7 +90,7 @@ export default function LanguageToggle({
           // Typo
           "text-sm font-medium",
         ].join(" ")}
-        title="Language"
+        title={getMessages(currentLang).language.label}
       >
         <span className="leading-none">{label}</span>
         <ChevronDown
@@ -112,32 +113,24 @@ export default function LanguageToggle({
             "shadow-lg overflow-hidden z-50",
           ].join(" ")}
         >
-          <button
-            role="menuitem"
-            type="button"
-            onClick={() => switchTo("fr")}
-            className={[
-              "w-full text-left px-3 py-2 text-sm",
-              currentLang === "fr"
-                ? "bg-slate-100 text-slate-900 dark:bg-slate-800 dark:text-slate-50"
-                : "hover:bg-slate-50 dark:hover:bg-slate-800/60",
-            ].join(" ")}
-          >
-            FR
-          </button>
-          <button
-            role="menuitem"
-            type="button"
-            onClick={() => switchTo("en")}
-            className={[
-              "w-full text-left px-3 py-2 text-sm",
-              currentLang === "en"
-                ? "bg-slate-100 text-slate-900 dark:bg-slate-800 dark:text-slate-50"
-                : "hover:bg-slate-50 dark:hover:bg-slate-800/60",
-            ].join(" ")}
-          >
-            EN
-          </button>
+          {LOCALES.map((lang) => (
+            <button
+              key={lang}
+              role="menuitem"
+              type="button"
+              lang={lang}
+              title={LOCALE_NAMES[lang]}
+              onClick={() => switchTo(lang)}
+              className={[
+                "w-full text-left px-3 py-2 text-sm",
+                currentLang === lang
+                  ? "bg-slate-100 text-slate-900 dark:bg-slate-800 dark:text-slate-50"
+                  : "hover:bg-slate-50 dark:hover:bg-slate-800/60",
+              ].join(" ")}
+            >
+              {lang.toUpperCase()}
+            </button>
+          ))}
         </div>
       )}
     </div>
@@ -161,4 +154,4 @@ function ChevronDown(props: SVGProps<SVGSVGElement>) {
       />
     </svg>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useCallback } from "react";
+import { useRefreshScheduler } from "@/hooks/useRefreshScheduler";
+
+/**
+ * Relance le rendu serveur de la page à intervalle régulier (données en
+ * direct), en pause quand l'onglet est caché ou hors ligne
+ */
+export default function LiveRefresh({
+  everyMs = 60_000,
+}: {
+  everyMs?: number;
+}) {
+  const router = useRouter();
+  const refresh = useCallback(() => router.refresh(), [router]);
+
+  useRefreshScheduler(refresh, everyMs);
+
+  return null;
+}
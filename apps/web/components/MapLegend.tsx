@@ -0,0 +1,125 @@
+import {
+  HEAT_GRADIENTS,
+  HEAT_SATURATION,
+  PRESSURE_COLORS,
+  cssGradient,
+  type MapLayer,
+} from "./mapLayers";
+import {
+  DEFAULT_THEME,
+  MARKER_MODES,
+  levelRanges,
+  type Level,
+  type MapTheme,
+  type MarkerMode,
+} from "./mapTheme";
+import { getMessages } from "@/i18n";
+import type { Locale } from "@/i18n";
+
+const DOT =
+  "inline-block h-3 w-3 rounded-full ring-2 ring-white/90 shadow-[0_0_0_3px_rgba(0,0,0,.25)]";
+
+/**
+ * Légende de la couche affichée sur la carte. Paliers et couleurs viennent du
+ * thème partagé avec les marqueurs ; le mode de couleur se choisit ici.
+ */
+export default function MapLegend({
+  lang,
+  layer,
+  mode = "bikes",
+  onModeChange,
+  theme = DEFAULT_THEME,
+}: {
+  lang: Locale;
+  layer: MapLayer;
+  mode?: MarkerMode;
+  onModeChange?: (mode: MarkerMode) => void;
+  theme?: MapTheme;
+}) {
+  const t = getMessages(lang).legend;
+
+  if (layer === "bikes" || layer === "docks") {
+    return (
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+        <span>{t[layer]}</span>
+        <span>{t.none}</span>
+        <span
+          className="inline-block h-3 w-40 rounded-full"
+          style={{ background: cssGradient(HEAT_GRADIENTS[layer]) }}
+        />
+        <span>{t.many(HEAT_SATURATION)}</span>
+      </div>
+    );
+  }
+
+  const ranges = levelRanges(theme.thresholds.station[mode], mode);
+  const levels: Level[] = ["good", "low", "empty", "closed"];
+
+  const ring = (trend: keyof typeof PRESSURE_COLORS) => (
+    <span
+      className="inline-block h-3.5 w-3.5 rounded-full border-[3px]"
+      style={{
+        borderColor: PRESSURE_COLORS[trend],
+        background: `${PRESSURE_COLORS[trend]}33`,
+      }}
+    />
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+      {layer === "pressure" && (
+        <>
+          <span className="inline-flex items-center gap-2">
+            {ring("emptying")}
+            {t.emptying}
+          </span>
+          <span className="inline-flex items-center gap-2">
+            {ring("filling")}
+            {t.filling}
+          </span>
+          <span>{t.urgency}</span>
+        </>
+      )}
+      {onModeChange && (
+        <span className="inline-flex items-center gap-1">
+          {t.colorBy}
+          <span className="inline-flex rounded-lg border border-slate-500/30 p-0.5">
+            {MARKER_MODES.map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => onModeChange(m)}
+                aria-pressed={mode === m}
+                className={[
+                  "px-2 py-0.5 rounded-md cursor-pointer transition-colors",
+                  mode === m
+                    ? "bg-sky-500 text-white"
+                    : "hover:bg-slate-500/10",
+                ].join(" ")}
+              >
+                {t.modes[m]}
+              </button>
+            ))}
+          </span>
+        </span>
+      )}
+      {levels.map((level) => (
+        <span key={level} className="inline-flex items-center gap-2">
+          <span className={DOT} style={{ background: theme.colors[level] }} />
+          {level === "closed"
+            ? t.closed[mode]
+            : `${t[level]} (${[ranges[level], t.units[mode]].filter(Boolean).join(" ")})`}
+        </span>
+      ))}
+      <span className="inline-flex items-center gap-2">
+        <span
+          className="inline-block h-3.5 w-3.5 rounded-full"
+          style={{
+            background: `conic-gradient(${theme.donut.bikes} 0 60%, ${theme.donut.docks} 60% 100%)`,
+          }}
+        />
+        {t.clusters}
+      </span>
+    </div>
+  );
+}
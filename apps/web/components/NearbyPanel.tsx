@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import type {
+  LatLon,
+  NearbyStation,
+  NearestMode,
+} from "@/hooks/useNearestStations";
+import { formatDistance, getMessages, plural } from "@/i18n";
+import type { Locale } from "@/i18n";
+
+/**
+ * Mode “trouver un vélo / une place” : bascule de mode, géolocalisation et
+ * liste des stations les plus proches (distance + temps de marche).
+ */
+export default function NearbyPanel({
+  lang,
+  mode,
+  onModeChange,
+  position,
+  onPosition,
+  stations,
+  loading,
+  error,
+}: {
+  lang: Locale;
+  mode: NearestMode;
+  onModeChange: (mode: NearestMode) => void;
+  position: LatLon | null;
+  onPosition: (pos: LatLon) => void;
+  stations: NearbyStation[];
+  loading: boolean;
+  error: string | null;
+}) {
+  const { nearby: t, units } = getMessages(lang);
+  const [geoState, setGeoState] = useState<"idle" | "locating" | "denied">(
+    "idle"
+  );
+
+  const locate = () => {
+    if (!navigator.geolocation) {
+      setGeoState("denied");
+      return;
+    }
+    setGeoState("locating");
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        setGeoState("idle");
+        onPosition({ lat: pos.coords.latitude, lon: pos.coords.longitude });
+      },
+      () => setGeoState("denied"),
+      { enableHighAccuracy: true, timeout: 6000 }
+    );
+  };
+
+  const modeButton = (m: NearestMode) => (
+    <button
+      type="button"
+      onClick={() => onModeChange(m)}
+      aria-pressed={mode === m}
+      className={[
+        "px-3 py-1.5 text-sm rounded-lg cursor-pointer transition-colors",
+        mode === m
+          ? "bg-sky-500 text-white"
+          : "hover:bg-slate-500/10 text-slate-400",
+      ].join(" ")}
+    >
+      {t[m]}
+    </button>
+  );
+
+  return (
+    <div className="card p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">{t.title}</h2>
+        <div className="flex items-center gap-2">
+          <div className="inline-flex rounded-xl border border-slate-500/30 p-0.5">
+            {modeButton("bike")}
+            {modeButton("dock")}
+          </div>
+          <button
+            type="button"
+            onClick={locate}
+            className="input text-sm cursor-pointer"
+            disabled={geoState === "locating"}
+          >
+            {geoState === "locating" ? t.locating : t.locate}
+          </button>
+        </div>
+      </div>
+
+      {geoState === "denied" && (
+        <p className="text-sm text-rose-400">{t.denied}</p>
+      )}
+      {error && <p className="text-sm text-rose-400">{error}</p>}
+
+      {!position ? (
+        <p className="text-sm text-slate-400">{t.hint}</p>
+      ) : stations.length === 0 && !loading ? (
+        <p className="text-sm text-slate-400">{t.empty}</p>
+      ) : (
+        <ol className="space-y-2">
+          {stations.map((s, i) => (
+            <li key={s.id} className="flex items-center gap-3 text-sm">
+              <span className="grid h-6 w-6 shrink-0 place-items-center rounded-full bg-sky-500 text-xs font-bold text-white">
+                {i + 1}
+              </span>
+              <span className="min-w-0 flex-1 truncate">{s.name}</span>
+              <span className="shrink-0 text-slate-400">
+                {formatDistance(lang, s.distance)} • {s.walkMinutes} min{" "}
+                {t.walk}
+              </span>
+              <span className="shrink-0 font-semibold">
+                {mode === "bike"
+                  ? plural(lang, s.bikes, units.bikes)
+                  : plural(lang, s.docks, units.docks)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useState } from "react";
+import SystemSelect from "@/components/SystemSelect";
+import { DEFAULT_THEME } from "@/components/mapTheme";
+import { stationPath } from "@/components/stationLinks";
+import { useRebalancing } from "@/hooks/useRebalancing";
+import type { ImbalanceLevel } from "@/hooks/useRebalancing";
+import { useRefreshScheduler } from "@/hooks/useRefreshScheduler";
+import {
+  formatDateTime,
+  formatDistance,
+  formatNumber,
+  getMessages,
+  plural,
+} from "@/i18n";
+import type { Locale } from "@/i18n";
+
+const LEVELS: ImbalanceLevel[] = [
+  "empty",
+  "nearly-empty",
+  "nearly-full",
+  "full",
+];
+
+// mêmes couleurs que la carte : vide / pleine en rouge, presque en orange
+const LEVEL_COLORS: Record<ImbalanceLevel, string> = {
+  empty: DEFAULT_THEME.colors.empty,
+  "nearly-empty": DEFAULT_THEME.colors.low,
+  "nearly-full": DEFAULT_THEME.colors.low,
+  full: DEFAULT_THEME.colors.empty,
+};
+
+/** Fenêtre d'historique de l'API : une date d'entrée plus ancienne est bornée */
+const LOOKBACK_MIN = 24 * 60;
+
+/**
+ * Tableau de bord des équipes terrain : stations déséquilibrées (de la plus
+ * critique à la moins critique) et déplacements de vélos proposés.
+ */
+export default function OpsDashboard({ lang }: { lang: Locale }) {
+  const { ops: t, units } = getMessages(lang);
+  const [systemId, setSystemId] = useState<string | undefined>(undefined);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const refresh = useCallback(() => setRefreshKey((k) => k + 1), []);
+  useRefreshScheduler(refresh, 60_000);
+
+  const { data, error } = useRebalancing(systemId, refreshKey);
+
+  // durée dans l'état, à la réception des données (recalculée à chaque rechargement)
+  const duration = (since: number | null, receivedAt: number) => {
+    if (since === null) return "—";
+    const min = Math.max(0, Math.round((receivedAt - since) / 60_000));
+    const text = t.duration(Math.floor(min / 60), min % 60);
+    return min >= LOOKBACK_MIN ? `≥ ${text}` : text;
+  };
+
+  return (
+    <main className="page-shell space-y-6">
+      <Link href={`/${lang}`} className="text-sm text-sky-500">
+        {t.back}
+      </Link>
+
+      <section className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">{t.title}</h1>
+        <p className="max-w-2xl text-slate-400">{t.intro}</p>
+        <div className="flex flex-wrap items-center gap-3 pt-1">
+          <SystemSelect
+            value={systemId}
+            onChange={setSystemId}
+            label={t.network}
+          />
+          {data && (
+            <span
+              className={[
+                "chip text-xs",
+                data.stale ? "text-amber-500 dark:text-amber-400" : "",
+              ].join(" ")}
+            >
+              {data.stale && "⚠️ "}
+              {t.updated} {formatDateTime(lang, data.updatedAt)}
+              {data.stale && ` — ${t.stale}`}
+            </span>
+          )}
+        </div>
+      </section>
+
+      {error && (
+        <div className="card p-4 border-red-500/30 text-red-300">
+          {t.loadError} {error}
+        </div>
+      )}
+
+      {data && (
+        <>
+          <section className="grid gap-3 grid-cols-2 md:grid-cols-4">
+            {LEVELS.map((level) => (
+              <div key={level} className="card p-4">
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  <span
+                    aria-hidden
+                    className="inline-block h-2.5 w-2.5 rounded-full"
+                    style={{ background: LEVEL_COLORS[level] }}
+                  />
+                  {t.levels[level]}
+                </div>
+                <div className="text-2xl font-semibold">
+                  {data.stations.filter((s) => s.level === level).length}
+                </div>
+              </div>
+            ))}
+          </section>
+
+          <section className="card p-4 space-y-3">
+            <h2 className="text-lg font-semibold">{t.moves}</h2>
+            {data.moves.length === 0 ? (
+              <p className="text-sm text-slate-400">{t.noMoves}</p>
+            ) : (
+              <ol className="space-y-2 text-sm">
+                {data.moves.map((m) => (
+                  <li
+                    key={`${m.from.id}-${m.to.id}`}
+                    className="flex flex-wrap items-center gap-x-2"
+                  >
+                    <span className="font-semibold">
+                      {t.move(plural(lang, m.bikes, units.bikes))}
+                    </span>
+                    <Link
+                      href={stationPath(lang, m.from.id, systemId)}
+                      className="text-sky-500"
+                    >
+                      {m.from.name}
+                    </Link>
+                    <span aria-hidden>→</span>
+                    <Link
+                      href={stationPath(lang, m.to.id, systemId)}
+                      className="text-sky-500"
+                    >
+                      {m.to.name}
+                    </Link>
+                    <span className="text-slate-400">
+                      ({formatDistance(lang, m.distance)})
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+
+          <section className="card p-4 space-y-3">
+            <h2 className="text-lg font-semibold">{t.stations}</h2>
+            {data.stations.length === 0 ? (
+              <p className="text-sm text-slate-400">{t.balanced}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-xs text-slate-400">
+                    <tr>
+                      <th className="py-1 pr-3 font-normal">{t.station}</th>
+                      <th className="py-1 pr-3 font-normal">{t.state}</th>
+                      <th className="py-1 pr-3 font-normal text-right">
+                        {t.bikes}
+                      </th>
+                      <th className="py-1 pr-3 font-normal text-right">
+                        {t.docks}
+                      </th>
+                      <th className="py-1 pr-3 font-normal text-right">
+                        {t.fill}
+                      </th>
+                      <th className="py-1 font-normal text-right">{t.since}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.stations.map((s) => (
+                      <tr key={s.id} className="border-t border-slate-500/20">
+                        <td className="py-1.5 pr-3">
+                          <Link
+                            href={stationPath(lang, s.id, systemId)}
+                            className="text-sky-500"
+                          >
+                            {s.name}
+                          </Link>
+                        </td>
+                        <td className="py-1.5 pr-3 whitespace-nowrap">
+                          <span
+                            aria-hidden
+                            className="mr-1.5 inline-block h-2 w-2 rounded-full"
+                            style={{ background: LEVEL_COLORS[s.level] }}
+                          />
+                          {t.levels[s.level]}
+                        </td>
+                        <td className="py-1.5 pr-3 text-right">{s.bikes}</td>
+                        <td className="py-1.5 pr-3 text-right">{s.docks}</td>
+                        <td className="py-1.5 pr-3 text-right">
+                          {formatNumber(lang, s.fill, { style: "percent" })}
+                        </td>
+                        <td className="py-1.5 text-right whitespace-nowrap">
+                          {duration(s.since, data.receivedAt)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
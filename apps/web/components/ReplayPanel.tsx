@@ -0,0 +1,128 @@
+"use client";
+
+import { REPLAY_SPEEDS } from "@/hooks/useReplay";
+import type { Replay } from "@/hooks/useReplay";
+import { INTL_LOCALES, getMessages } from "@/i18n";
+import type { Locale } from "@/i18n";
+
+/** Valeur d'un `<input type="datetime-local">` (heure locale, à la minute) */
+function toLocalInput(t: number) {
+  const d = new Date(t);
+  return new Date(t - d.getTimezoneOffset() * 60_000)
+    .toISOString()
+    .slice(0, 16);
+}
+
+/**
+ * Contrôles du rejeu : bascule direct / historique, lecture, vitesse,
+ * curseur temporel et saut à une date précise.
+ */
+export default function ReplayPanel({
+  lang,
+  active,
+  toggle,
+  at,
+  seek,
+  frame,
+  playing,
+  play,
+  speed,
+  setSpeed,
+  loading,
+  error,
+  empty,
+}: { lang: Locale } & Replay) {
+  const t = getMessages(lang).replay;
+  const value =
+    frame && at !== null ? Math.min(Math.max(at, frame.from), frame.to) : 0;
+
+  return (
+    <div className="card p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">{t.title}</h2>
+        <button
+          type="button"
+          onClick={toggle}
+          aria-pressed={active}
+          className="input text-sm cursor-pointer"
+        >
+          {active ? t.stop : t.start}
+        </button>
+      </div>
+
+      {!active && <p className="text-sm text-slate-400">{t.hint}</p>}
+      {active && empty && <p className="text-sm text-slate-400">{t.empty}</p>}
+      {active && error && <p className="text-sm text-rose-400">{error}</p>}
+
+      {active && frame && (
+        <>
+          <input
+            type="range"
+            min={frame.from}
+            max={frame.to}
+            step={60_000}
+            value={value}
+            onChange={(e) => seek(Number(e.target.value))}
+            className="w-full accent-sky-500"
+            aria-label={t.slider}
+          />
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <button
+              type="button"
+              onClick={play}
+              aria-pressed={playing}
+              className="px-3 py-1.5 rounded-lg cursor-pointer bg-sky-500 text-white"
+            >
+              {playing ? t.pause : t.play}
+            </button>
+
+            <label className="inline-flex items-center gap-2 text-slate-400">
+              {t.speed}
+              <select
+                value={speed}
+                onChange={(e) => setSpeed(Number(e.target.value))}
+                className="input"
+              >
+                {REPLAY_SPEEDS.map((s) => (
+                  <option key={s} value={s}>
+                    {t.perSecond(s / 60)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="inline-flex items-center gap-2 text-slate-400">
+              {t.jump}
+              <input
+                type="datetime-local"
+                min={toLocalInput(frame.from)}
+                max={toLocalInput(frame.to)}
+                value={toLocalInput(value)}
+                onChange={(e) => {
+                  const time = new Date(e.target.value).getTime();
+                  if (!Number.isNaN(time)) seek(time);
+                }}
+                className="input"
+              />
+            </label>
+
+            <span className="text-xs text-slate-400">
+              {t.frame}{" "}
+              <span className="text-slate-600 dark:text-slate-300">
+                {new Date(frame.at).toLocaleString(INTL_LOCALES[lang], {
+                  weekday: "short",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                  day: "2-digit",
+                  month: "short",
+                })}
+              </span>
+              {loading && ` • ${t.loading}`}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
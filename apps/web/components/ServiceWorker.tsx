@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect } from "react";
+
+export const SW_URL = "/sw.js";
+
+/**
+ * Enregistre le service worker dès le chargement (app installable, données
+ * hors ligne). À la première visite la page n'est pas encore contrôlée : on
+ * lui transmet ce qu'elle a déjà chargé pour le garder hors ligne.
+ */
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    const controlled = navigator.serviceWorker.controller !== null;
+
+    navigator.serviceWorker
+      .register(SW_URL)
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        if (controlled) return;
+        registration.active?.postMessage({
+          type: "warm",
+          page: location.href,
+          urls: performance
+            .getEntriesByType("resource")
+            .map((entry) => entry.name),
+        });
+      })
+      .catch(() => {});
+  }, []);
+
+  return null;
+}
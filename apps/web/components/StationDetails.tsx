@@ -0,0 +1,230 @@
+import { cache } from "react";
+import Link from "next/link";
+import type { Metadata } from "next";
+import type { Station } from "@vlille/contracts";
+import type { NearbyStation } from "@/hooks/useNearestStations";
+import HistoryChart from "@/components/HistoryChart";
+import type { HistoryPoint } from "@/components/HistoryChart";
+import LiveRefresh from "@/components/LiveRefresh";
+import StationMiniMap from "@/components/StationMiniMap";
+import { stationPath } from "@/components/stationLinks";
+import {
+  LOCALES,
+  OG_LOCALES,
+  formatDistance,
+  formatTime,
+  getMessages,
+  plural,
+} from "@/i18n";
+import type { Locale } from "@/i18n";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL;
+/** Fuseau d'affichage des heures (rendu serveur : pas celui du navigateur) */
+const TIME_ZONE = process.env.NEXT_PUBLIC_TIME_ZONE ?? "Europe/Paris";
+
+const ID = /^[\w-]+$/;
+const SYSTEM = /^[a-z0-9_-]+$/i;
+const HISTORY_MS = 24 * 60 * 60_000;
+const ALTERNATIVES = 3;
+
+export type StationDetailsData = {
+  station: Station;
+  history: HistoryPoint[];
+  alternatives: NearbyStation[];
+};
+
+async function getJson<T>(path: string): Promise<T | null> {
+  const res = await fetch(`${API_URL}${path}`, { cache: "no-store" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Upstream error (${res.status})`);
+  return res.json();
+}
+
+/**
+ * Station, historique des dernières 24 h (pas de 15 min) et stations proches
+ * avec des vélos. Null si la station (ou le réseau) n'existe pas. Mis en cache
+ * le temps d'une requête : partagé par la page et ses métadonnées.
+ */
+export const loadStationDetails = cache(
+  async (id: string, system?: string): Promise<StationDetailsData | null> => {
+    if (!ID.test(id) || (system && !SYSTEM.test(system))) return null;
+    const base = system ? `/systems/${system}` : "";
+
+    const station = await getJson<Station>(`${base}/stations/${id}`);
+    if (!station) return null;
+
+    const history = new URLSearchParams({
+      from: String(Date.now() - HISTORY_MS),
+      step: "15m",
+    });
+    const near = new URLSearchParams({
+      near: `${station.lat},${station.lon}`,
+      mode: "bike",
+      count: String(ALTERNATIVES + 1),
+    });
+    const [recorded, nearby] = await Promise.all([
+      getJson<{ points: HistoryPoint[] }>(
+        `${base}/stations/${id}/history?${history}`
+      ).catch(() => null),
+      getJson<NearbyStation[]>(`${base}/stations/nearest?${near}`).catch(
+        () => null
+      ),
+    ]);
+
+    return {
+      station,
+      history: recorded?.points ?? [],
+      alternatives: (nearby ?? [])
+        .filter((s) => s.id !== station.id)
+        .slice(0, ALTERNATIVES),
+    };
+  }
+);
+
+/** Métadonnées (titre, Open Graph) d'une page station, pour l'aperçu des liens partagés */
+export function stationMetadata(
+  lang: Locale,
+  data: StationDetailsData | null,
+  system?: string
+): Metadata {
+  const { meta, station: t, units } = getMessages(lang);
+  if (!data) return { title: meta.site };
+
+  const { station } = data;
+  const title = `${station.name} — ${meta.site}`;
+  const summary = t.summary(
+    plural(lang, station.bikes, units.bikes),
+    plural(lang, station.docks, t.freeDocks)
+  );
+  const description = [summary, station.address].filter(Boolean).join(" • ");
+  const url = stationPath(lang, station.id, system);
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: url,
+      languages: Object.fromEntries(
+        LOCALES.map((l) => [l, stationPath(l, station.id, system)])
+      ),
+    },
+    openGraph: {
+      type: "website",
+      siteName: meta.site,
+      title: station.name,
+      description,
+      url,
+      locale: OG_LOCALES[lang],
+    },
+    twitter: { card: "summary", title: station.name, description },
+  };
+}
+
+function statusText(s: Station, lang: Locale) {
+  const t = getMessages(lang).station;
+  if (!s.isInstalled) return t.closed;
+  if (!s.isRenting) return t.notRenting;
+  if (!s.isReturning) return t.notReturning;
+  return null;
+}
+
+/** Fiche d'une station (rendu serveur, rafraîchie chaque minute) */
+export default function StationDetails({
+  lang,
+  data,
+  system,
+}: {
+  lang: Locale;
+  data: StationDetailsData;
+  system?: string;
+}) {
+  const t = getMessages(lang).station;
+  const { station, history, alternatives } = data;
+  const status = statusText(station, lang);
+  const reported = station.lastReported
+    ? formatTime(lang, station.lastReported, TIME_ZONE)
+    : null;
+
+  return (
+    <main className="page-shell space-y-6">
+      <LiveRefresh />
+
+      <Link href={`/${lang}`} className="text-sm text-sky-500">
+        {t.back}
+      </Link>
+
+      <section className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight">{station.name}</h1>
+        {station.address && <p className="text-slate-400">{station.address}</p>}
+        {status && <p className="font-semibold">{status}</p>}
+      </section>
+
+      <section className="grid gap-3 md:grid-cols-3">
+        <div className="card p-4">
+          <div className="text-xs text-slate-400">{t.bikes}</div>
+          <div className="text-2xl font-semibold">{station.bikes}</div>
+          {(station.ebikes !== undefined ||
+            station.mechanical !== undefined) && (
+            <div className="text-xs text-slate-400">
+              ⚡ {station.ebikes ?? 0} {t.ebikes} • 🔧 {station.mechanical ?? 0}{" "}
+              {t.mechanical}
+            </div>
+          )}
+        </div>
+        <div className="card p-4">
+          <div className="text-xs text-slate-400">{t.docks}</div>
+          <div className="text-2xl font-semibold">{station.docks}</div>
+        </div>
+        <div className="card p-4">
+          <div className="text-xs text-slate-400">{t.capacity}</div>
+          <div className="text-2xl font-semibold">
+            {station.capacity ?? "—"}
+          </div>
+          {reported && (
+            <div className="text-xs text-slate-400">
+              {t.reported} {reported}
+            </div>
+          )}
+        </div>
+      </section>
+
+      <StationMiniMap lang={lang} stations={[station, ...alternatives]} />
+
+      <section className="card p-4 space-y-3">
+        <h2 className="text-lg font-semibold">{t.history}</h2>
+        {history.length < 2 ? (
+          <p className="text-sm text-slate-400">{t.noHistory}</p>
+        ) : (
+          <HistoryChart lang={lang} points={history} timeZone={TIME_ZONE} />
+        )}
+      </section>
+
+      <section className="card p-4 space-y-3">
+        <h2 className="text-lg font-semibold">{t.alternatives}</h2>
+        {alternatives.length === 0 ? (
+          <p className="text-sm text-slate-400">{t.noAlternatives}</p>
+        ) : (
+          <ul className="space-y-2">
+            {alternatives.map((s) => (
+              <li key={s.id} className="flex items-center gap-3 text-sm">
+                <Link
+                  href={stationPath(lang, s.id, system)}
+                  className="min-w-0 flex-1 truncate text-sky-500"
+                >
+                  {s.name}
+                </Link>
+                <span className="shrink-0 text-slate-400">
+                  {formatDistance(lang, s.distance)} • {s.walkMinutes} min{" "}
+                  {t.walk}
+                </span>
+                <span className="shrink-0 font-semibold">
+                  🚲 {s.bikes} • 🅿️ {s.docks}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </main>
+  );
+}
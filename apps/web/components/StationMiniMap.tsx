@@ -0,0 +1,22 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import type { Station } from "@vlille/contracts";
+import type { Locale } from "@/i18n";
+
+// Leaflet touche `window` dès l'import : pas de rendu serveur
+const StationsMap = dynamic(() => import("@/components/StationsMap"), {
+  ssr: false,
+  loading: () => <div className="card" style={{ height: 280 }} />,
+});
+
+/** Carte réduite : la station et ses alternatives proches */
+export default function StationMiniMap({
+  lang,
+  stations,
+}: {
+  lang: Locale;
+  stations: Station[];
+}) {
+  return <StationsMap stations={stations} height={280} lang={lang} />;
+}
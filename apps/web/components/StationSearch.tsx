@@ -0,0 +1,123 @@
+"use client";
+
+import { useId, useState } from "react";
+import type { KeyboardEvent } from "react";
+import type { Station } from "@vlille/contracts";
+import { useStationSearch } from "@/hooks/useStationSearch";
+import { getMessages, plural } from "@/i18n";
+import type { Locale } from "@/i18n";
+
+/**
+ * Recherche de station (combobox) : approximative côté API, navigation au
+ * clavier (↑ ↓ Entrée Échap). Choisir un résultat appelle `onSelect`.
+ */
+export default function StationSearch({
+  lang,
+  systemId,
+  onSelect,
+}: {
+  lang: Locale;
+  systemId?: string;
+  onSelect: (station: Station) => void;
+}) {
+  const { search: t, units } = getMessages(lang);
+  const listId = useId();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const { results, loading } = useStationSearch(query, systemId);
+
+  const shown = open && query.trim() !== "";
+  // l'index peut dépasser une liste plus courte reçue entre-temps
+  const current = Math.min(active, results.length - 1);
+
+  const select = (s: Station) => {
+    setQuery(s.name);
+    setOpen(false);
+    onSelect(s);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setOpen(true);
+      if (results.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((current + step + results.length) % results.length);
+    } else if (e.key === "Enter" && shown && current >= 0) {
+      e.preventDefault();
+      select(results[current]);
+    } else if (e.key === "Escape") {
+      if (open) setOpen(false);
+      else setQuery("");
+    }
+  };
+
+  return (
+    <div className="relative w-full max-w-md">
+      <input
+        type="search"
+        role="combobox"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        placeholder={t.placeholder}
+        aria-label={t.label}
+        aria-expanded={shown}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          shown && current >= 0 ? `${listId}-${current}` : undefined
+        }
+        className="input w-full"
+      />
+
+      {shown && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="card absolute z-[1000] mt-1 w-full overflow-hidden p-1 text-sm shadow-lg"
+        >
+          {results.length === 0 && !loading && (
+            <li className="px-3 py-2 text-slate-400">{t.empty}</li>
+          )}
+          {results.map((s, i) => (
+            <li
+              key={`${s.systemId}:${s.id}`}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === current}
+              // garde le focus dans le champ : le clic aboutit avant onBlur
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(s)}
+              onMouseEnter={() => setActive(i)}
+              className={[
+                "flex cursor-pointer items-center gap-3 rounded-lg px-3 py-2",
+                i === current ? "bg-sky-500/15" : "",
+              ].join(" ")}
+            >
+              <span className="min-w-0 flex-1">
+                <span className="block truncate font-medium">{s.name}</span>
+                {s.address && (
+                  <span className="block truncate text-xs text-slate-400">
+                    {s.address}
+                  </span>
+                )}
+              </span>
+              <span className="shrink-0 text-xs text-slate-400">
+                🚲 {plural(lang, s.bikes, units.bikes)} • 🅿️{" "}
+                {plural(lang, s.docks, units.docks)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
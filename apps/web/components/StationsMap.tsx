@@ -1,40 +1,186 @@
 "use client";
 
-import { MapContainer, TileLayer, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, useMap, useMapEvents } from "react-leaflet";
 import L from "leaflet";
-import { useEffect, useRef } from "react";
-
-export type Station = {
-  id: string;
-  name?: string;
-  lat?: number;
-  lon?: number;
-  bikes?: number;
-  docks?: number;
-  address?: string;
+import { useEffect, useRef, useState } from "react";
+import type { Station } from "@vlille/contracts";
+import type { LatLon, NearbyStation } from "@/hooks/useNearestStations";
+import type { StationPressure } from "@/hooks/usePressure";
+import type { Place, TripPlan } from "@/hooks/useTripPlan";
+import {
+  HEAT_GRADIENTS,
+  HEAT_SATURATION,
+  MAP_LAYERS,
+  PRESSURE_COLORS,
+  type MapLayer,
+} from "./mapLayers";
+import {
+  DEFAULT_THEME,
+  levelOf,
+  modeValue,
+  stationLevel,
+  usableCounts,
+  type MapTheme,
+  type MarkerMode,
+} from "./mapTheme";
+import { stationPath } from "./stationLinks";
+import {
+  DEFAULT_LOCALE,
+  formatDistance,
+  formatTime,
+  getMessages,
+  plural,
+} from "@/i18n";
+import type { Locale } from "@/i18n";
+
+/** Marker portant les vélos / places utilisables (agrégés par les clusters) */
+type StationMarker = L.Marker & {
+  options: L.MarkerOptions & { bikes?: number; docks?: number };
 };
 
-type MarkerWithBikes = L.Marker & {
-  options: L.MarkerOptions & { bikes?: number };
+type Band = { expected: number; low: number; high: number };
+
+type Forecast = {
+  horizonMin: number;
+  bikes: Band;
+  docks: Band;
 };
 
+/** Horizon de la prévision affichée dans les popups */
+const FORECAST_MINUTES = 20;
+
 /* ---------- Utils ---------- */
-function iconFor(bikes = 0) {
-  const color = bikes === 0 ? "#ef4444" : bikes <= 3 ? "#f59e0b" : "#22c55e";
+
+function iconFor(s: Station, mode: MarkerMode, theme: MapTheme) {
+  const level = stationLevel(s, mode, theme);
+  const closed = level === "closed";
+  const color = theme.colors[level];
+  // le badge ⚡ ne concerne que l'emprunt
+  const badge =
+    !closed && mode !== "docks" && s.ebikes ? `<i>⚡${s.ebikes}</i>` : "";
   return L.divIcon({
-    className: "vlille-marker",
-    html: `<span style="--dot:${color}"></span>`,
+    className: closed ? "vlille-marker vlille-marker--closed" : "vlille-marker",
+    html: `<span style="--dot:${color}"></span>${badge}`,
     iconSize: [24, 24],
     iconAnchor: [12, 12],
     popupAnchor: [0, -12],
   });
 }
 
+async function fetchForecast(s: Station, minutes: number): Promise<Forecast> {
+  const params = new URLSearchParams({
+    at: new Date(Date.now() + minutes * 60_000).toISOString(),
+  });
+  if (s.systemId) params.set("system", s.systemId);
+  const res = await fetch(
+    `/api/stations/${encodeURIComponent(s.id)}/forecast?${params}`,
+    { cache: "no-store" }
+  );
+  if (!res.ok) throw new Error("Failed to fetch forecast");
+  return res.json();
+}
+
+function forecastText({ bikes, horizonMin }: Forecast, lang: Locale) {
+  const { map: t, units } = getMessages(lang);
+  // l'accord suit la borne haute : "1–2 vélos"
+  const high = plural(lang, bikes.high, units.bikes);
+  const range = bikes.low === bikes.high ? high : `${bikes.low}–${high}`;
+  return `${t.forecast(range)} ${t.forecastIn(horizonMin)}`;
+}
+
+function statusHtml(s: Station, lang: Locale) {
+  const t = getMessages(lang).map;
+  if (!s.isInstalled) return t.closed;
+  if (!s.isRenting) return t.notRenting;
+  if (!s.isReturning) return t.notReturning;
+  return "";
+}
+
+function bikesHtml(s: Station) {
+  const split =
+    s.ebikes !== undefined || s.mechanical !== undefined
+      ? ` (⚡ ${s.ebikes ?? 0} • 🔧 ${s.mechanical ?? 0})`
+      : "";
+  const capacity = s.capacity ? ` / ${s.capacity}` : "";
+  return `🚲 ${s.bikes}${split} • 🅿️ ${s.docks}${capacity}`;
+}
+
+const stationKey = (s: Station) => `${s.systemId}:${s.id}`;
+
+function favTitle(favorite: boolean, lang: Locale) {
+  const t = getMessages(lang).map;
+  return favorite ? t.removeFavorite : t.addFavorite;
+}
+
+function favButtonHtml(s: Station, favorite: boolean, lang: Locale) {
+  return `<button type="button" class="vlille-fav" data-key="${stationKey(s)}"
+    aria-pressed="${favorite}" title="${favTitle(favorite, lang)}">${favorite ? "★" : "☆"}</button>`;
+}
+
+/** Met à jour les étoiles des popups ouvertes (l'état change hors du marker) */
+function syncFavButtons(
+  root: HTMLElement,
+  favorites: Set<string>,
+  lang: Locale
+) {
+  root.querySelectorAll<HTMLButtonElement>(".vlille-fav").forEach((btn) => {
+    const favorite = favorites.has(btn.dataset.key ?? "");
+    btn.textContent = favorite ? "★" : "☆";
+    btn.setAttribute("aria-pressed", String(favorite));
+    btn.title = favTitle(favorite, lang);
+  });
+}
+
+/** Boutons d'action de la popup (absents si non renseignés) */
+type PopupActions = { favorite?: boolean; alert?: boolean; lang?: Locale };
+
+function popupHtml(
+  s: Station,
+  { favorite, alert, lang = DEFAULT_LOCALE }: PopupActions = {}
+) {
+  const t = getMessages(lang).map;
+  const status = statusHtml(s, lang);
+  const reported = s.lastReported ? formatTime(lang, s.lastReported) : null;
+
+  return `<div style="min-width:200px">
+    <div style="display:flex;align-items:flex-start;gap:6px">
+      <strong style="flex:1">${s.name}</strong>
+      ${alert ? `<button type="button" class="vlille-alert" data-key="${stationKey(s)}" title="${t.alert}">🔔</button>` : ""}
+      ${favorite === undefined ? "" : favButtonHtml(s, favorite, lang)}
+    </div>
+    <div style="font-size:12px;opacity:.8">
+      ${s.address ?? "—"}
+    </div>
+    ${status ? `<div style="margin-top:6px;font-weight:600">${status}</div>` : ""}
+    <div style="margin-top:6px">
+      ${bikesHtml(s)}
+    </div>
+    ${reported ? `<div style="font-size:11px;opacity:.6">${t.reported} ${reported}</div>` : ""}
+    <div class="vlille-forecast" style="margin-top:4px;font-size:12px;opacity:.8">
+      ${t.forecasting}
+    </div>
+    <a href="${stationPath(lang, s.id, s.systemId)}" style="display:inline-block;margin-top:6px;font-size:12px">
+      ${t.details}
+    </a>
+  </div>`;
+}
+
 /* ---------- Classe contrôle (déclarée au niveau module) ---------- */
+type LocateControlOptions = L.ControlOptions & {
+  title: string;
+  onLocate?: (pos: LatLon) => void;
+};
+
 class LocateControlClass extends L.Control {
+  declare options: LocateControlOptions;
+
+  constructor(options: LocateControlOptions) {
+    super(options);
+  }
+
   onAdd(m: L.Map) {
     const btn = L.DomUtil.create("button", "leaflet-bar vlille-locate-btn");
-    btn.title = "Me centrer";
+    btn.title = this.options.title;
     btn.innerHTML = "📍";
     btn.setAttribute("type", "button");
 
@@ -56,6 +202,7 @@ class LocateControlClass extends L.Control {
             fillColor: "#38bdf8",
             fillOpacity: 0.15,
           }).addTo(m);
+          this.options.onLocate?.({ lat: latlng[0], lon: latlng[1] });
         },
         () => {},
         { enableHighAccuracy: true, timeout: 6000 }
@@ -73,10 +220,18 @@ class LocateControlClass extends L.Control {
 function FitToStations({ stations }: { stations: Station[] }) {
   const map = useMap();
 
+  // Les patchs temps réel ne doivent pas recadrer la carte : on ne recadre
+  // que si l'ensemble des stations affichées change
+  const idsKey = stations.map((s) => s.id).join(",");
+  const stationsRef = useRef(stations);
+  useEffect(() => {
+    stationsRef.current = stations;
+  }, [stations]);
+
   useEffect(() => {
-    const pts = stations
-      .filter((s) => typeof s.lat === "number" && typeof s.lon === "number")
-      .map((s) => [s.lat as number, s.lon as number] as [number, number]);
+    const pts = stationsRef.current.map(
+      (s) => [s.lat, s.lon] as [number, number]
+    );
 
     if (pts.length === 0) return;
     if (pts.length === 1) {
@@ -86,35 +241,359 @@ function FitToStations({ stations }: { stations: Station[] }) {
 
     const bounds = L.latLngBounds(pts);
     map.fitBounds(bounds, { padding: [40, 40] });
-  }, [stations, map]);
+  }, [idsKey, map]);
 
   return null;
 }
 
 /** Contrôle Leaflet avec un bouton “📍 Me centrer” (géoloc navigateur) */
-function LocateControl() {
+function LocateControl({
+  onLocate,
+  lang,
+}: {
+  onLocate?: (pos: LatLon) => void;
+  lang: Locale;
+}) {
   const map = useMap();
+  const onLocateRef = useRef(onLocate);
+
+  useEffect(() => {
+    onLocateRef.current = onLocate;
+  }, [onLocate]);
 
   useEffect(() => {
-    const locate = new LocateControlClass({ position: "topright" });
+    const locate = new LocateControlClass({
+      position: "topright",
+      title: getMessages(lang).map.locate,
+      onLocate: (pos) => onLocateRef.current?.(pos),
+    });
     locate.addTo(map);
 
     // ⬇️ IMPORTANT: retourner une fonction qui ne renvoie rien
     return () => {
       locate.remove(); // ou: map.removeControl(locate);
     };
-  }, [map]);
+  }, [map, lang]);
+
+  return null;
+}
+
+/** Stations proches mises en avant (numérotées, au-dessus des clusters) */
+function NearbyLayer({
+  stations,
+  origin,
+  lang,
+}: {
+  stations: NearbyStation[];
+  origin?: LatLon | null;
+  lang: Locale;
+}) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (stations.length === 0) return;
+    const t = getMessages(lang).map;
+    const layer = L.layerGroup();
+
+    stations.forEach((s, i) => {
+      L.marker([s.lat, s.lon], {
+        icon: L.divIcon({
+          className: "vlille-nearby",
+          html: `<span>${i + 1}</span>`,
+          iconSize: [26, 26],
+          iconAnchor: [13, 13],
+        }),
+        zIndexOffset: 1000,
+      })
+        .bindTooltip(
+          `${s.name} — ${formatDistance(lang, s.distance)} • ${s.walkMinutes} min ${t.walk}`
+        )
+        .addTo(layer);
+    });
+
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, stations, lang]);
+
+  // Recadrage seulement quand la sélection change (pas à chaque rafraîchissement)
+  const idsKey = stations.map((s) => s.id).join(",");
+  const fitRef = useRef({ stations, origin });
+  useEffect(() => {
+    fitRef.current = { stations, origin };
+  }, [stations, origin]);
+
+  useEffect(() => {
+    const { stations: list, origin: from } = fitRef.current;
+    if (list.length === 0) return;
+    const pts: [number, number][] = list.map((s) => [s.lat, s.lon]);
+    if (from) pts.push([from.lat, from.lon]);
+    map.fitBounds(L.latLngBounds(pts), { padding: [60, 60], maxZoom: 17 });
+  }, [idsKey, map]);
 
   return null;
 }
 
-/** Groupe de clusters avec pastille colorée selon le TOTAL de vélos du cluster */
-function ClusteredMarkers({ stations }: { stations: Station[] }) {
+/** Clic sur la carte → position (choix du départ / de l'arrivée) */
+function MapClickHandler({
+  onMapClick,
+  picking,
+}: {
+  onMapClick?: (pos: LatLon) => void;
+  picking: boolean;
+}) {
+  const map = useMapEvents({
+    click: (e) => onMapClick?.({ lat: e.latlng.lat, lon: e.latlng.lng }),
+  });
+
+  useEffect(() => {
+    const el = map.getContainer();
+    el.style.cursor = picking ? "crosshair" : "";
+    return () => {
+      el.style.cursor = "";
+    };
+  }, [map, picking]);
+
+  return null;
+}
+
+export type TripOverlay = {
+  origin: Place | null;
+  destination: Place | null;
+  plan: TripPlan | null;
+};
+
+/** Trajet : marche (pointillés) → vélo (trait plein) → marche */
+function TripLayer({
+  origin,
+  destination,
+  plan,
+  lang,
+}: TripOverlay & { lang: Locale }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const t = getMessages(lang).map;
+    const layer = L.layerGroup();
+    const pin = (p: Place, label: string) =>
+      L.marker([p.lat, p.lon], {
+        icon: L.divIcon({
+          className: "vlille-trip-pin",
+          html: `<span>${label}</span>`,
+          iconSize: [26, 26],
+          iconAnchor: [13, 13],
+        }),
+        zIndexOffset: 1100,
+      })
+        .bindTooltip(p.label ?? (label === "A" ? t.origin : t.destination))
+        .addTo(layer);
+
+    if (origin) pin(origin, "A");
+    if (destination) pin(destination, "B");
+
+    if (plan && origin && destination) {
+      const p = plan.pickup.station;
+      const d = plan.dropoff.station;
+      const walk = { color: "#64748b", weight: 4, dashArray: "6 8" };
+      L.polyline(
+        [
+          [origin.lat, origin.lon],
+          [p.lat, p.lon],
+        ],
+        walk
+      ).addTo(layer);
+      L.polyline(
+        [
+          [p.lat, p.lon],
+          [d.lat, d.lon],
+        ],
+        { color: "#0ea5e9", weight: 5 }
+      )
+        .bindTooltip(`${plan.ride.minutes} min ${t.ride}`)
+        .addTo(layer);
+      L.polyline(
+        [
+          [d.lat, d.lon],
+          [destination.lat, destination.lon],
+        ],
+        walk
+      ).addTo(layer);
+    }
+
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, origin, destination, plan, lang]);
+
+  // Recadrage quand les extrémités changent, pas à chaque rafraîchissement
+  const endsKey = [origin, destination]
+    .map((p) => (p ? `${p.lat},${p.lon}` : ""))
+    .join(";");
+  const fitRef = useRef({ origin, destination });
+  useEffect(() => {
+    fitRef.current = { origin, destination };
+  }, [origin, destination]);
+
+  useEffect(() => {
+    const { origin: a, destination: b } = fitRef.current;
+    if (!a || !b) return;
+    map.fitBounds(
+      L.latLngBounds([
+        [a.lat, a.lon],
+        [b.lat, b.lon],
+      ]),
+      { padding: [80, 80], maxZoom: 16 }
+    );
+  }, [endsKey, map]);
+
+  return null;
+}
+
+/** Icône de cluster : couronne vélos / places, pastille selon le cumul du mode */
+function clusterIcon(
+  markers: StationMarker[],
+  mode: MarkerMode,
+  theme: MapTheme
+) {
+  let bikes = 0;
+  let docks = 0;
+  for (const m of markers) {
+    bikes += m.options.bikes ?? 0;
+    docks += m.options.docks ?? 0;
+  }
+  const value = modeValue(bikes, docks, mode);
+  const color = theme.colors[levelOf(value, theme.thresholds.cluster[mode])];
+  const share = bikes + docks > 0 ? (bikes / (bikes + docks)) * 100 : 0;
+  const label = mode === "fill" ? `${Math.round(value * 100)}%` : value;
+
+  return L.divIcon({
+    html: `<div class="vlille-cluster" style="--c:${color};--bikes:${theme.donut.bikes};--docks:${theme.donut.docks};--share:${share}%"
+             title="🚲 ${bikes} • 🅿️ ${docks}">
+             <span>${label}</span>
+           </div>`,
+    className: "vlille-cluster-wrapper",
+    iconSize: [42, 42],
+  });
+}
+
+/** Station à montrer (résultat de recherche) ; `nonce` permet de la rechoisir */
+export type MapFocus = { station: Station; nonce: number };
+
+const FOCUS_ZOOM = 17;
+
+/** Vole jusqu'au marker, le sort de son cluster et ouvre sa popup */
+function showMarker(map: L.Map, group: L.MarkerClusterGroup, marker: L.Marker) {
+  map.once("moveend", () =>
+    group.zoomToShowLayer(marker, () => marker.openPopup())
+  );
+  map.flyTo(marker.getLatLng(), Math.max(map.getZoom(), FOCUS_ZOOM));
+}
+
+/** Groupe de clusters : couronne vélos / places et pastille selon le mode de couleur */
+function ClusteredMarkers({
+  stations,
+  favorites,
+  onToggleFavorite,
+  onAlert,
+  mode,
+  theme,
+  lang,
+  focus,
+}: {
+  stations: Station[];
+  /** clés `${systemId}:${id}` des stations favorites */
+  favorites?: Set<string>;
+  onToggleFavorite?: (s: Station) => void;
+  onAlert?: (s: Station) => void;
+  mode: MarkerMode;
+  theme: MapTheme;
+  lang: Locale;
+  focus?: MapFocus | null;
+}) {
   const map = useMap();
   const clusterRef = useRef<L.MarkerClusterGroup | null>(null);
+  const markersRef = useRef(
+    new Map<string, { station: Station; marker: StationMarker }>()
+  );
+  // lu par iconCreateFunction (le groupe est créé une seule fois)
+  const styleRef = useRef({ mode, theme });
+  const actionsRef = useRef({ favorites, onToggleFavorite, onAlert, lang });
+  useEffect(() => {
+    actionsRef.current = { favorites, onToggleFavorite, onAlert, lang };
+    syncFavButtons(map.getContainer(), favorites ?? new Set(), lang);
+  }, [map, favorites, onToggleFavorite, onAlert, lang]);
+
+  // Changement de mode ou de thème : toutes les icônes sont recalculées
+  useEffect(() => {
+    const prev = styleRef.current;
+    if (prev.mode === mode && prev.theme === theme) return;
+    styleRef.current = { mode, theme };
+    for (const { station, marker } of markersRef.current.values()) {
+      marker.setIcon(iconFor(station, mode, theme));
+    }
+    clusterRef.current?.refreshClusters();
+  }, [mode, theme]);
+
+  // Station à montrer : en attente tant que le groupe ou son marker n'existe pas
+  const focusRef = useRef<MapFocus | null>(null);
+  const applyFocus = useRef(() => {
+    const group = clusterRef.current;
+    const pending = focusRef.current;
+    if (!group || !pending) return;
+    focusRef.current = null;
+    const entry = markersRef.current.get(stationKey(pending.station));
+    if (entry) {
+      showMarker(map, group, entry.marker);
+    } else {
+      // station masquée par les filtres : on centre quand même la carte
+      const { lat, lon } = pending.station;
+      map.flyTo([lat, lon], Math.max(map.getZoom(), FOCUS_ZOOM));
+    }
+  });
+  useEffect(() => {
+    if (!focus) return;
+    focusRef.current = focus;
+    applyFocus.current();
+  }, [focus]);
+
+  // Clic sur un bouton d'une popup (délégué : le contenu est régénéré à chaque mise à jour)
+  useEffect(() => {
+    const el = map.getContainer();
+    const onClick = (e: MouseEvent) => {
+      const btn = (e.target as HTMLElement).closest<HTMLElement>(
+        ".vlille-fav, .vlille-alert"
+      );
+      const entry = btn && markersRef.current.get(btn.dataset.key ?? "");
+      if (!entry) return;
+      e.stopPropagation();
+      const actions = actionsRef.current;
+      if (btn.classList.contains("vlille-alert")) {
+        actions.onAlert?.(entry.station);
+      } else {
+        actions.onToggleFavorite?.(entry.station);
+      }
+    };
+    el.addEventListener("click", onClick, true);
+    return () => el.removeEventListener("click", onClick, true);
+  }, [map]);
 
   useEffect(() => {
     let cancelled = false;
+    const popupFor = (s: Station) => {
+      const {
+        favorites: favs,
+        onToggleFavorite: toggle,
+        onAlert: alert,
+        lang: popupLang,
+      } = actionsRef.current;
+      return popupHtml(s, {
+        favorite: toggle ? (favs?.has(stationKey(s)) ?? false) : undefined,
+        alert: !!alert,
+        lang: popupLang,
+      });
+    };
 
     (async () => {
       // 1) Charger les libs + créer le groupe une seule fois
@@ -126,25 +605,12 @@ function ClusteredMarkers({ stations }: { stations: Station[] }) {
 
         clusterRef.current = L.markerClusterGroup({
           chunkedLoading: true,
-          iconCreateFunction: (cluster) => {
-            const total = cluster
-              .getAllChildMarkers()
-              .reduce(
-                (acc, m) => acc + ((m as MarkerWithBikes).options.bikes ?? 0),
-                0
-              );
-
-            const color =
-              total === 0 ? "#ef4444" : total <= 10 ? "#f59e0b" : "#22c55e";
-
-            return L.divIcon({
-              html: `<div class="vlille-cluster" style="--c:${color}">
-                       <span>${total}</span>
-                     </div>`,
-              className: "vlille-cluster-wrapper",
-              iconSize: [42, 42],
-            });
-          },
+          iconCreateFunction: (cluster) =>
+            clusterIcon(
+              cluster.getAllChildMarkers() as StationMarker[],
+              styleRef.current.mode,
+              styleRef.current.theme
+            ),
         });
 
         map.addLayer(clusterRef.current);
@@ -154,34 +620,72 @@ function ClusteredMarkers({ stations }: { stations: Station[] }) {
       const group = clusterRef.current;
       if (!group) return;
 
-      // 2) Mettre à jour les markers à chaque changement de `stations`
-      group.clearLayers();
-
-      const markers: L.Marker[] = stations
-        .filter((s) => typeof s.lat === "number" && typeof s.lon === "number")
-        .map((s) => {
-          const m = L.marker([s.lat as number, s.lon as number], {
-            icon: iconFor(s.bikes),
-          }) as MarkerWithBikes;
-
-          m.options.bikes = s.bikes ?? 0;
-
-          m.bindPopup(
-            `<div style="min-width:200px">
-              <strong>${s.name ?? "Station"}</strong>
-              <div style="font-size:12px;opacity:.8">
-                ${s.address ?? "—"}
-              </div>
-              <div style="margin-top:6px">
-                🚲 ${s.bikes ?? 0} • 🅿️ ${s.docks ?? 0}
-              </div>
-            </div>`
-          );
-
-          return m;
+      // 2) Patcher les markers : seules les stations modifiées sont touchées
+      const known = markersRef.current;
+      const style = styleRef.current;
+      const seen = new Set<string>();
+      const added: L.Marker[] = [];
+      const updated: L.Marker[] = [];
+
+      for (const s of stations) {
+        // les identifiants ne sont uniques qu'au sein d'un même réseau
+        const key = stationKey(s);
+        seen.add(key);
+
+        const entry = known.get(key);
+        if (entry?.station === s) continue;
+
+        if (entry) {
+          entry.marker.setLatLng([s.lat, s.lon]);
+          entry.marker.setIcon(iconFor(s, style.mode, style.theme));
+          entry.marker.setPopupContent(popupFor(s));
+          Object.assign(entry.marker.options, usableCounts(s));
+          entry.station = s;
+          updated.push(entry.marker);
+          continue;
+        }
+
+        const m = L.marker([s.lat, s.lon], {
+          icon: iconFor(s, style.mode, style.theme),
+        }) as StationMarker;
+
+        Object.assign(m.options, usableCounts(s));
+        m.bindPopup(popupFor(s));
+
+        // Prévision chargée à l'ouverture seulement (une requête par popup)
+        m.on("popupopen", (e) => {
+          const root = e.popup.getElement();
+          if (root) {
+            const { favorites: favs, lang: popupLang } = actionsRef.current;
+            syncFavButtons(root, favs ?? new Set(), popupLang);
+          }
+          const el = root?.querySelector(".vlille-forecast");
+          if (!el) return;
+          fetchForecast(s, FORECAST_MINUTES)
+            .then((f) => {
+              el.textContent = `🔮 ${forecastText(f, actionsRef.current.lang)}`;
+            })
+            .catch(() => {
+              el.textContent = "";
+            });
         });
 
-      group.addLayers(markers);
+        known.set(key, { station: s, marker: m });
+        added.push(m);
+      }
+
+      const removed: L.Marker[] = [];
+      for (const [key, entry] of known) {
+        if (seen.has(key)) continue;
+        removed.push(entry.marker);
+        known.delete(key);
+      }
+
+      if (removed.length) group.removeLayers(removed);
+      if (added.length) group.addLayers(added);
+      // les pastilles de cluster dépendent des vélos des markers enfants
+      if (updated.length) group.refreshClusters(updated);
+      applyFocus.current();
     })();
 
     return () => {
@@ -191,10 +695,12 @@ function ClusteredMarkers({ stations }: { stations: Station[] }) {
 
   // Optionnel : cleanup quand le composant est démonté
   useEffect(() => {
+    const markers = markersRef.current;
     return () => {
       if (clusterRef.current) {
         map.removeLayer(clusterRef.current);
         clusterRef.current = null;
+        markers.clear();
       }
     };
   }, [map]);
@@ -202,16 +708,237 @@ function ClusteredMarkers({ stations }: { stations: Station[] }) {
   return null;
 }
 
+/** Sélecteur de couche (contrôle Leaflet natif, une couche à la fois) */
+function LayerControl({
+  layer,
+  onChange,
+  lang,
+}: {
+  layer: MapLayer;
+  onChange: (layer: MapLayer) => void;
+  lang: Locale;
+}) {
+  const map = useMap();
+  // groupes vides : ils ne servent qu'à porter les boutons radio du contrôle
+  const groupsRef = useRef<Record<MapLayer, L.LayerGroup> | null>(null);
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    const groups = Object.fromEntries(
+      MAP_LAYERS.map((k) => [k, L.layerGroup()])
+    ) as Record<MapLayer, L.LayerGroup>;
+    groupsRef.current = groups;
+
+    const control = L.control.layers(
+      Object.fromEntries(
+        MAP_LAYERS.map((k) => [getMessages(lang).layers[k], groups[k]])
+      ),
+      undefined,
+      { position: "topright" }
+    );
+    control.addTo(map);
+
+    const onBaseChange = (e: L.LayersControlEvent) => {
+      const key = MAP_LAYERS.find((k) => groups[k] === e.layer);
+      if (key) onChangeRef.current(key);
+    };
+    map.on("baselayerchange", onBaseChange);
+
+    return () => {
+      map.off("baselayerchange", onBaseChange);
+      control.remove();
+      Object.values(groups).forEach((g) => g.remove());
+      groupsRef.current = null;
+    };
+  }, [map, lang]);
+
+  // le bouton coché suit la couche courante (qui peut venir de la page)
+  useEffect(() => {
+    const groups = groupsRef.current;
+    if (!groups) return;
+    for (const k of MAP_LAYERS) {
+      if (k === layer) groups[k].addTo(map);
+      else groups[k].remove();
+    }
+  }, [map, layer, lang]);
+
+  return null;
+}
+
+/** Intensités de la carte de chaleur : vélos empruntables ou places libres */
+function heatPoints(stations: Station[], kind: "bikes" | "docks") {
+  const points: L.HeatLatLngTuple[] = [];
+  for (const s of stations) {
+    const value = usableCounts(s)[kind];
+    if (value > 0)
+      points.push([s.lat, s.lon, Math.min(1, value / HEAT_SATURATION)]);
+  }
+  return points;
+}
+
+/** Carte de chaleur des vélos ou des places disponibles (`leaflet.heat`) */
+function HeatLayer({
+  stations,
+  kind,
+}: {
+  stations: Station[];
+  kind: "bikes" | "docks";
+}) {
+  const map = useMap();
+  const layerRef = useRef<L.HeatLayer | null>(null);
+  const stationsRef = useRef(stations);
+
+  useEffect(() => {
+    let cancelled = false;
+    let layer: L.HeatLayer | null = null;
+
+    (async () => {
+      await import("leaflet.heat");
+      if (cancelled) return;
+      layer = L.heatLayer(heatPoints(stationsRef.current, kind), {
+        radius: 28,
+        blur: 22,
+        max: 1,
+        minOpacity: 0.25,
+        gradient: HEAT_GRADIENTS[kind],
+      }).addTo(map);
+      layerRef.current = layer;
+    })();
+
+    return () => {
+      cancelled = true;
+      layer?.remove();
+      layerRef.current = null;
+    };
+  }, [map, kind]);
+
+  // mises à jour temps réel : on remplace les points sans recréer la couche
+  useEffect(() => {
+    stationsRef.current = stations;
+    layerRef.current?.setLatLngs(heatPoints(stations, kind));
+  }, [stations, kind]);
+
+  return null;
+}
+
+/**
+ * Stations sous tension : halo rose (se vide) ou violet (se remplit), d'autant
+ * plus large que la station sera vide / pleine tôt.
+ */
+function PressureLayer({
+  stations,
+  pressure,
+  lang,
+}: {
+  stations: Station[];
+  pressure: StationPressure[];
+  lang: Locale;
+}) {
+  const map = useMap();
+
+  useEffect(() => {
+    const { pressure: t, units } = getMessages(lang);
+    const byKey = new Map(stations.map((s) => [stationKey(s), s]));
+    const layer = L.layerGroup();
+
+    for (const p of pressure) {
+      const s = byKey.get(`${p.systemId}:${p.id}`);
+      if (!s) continue;
+      const urgency = 1 - Math.min(p.etaMin, 60) / 60;
+      const emptying = p.trend === "emptying";
+      const eta =
+        p.etaMin === 0
+          ? emptying
+            ? t.empty
+            : t.full
+          : emptying
+            ? t.emptyIn(p.etaMin)
+            : t.fullIn(p.etaMin);
+      const bikes = plural(lang, Math.abs(p.delta), units.bikes);
+      L.circleMarker([s.lat, s.lon], {
+        radius: 14 + 12 * urgency,
+        color: PRESSURE_COLORS[p.trend],
+        weight: 3,
+        fillOpacity: 0.15 + 0.25 * urgency,
+      })
+        .bindTooltip(
+          `${s.name} — ${t[p.trend](bikes)} (${p.perHour}${t.perHour}), ${eta}`
+        )
+        .addTo(layer);
+    }
+
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, stations, pressure, lang]);
+
+  return null;
+}
+
 export default function StationsMap({
   stations,
   className = "",
   height = 520,
+  onLocate,
+  nearby = [],
+  origin,
+  onMapClick,
+  picking = false,
+  trip,
+  favorites,
+  onToggleFavorite,
+  onAlert,
+  layer,
+  onLayerChange,
+  pressure = [],
+  lang = DEFAULT_LOCALE,
+  markerMode = "bikes",
+  theme = DEFAULT_THEME,
+  focus,
 }: {
   stations: Station[];
   className?: string;
   height?: number;
+  /** appelé avec la position obtenue via le bouton “📍 Me centrer” */
+  onLocate?: (pos: LatLon) => void;
+  /** stations à mettre en avant (mode “trouver un vélo / une place”) */
+  nearby?: NearbyStation[];
+  origin?: LatLon | null;
+  /** clic sur la carte (choix d'un point de l'itinéraire) */
+  onMapClick?: (pos: LatLon) => void;
+  /** curseur en croix pendant le choix d'un point */
+  picking?: boolean;
+  trip?: TripOverlay;
+  /** clés `${systemId}:${id}` des favoris (étoile dans les popups) */
+  favorites?: Set<string>;
+  onToggleFavorite?: (s: Station) => void;
+  /** bouton 🔔 dans les popups (alerte de disponibilité) */
+  onAlert?: (s: Station) => void;
+  /** couche affichée (contrôlée par la page pour accorder la légende) */
+  layer?: MapLayer;
+  onLayerChange?: (layer: MapLayer) => void;
+  /** stations sous tension (couche “pression”) */
+  pressure?: StationPressure[];
+  /** langue du sélecteur de couches, des infobulles de pression et des liens */
+  lang?: Locale;
+  /** couleur des marqueurs selon les vélos, les places ou le remplissage */
+  markerMode?: MarkerMode;
+  /** seuils et couleurs (partagés avec la légende) */
+  theme?: MapTheme;
+  /** station à centrer, popup ouverte (choisie dans la recherche) */
+  focus?: MapFocus | null;
 }) {
   const center: [number, number] = [50.6292, 3.0573]; // Lille
+  const [ownLayer, setOwnLayer] = useState<MapLayer>("markers");
+  const current = layer ?? ownLayer;
+  const changeLayer = (next: MapLayer) => {
+    setOwnLayer(next);
+    onLayerChange?.(next);
+  };
 
   return (
     <div
@@ -228,10 +955,38 @@ export default function StationsMap({
           <TileLayer
             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
             attribution="&copy; OpenStreetMap contributors"
+            // tuiles CORS : lisibles par le service worker (cache hors ligne)
+            crossOrigin
           />
           <FitToStations stations={stations} />
-          <LocateControl />
-          <ClusteredMarkers stations={stations} />
+          <LocateControl onLocate={onLocate} lang={lang} />
+          <LayerControl layer={current} onChange={changeLayer} lang={lang} />
+          {(current === "bikes" || current === "docks") && (
+            <HeatLayer stations={stations} kind={current} />
+          )}
+          {current === "pressure" && (
+            <PressureLayer
+              stations={stations}
+              pressure={pressure}
+              lang={lang}
+            />
+          )}
+          {/* les stations restent cliquables sous le halo de pression */}
+          {(current === "markers" || current === "pressure") && (
+            <ClusteredMarkers
+              stations={stations}
+              favorites={favorites}
+              onToggleFavorite={onToggleFavorite}
+              onAlert={onAlert}
+              mode={markerMode}
+              theme={theme}
+              lang={lang}
+              focus={focus}
+            />
+          )}
+          <NearbyLayer stations={nearby} origin={origin} lang={lang} />
+          <MapClickHandler onMapClick={onMapClick} picking={picking} />
+          {trip && <TripLayer {...trip} lang={lang} />}
         </>
       </MapContainer>
     </div>
@@ -0,0 +1,215 @@
+import { formatNumber } from "@/i18n";
+import type { Locale } from "@/i18n";
+
+export type ChartSeries = {
+  label: string;
+  color: string;
+  values: Array<{ t: number; v: number }>;
+};
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD = { top: 8, right: 8, bottom: 20, left: 36 };
+
+function Legend({ series }: { series: ChartSeries[] }) {
+  return (
+    <figcaption className="flex flex-wrap gap-4 text-xs text-slate-400">
+      {series.map((s) => (
+        <span key={s.label} className="inline-flex items-center gap-1.5">
+          <span
+            className="inline-block h-0.5 w-4"
+            style={{ background: s.color }}
+          />
+          {s.label}
+        </span>
+      ))}
+    </figcaption>
+  );
+}
+
+/**
+ * Courbes du réseau sur [from, to] (SVG, même gabarit que HistoryChart).
+ * Graduations tous les `tickMs`, libellées par `formatTick`.
+ */
+export function LineChart({
+  label,
+  series,
+  from,
+  to,
+  max,
+  tickMs,
+  formatTick,
+  formatValue = String,
+}: {
+  label: string;
+  series: ChartSeries[];
+  from: number;
+  to: number;
+  max: number;
+  tickMs: number;
+  formatTick: (t: number) => string;
+  formatValue?: (v: number) => string;
+}) {
+  if (to <= from) return null;
+
+  const x = (time: number) =>
+    PAD.left + ((time - from) / (to - from)) * (WIDTH - PAD.left - PAD.right);
+  const y = (value: number) =>
+    HEIGHT - PAD.bottom - (value / max) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const ticks: number[] = [];
+  for (
+    let tick = Math.ceil(from / tickMs) * tickMs;
+    tick <= to;
+    tick += tickMs
+  ) {
+    ticks.push(tick);
+  }
+
+  return (
+    <figure className="space-y-2">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={label}
+      >
+        {[0, max / 2, max].map((v) => (
+          <g key={v} className="text-slate-500">
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={y(v)}
+              y2={y(v)}
+              stroke="currentColor"
+              strokeOpacity={0.25}
+            />
+            <text
+              x={PAD.left - 4}
+              y={y(v) + 4}
+              textAnchor="end"
+              fontSize={10}
+              fill="currentColor"
+            >
+              {formatValue(v)}
+            </text>
+          </g>
+        ))}
+        {ticks.map((tick) => (
+          <text
+            key={tick}
+            x={x(tick)}
+            y={HEIGHT - 4}
+            textAnchor="middle"
+            fontSize={10}
+            className="fill-slate-500"
+          >
+            {formatTick(tick)}
+          </text>
+        ))}
+        {series.map((s) => (
+          <polyline
+            key={s.label}
+            points={s.values
+              .map((p) => `${x(p.t).toFixed(1)},${y(p.v).toFixed(1)}`)
+              .join(" ")}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+          />
+        ))}
+      </svg>
+      <Legend series={series} />
+    </figure>
+  );
+}
+
+/** Barres des 24 heures de la journée ; les `highlight` plus hautes ressortent */
+export function HourBars({
+  lang,
+  label,
+  values,
+  highlight = 3,
+}: {
+  lang: Locale;
+  label: string;
+  values: number[];
+  highlight?: number;
+}) {
+  const max = Math.max(1, ...values);
+  const top = new Set(
+    values
+      .map((v, hour) => ({ v, hour }))
+      .filter(({ v }) => v > 0)
+      .sort((a, b) => b.v - a.v)
+      .slice(0, highlight)
+      .map(({ hour }) => hour)
+  );
+
+  const hourLabel = (hour: number) =>
+    formatNumber(lang, hour, {
+      style: "unit",
+      unit: "hour",
+      unitDisplay: "narrow",
+    });
+  const slot = (WIDTH - PAD.left - PAD.right) / values.length;
+  const y = (value: number) =>
+    HEIGHT - PAD.bottom - (value / max) * (HEIGHT - PAD.top - PAD.bottom);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={label}
+    >
+      {[0, max].map((v) => (
+        <g key={v} className="text-slate-500">
+          <line
+            x1={PAD.left}
+            x2={WIDTH - PAD.right}
+            y1={y(v)}
+            y2={y(v)}
+            stroke="currentColor"
+            strokeOpacity={0.25}
+          />
+          <text
+            x={PAD.left - 4}
+            y={y(v) + 4}
+            textAnchor="end"
+            fontSize={10}
+            fill="currentColor"
+          >
+            {formatNumber(lang, v)}
+          </text>
+        </g>
+      ))}
+      {values.map((v, hour) => (
+        <g key={hour}>
+          <rect
+            x={PAD.left + hour * slot + 2}
+            y={y(v)}
+            width={slot - 4}
+            height={HEIGHT - PAD.bottom - y(v)}
+            rx={2}
+            fill={top.has(hour) ? "#0ea5e9" : "#64748b"}
+            fillOpacity={top.has(hour) ? 1 : 0.5}
+          >
+            <title>{`${hourLabel(hour)} — ${formatNumber(lang, v)}`}</title>
+          </rect>
+          {hour % 3 === 0 && (
+            <text
+              x={PAD.left + (hour + 0.5) * slot}
+              y={HEIGHT - 4}
+              textAnchor="middle"
+              fontSize={10}
+              className="fill-slate-500"
+            >
+              {hourLabel(hour)}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useState } from "react";
+import ExportLinks from "@/components/ExportLinks";
+import SystemSelect from "@/components/SystemSelect";
+import { HourBars, LineChart } from "@/components/StatsCharts";
+import { DEFAULT_THEME } from "@/components/mapTheme";
+import { stationPath } from "@/components/stationLinks";
+import {
+  ANALYTICS_RANGES,
+  useNetworkAnalytics,
+  useNetworkSummary,
+} from "@/hooks/useAnalytics";
+import type { AnalyticsRange } from "@/hooks/useAnalytics";
+import { useRefreshScheduler } from "@/hooks/useRefreshScheduler";
+import {
+  formatNumber,
+  formatTime,
+  formatWeekday,
+  getMessages,
+  plural,
+} from "@/i18n";
+import type { Locale } from "@/i18n";
+
+const RANGES = Object.keys(ANALYTICS_RANGES) as AnalyticsRange[];
+const HOUR_MS = 60 * 60_000;
+
+/**
+ * Statistiques de tout le réseau : indicateurs courants, occupation et
+ * stations vides / pleines sur la période, heures et stations les plus actives.
+ */
+export default function StatsDashboard({ lang }: { lang: Locale }) {
+  const { stats: t } = getMessages(lang);
+  const [systemId, setSystemId] = useState<string | undefined>(undefined);
+  const [range, setRange] = useState<AnalyticsRange>("day");
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const refresh = useCallback(() => setRefreshKey((k) => k + 1), []);
+  useRefreshScheduler(refresh, 5 * 60_000);
+
+  const summary = useNetworkSummary(systemId, undefined, refreshKey);
+  const { points, activity, error } = useNetworkAnalytics(
+    systemId,
+    range,
+    refreshKey
+  );
+
+  const percent = (v: number) => formatNumber(lang, v, { style: "percent" });
+  const axis =
+    range === "day"
+      ? {
+          tickMs: 6 * HOUR_MS,
+          formatTick: (tick: number) => formatTime(lang, tick),
+        }
+      : {
+          tickMs: 24 * HOUR_MS,
+          formatTick: (tick: number) => formatWeekday(lang, tick),
+        };
+  const maxLevel = Math.max(1, ...points.flatMap((p) => [p.empty, p.full]));
+
+  const kpis = summary && [
+    { label: t.occupancy, value: percent(summary.occupancy) },
+    { label: t.bikes, value: formatNumber(lang, summary.bikes) },
+    { label: t.docks, value: formatNumber(lang, summary.docks) },
+    { label: t.empty, value: formatNumber(lang, summary.empty) },
+    { label: t.full, value: formatNumber(lang, summary.full) },
+  ];
+
+  return (
+    <main className="page-shell space-y-6">
+      <Link href={`/${lang}`} className="text-sm text-sky-500">
+        {t.back}
+      </Link>
+
+      <section className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">{t.title}</h1>
+        <p className="max-w-2xl text-slate-400">{t.intro}</p>
+        <div className="flex flex-wrap items-center gap-3 pt-1">
+          <SystemSelect
+            value={systemId}
+            onChange={setSystemId}
+            label={t.network}
+          />
+          <span className="inline-flex rounded-lg border border-slate-500/30 p-0.5 text-sm">
+            {RANGES.map((r) => (
+              <button
+                key={r}
+                type="button"
+                onClick={() => setRange(r)}
+                aria-pressed={range === r}
+                className={[
+                  "px-2 py-0.5 rounded-md cursor-pointer transition-colors",
+                  range === r
+                    ? "bg-sky-500 text-white"
+                    : "hover:bg-slate-500/10",
+                ].join(" ")}
+              >
+                {t.ranges[r]}
+              </button>
+            ))}
+          </span>
+          {summary && (
+            <span className="chip text-xs">
+              {t.active(summary.active, summary.stations)}
+            </span>
+          )}
+        </div>
+      </section>
+
+      {error && (
+        <div className="card p-4 border-red-500/30 text-red-300">
+          {t.loadError} {error}
+        </div>
+      )}
+
+      {kpis && (
+        <section className="grid gap-3 grid-cols-2 md:grid-cols-5">
+          {kpis.map((k) => (
+            <div key={k.label} className="card p-4">
+              <div className="text-xs text-slate-400">{k.label}</div>
+              <div className="text-2xl font-semibold">{k.value}</div>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {activity &&
+        (points.length < 2 ? (
+          <p className="card p-4 text-sm text-slate-400">{t.noHistory}</p>
+        ) : (
+          <>
+            <section className="grid gap-3 md:grid-cols-2">
+              <div className="card p-4 space-y-3">
+                <h2 className="text-lg font-semibold">{t.occupancyChart}</h2>
+                <LineChart
+                  label={t.occupancyChart}
+                  series={[
+                    {
+                      label: t.occupancy,
+                      color: DEFAULT_THEME.donut.docks,
+                      values: points.map((p) => ({ t: p.t, v: p.occupancy })),
+                    },
+                  ]}
+                  from={activity.from}
+                  to={activity.to}
+                  max={1}
+                  formatValue={percent}
+                  {...axis}
+                />
+              </div>
+              <div className="card p-4 space-y-3">
+                <h2 className="text-lg font-semibold">{t.levelsChart}</h2>
+                <LineChart
+                  label={t.levelsChart}
+                  series={[
+                    {
+                      label: t.empty,
+                      color: DEFAULT_THEME.colors.empty,
+                      values: points.map((p) => ({ t: p.t, v: p.empty })),
+                    },
+                    {
+                      label: t.full,
+                      color: DEFAULT_THEME.colors.low,
+                      values: points.map((p) => ({ t: p.t, v: p.full })),
+                    },
+                  ]}
+                  from={activity.from}
+                  to={activity.to}
+                  max={maxLevel}
+                  formatValue={(v) => formatNumber(lang, Math.round(v))}
+                  {...axis}
+                />
+              </div>
+            </section>
+
+            <section className="grid gap-3 md:grid-cols-3">
+              <div className="card p-4 space-y-3 md:col-span-2">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <h2 className="text-lg font-semibold">{t.hoursChart}</h2>
+                  <span className="text-sm text-slate-400">
+                    {t.turnover(formatNumber(lang, activity.turnover))}
+                  </span>
+                </div>
+                <HourBars
+                  lang={lang}
+                  label={t.hoursChart}
+                  values={activity.byHour}
+                />
+                <p className="text-xs text-slate-400">{t.hoursHint}</p>
+              </div>
+              <div className="card p-4 space-y-3">
+                <h2 className="text-lg font-semibold">{t.busiest}</h2>
+                <ol className="space-y-1.5 text-sm">
+                  {activity.stations.map((s) => (
+                    <li key={s.id} className="flex justify-between gap-3">
+                      <Link
+                        href={stationPath(lang, s.id, systemId)}
+                        className="text-sky-500 truncate"
+                      >
+                        {s.name}
+                      </Link>
+                      <span className="text-slate-400 whitespace-nowrap">
+                        {plural(lang, s.turnover, t.moves)}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </section>
+
+            <section className="card p-4">
+              <ExportLinks
+                lang={lang}
+                systemId={systemId}
+                range={{ from: activity.from, to: activity.to }}
+              />
+            </section>
+          </>
+        ))}
+    </main>
+  );
+}
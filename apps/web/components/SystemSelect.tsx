@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+export type GbfsSystem = {
+  id: string;
+  name: string;
+  city?: string;
+  isDefault: boolean;
+};
+
+const STORAGE_KEY = "system";
+
+/**
+ * Sélecteur de réseau GBFS. La liste vient de `/api/systems` ; le choix est
+ * mémorisé dans le localStorage et restauré au chargement via `onChange`.
+ */
+export default function SystemSelect({
+  value,
+  onChange,
+  label,
+  className = "",
+}: {
+  value?: string;
+  onChange: (systemId: string) => void;
+  label: string;
+  className?: string;
+}) {
+  const [systems, setSystems] = useState<GbfsSystem[]>([]);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // restauration unique au montage
+  useEffect(() => {
+    const ac = new AbortController();
+
+    fetch("/api/systems", { signal: ac.signal })
+      .then((res) => (res.ok ? res.json() : []))
+      .then((list: GbfsSystem[]) => {
+        setSystems(list);
+        try {
+          const saved = localStorage.getItem(STORAGE_KEY);
+          if (saved && list.some((s) => s.id === saved)) {
+            onChangeRef.current(saved);
+          }
+        } catch {}
+      })
+      .catch(() => {});
+
+    return () => ac.abort();
+  }, []);
+
+  // Un seul réseau configuré : rien à choisir
+  if (systems.length < 2) return null;
+
+  const current = value ?? systems.find((s) => s.isDefault)?.id;
+
+  return (
+    <select
+      className={["input", className].join(" ")}
+      value={current}
+      aria-label={label}
+      title={label}
+      onChange={(e) => {
+        try {
+          localStorage.setItem(STORAGE_KEY, e.target.value);
+        } catch {}
+        onChange(e.target.value);
+      }}
+    >
+      {systems.map((s) => (
+        <option key={s.id} value={s.id}>
+          {s.city ? `${s.name} — ${s.city}` : s.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,10 +1,13 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { getMessages } from "@/i18n";
+import type { Locale } from "@/i18n";
 
 type Theme = "light" | "dark";
 
-export default function ThemeToggle({ className = "" }: { className?: string }) {
+export default function ThemeToggle({ lang, className = "" }: { lang: Locale; className?: string }) {
+    const t = getMessages(lang).theme;
     const [theme, setTheme] = useState<Theme | null>(null);
 
     useEffect(() => {
@@ -45,8 +48,8 @@ export default function ThemeToggle({ className = "" }: { className?: string })
                 "shadow-sm",
                 className,
             ].join(" ")}
-            aria-label="Basculer le thème clair/sombre"
-            title={checked ? "Passer en clair" : "Passer en sombre"}
+            aria-label={t.toggle}
+            title={checked ? t.toLight : t.toDark}
         >
             {/* Icône soleil (gauche) */}
             <svg aria-hidden xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor" className={[
@@ -0,0 +1,307 @@
+"use client";
+
+import { useState } from "react";
+import type { FormEvent } from "react";
+import type { LatLon } from "@/hooks/useNearestStations";
+import type { Place, TripEnd, TripPlan } from "@/hooks/useTripPlan";
+import { formatDistance, formatTime, getMessages } from "@/i18n";
+import type { Locale, Messages } from "@/i18n";
+
+export type PickTarget = "origin" | "destination";
+
+type Labels = Messages["trip"];
+
+function placeLabel(p: Place) {
+  return p.label ?? `${p.lat.toFixed(5)}, ${p.lon.toFixed(5)}`;
+}
+
+/** Champ adresse (géocodage à la validation) + sélection sur la carte */
+function PlaceInput({
+  label,
+  value,
+  onChange,
+  picking,
+  onPick,
+  near,
+  t,
+}: {
+  label: string;
+  value: Place | null;
+  onChange: (place: Place) => void;
+  picking: boolean;
+  onPick: () => void;
+  near?: LatLon;
+  t: Labels;
+}) {
+  const [text, setText] = useState("");
+  const [results, setResults] = useState<Place[] | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  // Pas d'autocomplétion : Nominatim l'interdit, on géocode à la validation
+  const search = async (e: FormEvent) => {
+    e.preventDefault();
+    if (text.trim().length < 3) return;
+    setSearching(true);
+    try {
+      const params = new URLSearchParams({ q: text.trim() });
+      if (near) params.set("near", `${near.lat},${near.lon}`);
+      const res = await fetch(`/api/geocode?${params}`);
+      setResults(res.ok ? await res.json() : []);
+    } catch {
+      setResults([]);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <form onSubmit={search} className="flex items-center gap-2">
+        <label className="w-16 shrink-0 text-sm text-slate-400">{label}</label>
+        <input
+          className="input min-w-0 flex-1"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={t.placeholder}
+          aria-label={label}
+        />
+        <button
+          type="submit"
+          className="input cursor-pointer text-sm"
+          disabled={searching}
+          title={t.search}
+        >
+          🔎
+        </button>
+        <button
+          type="button"
+          onClick={onPick}
+          aria-pressed={picking}
+          className={[
+            "input cursor-pointer text-sm",
+            picking ? "ring-2 ring-sky-400" : "",
+          ].join(" ")}
+        >
+          {picking ? t.picking : t.pick}
+        </button>
+      </form>
+
+      {results && (
+        <ul className="ml-18 space-y-1 text-sm">
+          {results.length === 0 && (
+            <li className="text-slate-400">{t.noResult}</li>
+          )}
+          {results.map((r) => (
+            <li key={`${r.lat},${r.lon}`}>
+              <button
+                type="button"
+                className="text-left hover:underline cursor-pointer"
+                onClick={() => {
+                  onChange(r);
+                  setResults(null);
+                  setText("");
+                }}
+              >
+                {r.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {value && (
+        <div className="ml-18 truncate text-xs text-slate-400">
+          ✓ {placeLabel(value)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function EndLine({
+  icon,
+  action,
+  end,
+  minutes,
+  distance,
+  count,
+  unit,
+  warning,
+  lang,
+  t,
+}: {
+  icon: string;
+  action: string;
+  end: TripEnd;
+  minutes: number;
+  distance: number;
+  count: number;
+  unit: string;
+  warning: string;
+  lang: Locale;
+  t: Labels;
+}) {
+  const fb = end.fallback;
+  return (
+    <li className="space-y-0.5">
+      <div>
+        {icon} {action} <strong>{end.station.name}</strong> — {minutes} min (
+        {formatDistance(lang, distance)}) •{" "}
+        <span className={end.low ? "text-amber-400" : ""}>
+          {count} {unit}
+        </span>
+      </div>
+      {end.low && (
+        <div className="text-xs text-amber-400">
+          ⚠️ {warning}
+          {fb &&
+            ` — ${t.fallback} : ${fb.name} (${
+              unit === t.bikes ? fb.bikes : fb.docks
+            } ${unit}, ${formatDistance(lang, fb.distance)})`}
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Planificateur : départ / arrivée (adresse ou clic carte) → meilleure
+ * station de départ avec vélos, meilleure station d'arrivée avec places.
+ */
+export default function TripPlanner({
+  lang,
+  origin,
+  destination,
+  onOriginChange,
+  onDestinationChange,
+  picking,
+  onPickingChange,
+  plan,
+  loading,
+  error,
+  near,
+}: {
+  lang: Locale;
+  origin: Place | null;
+  destination: Place | null;
+  onOriginChange: (place: Place | null) => void;
+  onDestinationChange: (place: Place | null) => void;
+  picking: PickTarget | null;
+  onPickingChange: (target: PickTarget | null) => void;
+  plan: TripPlan | null;
+  loading: boolean;
+  error: string | null;
+  near?: LatLon;
+}) {
+  const t = getMessages(lang).trip;
+  const togglePick = (target: PickTarget) =>
+    onPickingChange(picking === target ? null : target);
+
+  return (
+    <div className="card p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">{t.title}</h2>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="input cursor-pointer text-sm"
+            onClick={() => {
+              onOriginChange(destination);
+              onDestinationChange(origin);
+            }}
+          >
+            {t.swap}
+          </button>
+          <button
+            type="button"
+            className="input cursor-pointer text-sm"
+            onClick={() => {
+              onOriginChange(null);
+              onDestinationChange(null);
+              onPickingChange(null);
+            }}
+          >
+            {t.clear}
+          </button>
+        </div>
+      </div>
+
+      <PlaceInput
+        label={t.origin}
+        value={origin}
+        onChange={onOriginChange}
+        picking={picking === "origin"}
+        onPick={() => togglePick("origin")}
+        near={near}
+        t={t}
+      />
+      <PlaceInput
+        label={t.destination}
+        value={destination}
+        onChange={onDestinationChange}
+        picking={picking === "destination"}
+        onPick={() => togglePick("destination")}
+        near={near}
+        t={t}
+      />
+
+      {!origin || !destination ? (
+        <p className="text-sm text-slate-400">{t.hint}</p>
+      ) : error === "no-station" ? (
+        <p className="text-sm text-slate-400">{t.noStation}</p>
+      ) : error ? (
+        <p className="text-sm text-rose-400">{error}</p>
+      ) : !plan ? (
+        <p className="text-sm text-slate-400">{t.planning}</p>
+      ) : (
+        <div className="space-y-2 text-sm">
+          <ol className="space-y-1.5">
+            <EndLine
+              icon="🚶"
+              action={t.walkTo}
+              end={plan.pickup}
+              minutes={plan.pickup.station.walkMinutes}
+              distance={plan.pickup.station.distance}
+              count={plan.pickup.station.bikes}
+              unit={t.bikes}
+              warning={t.nearlyEmpty}
+              lang={lang}
+              t={t}
+            />
+            <EndLine
+              icon="🚲"
+              action={t.rideTo}
+              end={plan.dropoff}
+              minutes={plan.ride.minutes}
+              distance={plan.ride.distance}
+              count={plan.dropoff.station.docks}
+              unit={t.docks}
+              warning={t.nearlyFull}
+              lang={lang}
+              t={t}
+            />
+            <li>
+              🚶 {t.walkToDestination} — {plan.dropoff.station.walkMinutes} min
+              ({formatDistance(lang, plan.dropoff.station.distance)})
+            </li>
+          </ol>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-semibold">
+              {t.total} : {plan.totalMinutes} min
+            </span>
+            {plan.walkIsFaster && (
+              <span className="chip text-xs">
+                {t.walkFaster} ({plan.walk.minutes} min)
+              </span>
+            )}
+            <span className="text-xs text-slate-500">
+              {t.checked} {formatTime(lang, plan.checkedAt)}
+              {plan.stale ? ` (${t.stale})` : ""}
+              {loading ? " …" : ""}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * Couches de la carte, partagées entre `StationsMap` (rendu Leaflet) et la
+ * légende de la page : ce module ne doit pas importer Leaflet (rendu serveur).
+ */
+
+export const MAP_LAYERS = ["markers", "bikes", "docks", "pressure"] as const;
+export type MapLayer = (typeof MAP_LAYERS)[number];
+
+/** Nombre de vélos / places à partir duquel une station “chauffe” au maximum */
+export const HEAT_SATURATION = 15;
+
+/** Dégradés des cartes de chaleur (intensité 0 → 1) */
+export const HEAT_GRADIENTS: Record<
+  "bikes" | "docks",
+  Record<number, string>
+> = {
+  bikes: { 0.2: "#bbf7d0", 0.5: "#4ade80", 0.8: "#16a34a", 1: "#14532d" },
+  docks: { 0.2: "#bae6fd", 0.5: "#38bdf8", 0.8: "#0284c7", 1: "#0c4a6e" },
+};
+
+/** Couleurs de la couche “pression” */
+export const PRESSURE_COLORS = {
+  emptying: "#e11d48",
+  filling: "#7c3aed",
+} as const;
+
+/** `linear-gradient` CSS équivalent à un dégradé de carte de chaleur */
+export function cssGradient(gradient: Record<number, string>) {
+  const stops = Object.entries(gradient)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([stop, color]) => `${color} ${Number(stop) * 100}%`);
+  return `linear-gradient(to right, transparent, ${stops.join(", ")})`;
+}
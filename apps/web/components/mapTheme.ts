@@ -0,0 +1,94 @@
+import type { Station } from "@vlille/contracts";
+
+/**
+ * Seuils et couleurs des marqueurs, des clusters et de la légende : une seule
+ * configuration, sans Leaflet (importée aussi par la légende, rendue côté
+ * serveur).
+ */
+
+/** Couleur des marqueurs selon les vélos, les places libres ou le remplissage */
+export const MARKER_MODES = ["bikes", "docks", "fill"] as const;
+export type MarkerMode = (typeof MARKER_MODES)[number];
+
+export type Level = "good" | "low" | "empty" | "closed";
+
+export type MapTheme = {
+  colors: Record<Level, string>;
+  /** couronne des clusters : part des vélos / des places libres */
+  donut: { bikes: string; docks: string };
+  /**
+   * Valeur jusqu'à laquelle une station (ou un cluster, en cumulé) est
+   * “faible” ; 0 est toujours “vide”. Ratio 0–1 pour `fill`.
+   */
+  thresholds: {
+    station: Record<MarkerMode, number>;
+    cluster: Record<MarkerMode, number>;
+  };
+};
+
+export const DEFAULT_THEME: MapTheme = {
+  colors: {
+    good: "#22c55e",
+    low: "#f59e0b",
+    empty: "#ef4444",
+    closed: "#64748b",
+  },
+  donut: { bikes: "#22c55e", docks: "#0ea5e9" },
+  thresholds: {
+    station: { bikes: 3, docks: 3, fill: 0.25 },
+    cluster: { bikes: 10, docks: 10, fill: 0.25 },
+  },
+};
+
+/** Station inutilisable pour le mode : hors service, location ou retour suspendu */
+export function isClosedFor(s: Station, mode: MarkerMode) {
+  if (!s.isInstalled) return true;
+  return mode === "docks" ? !s.isReturning : !s.isRenting;
+}
+
+/** Vélos empruntables / places où rendre un vélo (0 si la station ne le permet pas) */
+export function usableCounts(s: Station) {
+  return {
+    bikes: isClosedFor(s, "bikes") ? 0 : s.bikes,
+    docks: isClosedFor(s, "docks") ? 0 : s.docks,
+  };
+}
+
+/** Valeur comparée aux seuils : vélos, places ou taux de remplissage */
+export function modeValue(bikes: number, docks: number, mode: MarkerMode) {
+  if (mode === "bikes") return bikes;
+  if (mode === "docks") return docks;
+  return bikes + docks > 0 ? bikes / (bikes + docks) : 0;
+}
+
+export function levelOf(value: number, low: number): Level {
+  if (value <= 0) return "empty";
+  return value <= low ? "low" : "good";
+}
+
+export function stationLevel(
+  s: Station,
+  mode: MarkerMode,
+  theme: MapTheme = DEFAULT_THEME
+): Level {
+  if (isClosedFor(s, mode)) return "closed";
+  // remplissage : vélos / (vélos + places), la capacité pouvant inclure des
+  // bornes hors service
+  return levelOf(
+    modeValue(s.bikes, s.docks, mode),
+    theme.thresholds.station[mode]
+  );
+}
+
+/** Libellés des paliers d'après les seuils (légende) */
+export function levelRanges(low: number, mode: MarkerMode) {
+  if (mode === "fill") {
+    const pct = Math.round(low * 100);
+    return { good: `> ${pct} %`, low: `≤ ${pct} %`, empty: "0 %" };
+  }
+  return {
+    good: `≥ ${low + 1}`,
+    low: low > 1 ? `1–${low}` : "1",
+    empty: "0",
+  };
+}
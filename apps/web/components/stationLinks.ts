@@ -0,0 +1,7 @@
+import type { Locale } from "@/i18n";
+
+/** URL de la page d'une station (`system` absent = réseau par défaut) */
+export function stationPath(lang: Locale, id: string, system?: string) {
+  const qs = system ? `?system=${encodeURIComponent(system)}` : "";
+  return `/${lang}/stations/${encodeURIComponent(id)}${qs}`;
+}
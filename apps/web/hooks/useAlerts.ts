@@ -0,0 +1,141 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Station } from "@vlille/contracts";
+import { SW_URL } from "@/components/ServiceWorker";
+import type { Locale } from "@/i18n/config";
+
+export type AlertKind = "bikes" | "docks";
+
+export type StationAlert = {
+  id: string;
+  systemId: string;
+  stationId: string;
+  stationName?: string;
+  kind: AlertKind;
+  threshold: number;
+  lang: Locale;
+  createdAt: number;
+  expiresAt: number;
+};
+
+/** Codes d'erreur possibles de `create` (message de l'Error) */
+export type AlertError =
+  "unsupported" | "denied" | "unconfigured" | "too-many" | "failed";
+
+function pushSupported() {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+/** Clé VAPID (base64url) → octets attendus par `pushManager.subscribe` */
+function decodeKey(base64url: string) {
+  const base64 = base64url.replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+}
+
+/** Enregistre le service worker et renvoie l'abonnement push (créé au besoin) */
+async function pushSubscription(): Promise<PushSubscription> {
+  if (!pushSupported()) throw new Error("unsupported");
+  if ((await Notification.requestPermission()) !== "granted") {
+    throw new Error("denied");
+  }
+
+  const registration = await navigator.serviceWorker.register(SW_URL);
+  await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing;
+
+  const res = await fetch("/api/alerts/public-key");
+  if (!res.ok) throw new Error("unconfigured");
+  const { publicKey } = await res.json();
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: decodeKey(publicKey),
+  });
+}
+
+/**
+ * Alertes de disponibilité (“préviens-moi quand la station X a ≥ N vélos”),
+ * livrées par Web Push même onglet fermé. Les alertes en attente sont
+ * relues à chaque `refreshKey` : celles déjà déclenchées disparaissent.
+ */
+export function useAlerts(refreshKey?: unknown) {
+  const [endpoint, setEndpoint] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<StationAlert[]>([]);
+
+  // Abonnement déjà existant (visite précédente) : on retrouve ses alertes
+  useEffect(() => {
+    if (!pushSupported()) return;
+    (async () => {
+      const registration =
+        await navigator.serviceWorker.getRegistration(SW_URL);
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) setEndpoint(subscription.endpoint);
+    })().catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (!endpoint) return;
+    const ac = new AbortController();
+
+    fetch(`/api/alerts?${new URLSearchParams({ endpoint })}`, {
+      cache: "no-store",
+      signal: ac.signal,
+    })
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setAlerts)
+      .catch(() => {});
+
+    return () => ac.abort();
+  }, [endpoint, refreshKey]);
+
+  const create = useCallback(
+    async (
+      station: Station,
+      kind: AlertKind,
+      threshold: number,
+      lang: Locale
+    ) => {
+      const subscription = await pushSubscription();
+      const params = new URLSearchParams();
+      if (station.systemId) params.set("system", station.systemId);
+
+      const res = await fetch(
+        `/api/stations/${encodeURIComponent(station.id)}/alerts?${params}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            kind,
+            threshold,
+            lang,
+            subscription: subscription.toJSON(),
+          }),
+        }
+      );
+      if (res.status === 429) throw new Error("too-many");
+      if (!res.ok) throw new Error("failed");
+
+      const alert: StationAlert = await res.json();
+      setEndpoint(subscription.endpoint);
+      setAlerts((prev) => [...prev, alert]);
+      return alert;
+    },
+    []
+  );
+
+  const remove = useCallback(async (id: string) => {
+    const res = await fetch(`/api/alerts/${id}`, { method: "DELETE" });
+    if (!res.ok && res.status !== 404) throw new Error("failed");
+    setAlerts((prev) => prev.filter((a) => a.id !== id));
+  }, []);
+
+  return { alerts, create, remove };
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/** Indicateurs de tout le réseau (réponse de `/api/analytics/summary`) */
+export type NetworkSummary = {
+  at: number;
+  stations: number;
+  active: number;
+  bikes: number;
+  docks: number;
+  /** vélos / (vélos + places), de 0 à 1 */
+  occupancy: number;
+  empty: number;
+  full: number;
+  avgBikes: number;
+};
+
+export type NetworkPoint = {
+  t: number;
+  bikes: number;
+  docks: number;
+  occupancy: number;
+  empty: number;
+  full: number;
+};
+
+/** Mouvements estimés sur la période (réponse de `/api/analytics/activity`) */
+export type NetworkActivity = {
+  from: number;
+  to: number;
+  turnover: number;
+  /** mouvements cumulés par heure de la journée (fuseau du réseau) */
+  byHour: number[];
+  stations: Array<{ id: string; name: string; turnover: number }>;
+};
+
+/** Périodes proposées et pas des séries correspondantes */
+export const ANALYTICS_RANGES = {
+  day: { ms: 24 * 60 * 60_000, step: "15m" },
+  week: { ms: 7 * 24 * 60 * 60_000, step: "2h" },
+} as const;
+export type AnalyticsRange = keyof typeof ANALYTICS_RANGES;
+
+async function getJson<T>(path: string, signal: AbortSignal): Promise<T> {
+  const res = await fetch(path, { cache: "no-store", signal });
+  if (!res.ok) throw new Error(`Failed to fetch ${path}`);
+  return res.json();
+}
+
+const isAbort = (err: unknown) =>
+  err instanceof DOMException && err.name === "AbortError";
+
+/**
+ * Indicateurs calculés côté API sur toutes les stations du réseau (le filtre
+ * `min` de la carte ne les fausse pas). Avec `at`, ceux du relevé enregistré
+ * le plus proche (rejeu). Rechargés à chaque changement de `refreshKey`.
+ */
+export function useNetworkSummary(
+  systemId?: string,
+  at?: number,
+  refreshKey?: unknown
+) {
+  const [summary, setSummary] = useState<NetworkSummary | null>(null);
+
+  useEffect(() => {
+    const ac = new AbortController();
+    const params = new URLSearchParams();
+    if (systemId) params.set("system", systemId);
+    if (at !== undefined) params.set("at", String(at));
+    const qs = params.size ? `?${params}` : "";
+
+    getJson<NetworkSummary>(`/api/analytics/summary${qs}`, ac.signal)
+      .then(setSummary)
+      .catch(() => {});
+
+    return () => ac.abort();
+  }, [systemId, at, refreshKey]);
+
+  return summary;
+}
+
+/** Série du réseau et activité sur la période `range` jusqu'à maintenant */
+export function useNetworkAnalytics(
+  systemId: string | undefined,
+  range: AnalyticsRange,
+  refreshKey?: unknown
+) {
+  const [points, setPoints] = useState<NetworkPoint[]>([]);
+  const [activity, setActivity] = useState<NetworkActivity | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const ac = new AbortController();
+    const { ms, step } = ANALYTICS_RANGES[range];
+    const params = new URLSearchParams({ from: String(Date.now() - ms) });
+    if (systemId) params.set("system", systemId);
+
+    Promise.all([
+      getJson<{ points: NetworkPoint[] }>(
+        `/api/analytics/timeseries?${params}&step=${step}`,
+        ac.signal
+      ),
+      getJson<NetworkActivity>(`/api/analytics/activity?${params}`, ac.signal),
+    ])
+      .then(([series, act]) => {
+        setPoints(series.points);
+        setActivity(act);
+        setError(null);
+      })
+      .catch((err) => {
+        if (isAbort(err)) return;
+        setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => ac.abort();
+  }, [systemId, range, refreshKey]);
+
+  return { points, activity, error };
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+
+export type Favorite = { systemId: string; id: string };
+
+export type SyncState = "off" | "syncing" | "synced" | "error";
+
+const FAVORITES_KEY = "favorites";
+const TOKEN_KEY = "favoritesToken";
+const EMPTY: Favorite[] = [];
+
+export const favoriteKey = (f: Favorite) => `${f.systemId}:${f.id}`;
+
+// Petit store localStorage partagé par tous les composants (et les onglets,
+// via l'événement "storage"), lu avec useSyncExternalStore.
+const listeners = new Set<() => void>();
+let cachedRaw: string | null = null;
+let cached: Favorite[] = EMPTY;
+
+function readItem(key: string) {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeItem(key: string, value: string | null) {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, value);
+  } catch {}
+  listeners.forEach((l) => l());
+}
+
+function readFavorites() {
+  const raw = readItem(FAVORITES_KEY);
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    try {
+      cached = raw ? JSON.parse(raw) : EMPTY;
+    } catch {
+      cached = EMPTY;
+    }
+  }
+  return cached;
+}
+
+const readToken = () => readItem(TOKEN_KEY);
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+function writeFavorites(list: Favorite[]) {
+  writeItem(FAVORITES_KEY, JSON.stringify(list));
+}
+
+/** Jeton anonyme : 128 bits aléatoires en hexadécimal */
+function newToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function pushFavorites(token: string, favorites: Favorite[]) {
+  const res = await fetch(`/api/favorites/${token}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ favorites }),
+  });
+  if (!res.ok) throw new Error("Failed to sync favorites");
+}
+
+/**
+ * Stations favorites, persistées dans le localStorage. Si la synchronisation
+ * est activée (jeton anonyme), la liste est fusionnée avec celle du serveur
+ * au chargement puis poussée à chaque modification ; partager le jeton
+ * permet de retrouver les mêmes favoris sur un autre appareil.
+ */
+export function useFavorites() {
+  const favorites = useSyncExternalStore(subscribe, readFavorites, () => EMPTY);
+  const token = useSyncExternalStore(subscribe, readToken, () => null);
+  const [syncState, setSyncState] = useState<SyncState>("off");
+
+  // Fusion avec le serveur à l'activation (ou au chargement si déjà active)
+  useEffect(() => {
+    if (!token) return;
+    const ac = new AbortController();
+
+    (async () => {
+      try {
+        setSyncState("syncing");
+        const res = await fetch(`/api/favorites/${token}`, {
+          cache: "no-store",
+          signal: ac.signal,
+        });
+        if (!res.ok) throw new Error("Failed to load favorites");
+        const remote: Favorite[] = (await res.json()).favorites;
+
+        const local = readFavorites();
+        const keys = new Set(remote.map(favoriteKey));
+        const merged = [
+          ...remote,
+          ...local.filter((f) => !keys.has(favoriteKey(f))),
+        ];
+        writeFavorites(merged);
+        if (merged.length !== remote.length) {
+          await pushFavorites(token, merged);
+        }
+        setSyncState("synced");
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setSyncState("error");
+      }
+    })();
+
+    return () => ac.abort();
+  }, [token]);
+
+  const toggle = useCallback(
+    (f: Favorite) => {
+      const key = favoriteKey(f);
+      const list = readFavorites();
+      const next = list.some((x) => favoriteKey(x) === key)
+        ? list.filter((x) => favoriteKey(x) !== key)
+        : [...list, { systemId: f.systemId, id: f.id }];
+      writeFavorites(next);
+
+      if (!token) return;
+      setSyncState("syncing");
+      pushFavorites(token, next)
+        .then(() => setSyncState("synced"))
+        .catch(() => setSyncState("error"));
+    },
+    [token]
+  );
+
+  /** Active la synchronisation, avec un jeton existant (autre appareil) ou nouveau */
+  const enableSync = useCallback((existing?: string) => {
+    writeItem(TOKEN_KEY, existing?.trim() || newToken());
+  }, []);
+
+  /** Coupe la synchronisation ; les favoris locaux sont conservés */
+  const disableSync = useCallback(() => {
+    writeItem(TOKEN_KEY, null);
+  }, []);
+
+  return {
+    favorites,
+    toggle,
+    token,
+    syncState: token ? syncState : ("off" as const),
+    enableSync,
+    disableSync,
+  };
+}
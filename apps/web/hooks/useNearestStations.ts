@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Station } from "@vlille/contracts";
+
+export type LatLon = { lat: number; lon: number };
+
+export type NearestMode = "bike" | "dock";
+
+export type NearbyStation = Station & {
+  /** distance à vol d'oiseau, en mètres */
+  distance: number;
+  walkMinutes: number;
+};
+
+const NEAREST_COUNT = 5;
+
+/**
+ * Les stations les plus proches de `position` ayant des vélos (mode `bike`)
+ * ou des places libres (mode `dock`), calculées côté API. Recalculées à
+ * chaque changement de `refreshKey` (ex. date de dernière mise à jour).
+ */
+export function useNearestStations(
+  position: LatLon | null,
+  mode: NearestMode,
+  systemId?: string,
+  refreshKey?: unknown
+) {
+  const [stations, setStations] = useState<NearbyStation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!position) return;
+    const ac = new AbortController();
+
+    (async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({
+          near: `${position.lat},${position.lon}`,
+          mode,
+          count: String(NEAREST_COUNT),
+        });
+        if (systemId) params.set("system", systemId);
+
+        const res = await fetch(`/api/stations/nearest?${params}`, {
+          cache: "no-store",
+          signal: ac.signal,
+        });
+        if (!res.ok) throw new Error("Failed to fetch nearest stations");
+        setStations(await res.json());
+        setError(null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!ac.signal.aborted) setLoading(false);
+      }
+    })();
+
+    return () => ac.abort();
+  }, [position, mode, systemId, refreshKey]);
+
+  return { stations: position ? stations : [], loading, error };
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+export type PressureTrend = "emptying" | "filling";
+
+/** Station sous tension (réponse de `/api/stations/pressure`) */
+export type StationPressure = {
+  id: string;
+  systemId: string;
+  trend: PressureTrend;
+  /** variation de vélos sur la fenêtre (négative : la station se vide) */
+  delta: number;
+  perHour: number;
+  /** minutes avant 0 vélo (emptying) ou 0 place (filling) */
+  etaMin: number;
+};
+
+/**
+ * Stations qui se vident ou se remplissent, d'après les variations récentes
+ * enregistrées côté API. Chargées seulement si `enabled` (couche affichée),
+ * puis à chaque changement de `refreshKey`.
+ */
+export function usePressure(
+  enabled: boolean,
+  systemId?: string,
+  refreshKey?: unknown
+) {
+  const [stations, setStations] = useState<StationPressure[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const ac = new AbortController();
+
+    (async () => {
+      try {
+        const params = new URLSearchParams();
+        if (systemId) params.set("system", systemId);
+        const qs = params.size ? `?${params}` : "";
+
+        const res = await fetch(`/api/stations/pressure${qs}`, {
+          cache: "no-store",
+          signal: ac.signal,
+        });
+        if (!res.ok) throw new Error("Failed to fetch pressure");
+        const data: { stations: StationPressure[] } = await res.json();
+        setStations(data.stations);
+        setError(null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+
+    return () => ac.abort();
+  }, [enabled, systemId, refreshKey]);
+
+  return { stations: enabled ? stations : [], error };
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+export type ImbalanceLevel = "empty" | "nearly-empty" | "nearly-full" | "full";
+
+/** Station déséquilibrée (réponse de `/api/rebalancing`) */
+export type ImbalancedStation = {
+  id: string;
+  systemId: string;
+  name: string;
+  lat: number;
+  lon: number;
+  bikes: number;
+  docks: number;
+  level: ImbalanceLevel;
+  /** vélos / (vélos + places), de 0 à 1 */
+  fill: number;
+  /** écart à l'équilibre, de 0 (à moitié pleine) à 1 (vide ou pleine) */
+  imbalance: number;
+  /** entrée dans cet état (ms epoch, 24 h en arrière au plus), null si inconnue */
+  since: number | null;
+};
+
+/** Déplacement de vélos proposé, de la station `from` vers `to` */
+export type RebalancingMove = {
+  from: { id: string; name: string };
+  to: { id: string; name: string };
+  bikes: number;
+  distance: number;
+};
+
+export type Rebalancing = {
+  updatedAt: number;
+  /** réception de la réponse (ms epoch) : référence des durées */
+  receivedAt: number;
+  stale: boolean;
+  stations: ImbalancedStation[];
+  moves: RebalancingMove[];
+};
+
+/**
+ * Stations déséquilibrées et déplacements proposés pour un réseau, calculés
+ * par l'API ; rechargés à chaque changement de `refreshKey`.
+ */
+export function useRebalancing(systemId?: string, refreshKey?: unknown) {
+  const [data, setData] = useState<Rebalancing | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const ac = new AbortController();
+
+    (async () => {
+      try {
+        const params = new URLSearchParams();
+        if (systemId) params.set("system", systemId);
+        const qs = params.size ? `?${params}` : "";
+
+        const res = await fetch(`/api/rebalancing${qs}`, {
+          cache: "no-store",
+          signal: ac.signal,
+        });
+        if (!res.ok) throw new Error("Failed to fetch rebalancing");
+        setData({ ...(await res.json()), receivedAt: Date.now() });
+        setError(null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+
+    return () => ac.abort();
+  }, [systemId, refreshKey]);
+
+  return { data, error };
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+
+function subscribeOnline(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+/** Connectivité annoncée par le navigateur (événements online/offline) */
+export function useOnline() {
+  return useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true
+  );
+}
+
+/**
+ * Délai avant le prochain rafraîchissement : 0 s'il est dû, `null` si
+ * l'onglet est caché ou le réseau absent (on attend leur retour).
+ */
+export function nextRefreshIn(
+  everyMs: number,
+  elapsedMs: number,
+  { hidden, online }: { hidden: boolean; online: boolean }
+): number | null {
+  if (hidden || !online) return null;
+  return Math.max(0, everyMs - elapsedMs);
+}
+
+/**
+ * Appelle `refresh` toutes les `everyMs` ms tant que `enabled`, mais ni onglet
+ * caché ni hors ligne : l'échéance manquée est rattrapée dès que l'onglet
+ * redevient visible, et le retour du réseau déclenche un rafraîchissement
+ * immédiat (les données sont alors forcément anciennes).
+ */
+export function useRefreshScheduler(
+  refresh: () => void,
+  everyMs: number,
+  enabled = true
+) {
+  const refreshRef = useRef(refresh);
+
+  useEffect(() => {
+    refreshRef.current = refresh;
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let last = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const tick = () => {
+      clearTimeout(timer);
+      const delay = nextRefreshIn(everyMs, Date.now() - last, {
+        hidden: document.hidden,
+        online: navigator.onLine,
+      });
+      if (delay === null) return;
+      if (delay > 0) {
+        timer = setTimeout(tick, delay);
+        return;
+      }
+      last = Date.now();
+      refreshRef.current();
+      timer = setTimeout(tick, everyMs);
+    };
+
+    const onOnline = () => {
+      last = 0;
+      tick();
+    };
+
+    tick();
+    document.addEventListener("visibilitychange", tick);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", tick);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener("visibilitychange", tick);
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", tick);
+    };
+  }, [everyMs, enabled]);
+}
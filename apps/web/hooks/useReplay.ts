@@ -0,0 +1,135 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Station } from "@vlille/contracts";
+
+/** Réponse de `/api/stations/replay` */
+export type ReplayFrame = {
+  /** date du relevé servi (le plus proche de `requested`) */
+  at: number;
+  requested: number;
+  /** bornes de l'historique enregistré */
+  from: number;
+  to: number;
+  stations: Station[];
+};
+
+/** Accélérations proposées (1 s réelle = `speed` s rejouées) */
+export const REPLAY_SPEEDS = [60, 300, 900, 3600] as const;
+
+/** Intervalle entre deux images pendant la lecture */
+const TICK_MS = 500;
+const DAY_MS = 24 * 60 * 60_000;
+
+/**
+ * Rejeu de l'historique : position dans le temps, lecture/pause et vitesse.
+ * Chaque position charge le relevé enregistré le plus proche (côté API) ;
+ * pendant la lecture, on n'avance qu'une fois l'image précédente reçue.
+ */
+export function useReplay(systemId?: string) {
+  const [active, setActive] = useState(false);
+  const [at, setAt] = useState<number | null>(null);
+  const [frame, setFrame] = useState<ReplayFrame | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(REPLAY_SPEEDS[1]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // aucun historique enregistré pour ce système
+  const [empty, setEmpty] = useState(false);
+
+  useEffect(() => {
+    if (!active || at === null) return;
+    const ac = new AbortController();
+
+    (async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ at: String(at) });
+        if (systemId) params.set("system", systemId);
+
+        const res = await fetch(`/api/stations/replay?${params}`, {
+          cache: "no-store",
+          signal: ac.signal,
+        });
+        if (res.status === 404) {
+          setFrame(null);
+          setPlaying(false);
+          setEmpty(true);
+          setError(null);
+          return;
+        }
+        if (!res.ok) throw new Error("Failed to fetch replay");
+        setFrame(await res.json());
+        setEmpty(false);
+        setError(null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setPlaying(false);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!ac.signal.aborted) setLoading(false);
+      }
+    })();
+
+    return () => ac.abort();
+  }, [active, at, systemId]);
+
+  // Lecture : image suivante une fois la précédente affichée
+  useEffect(() => {
+    // image pas encore reçue pour la position courante
+    if (!playing || !frame || (at !== null && frame.requested !== at)) return;
+    const id = setTimeout(() => {
+      const from = Math.max(at ?? frame.requested, frame.from);
+      const next = from + speed * TICK_MS;
+      if (next > frame.to) {
+        setAt(frame.to);
+        setPlaying(false);
+      } else {
+        setAt(next);
+      }
+    }, TICK_MS);
+    return () => clearTimeout(id);
+  }, [playing, frame, at, speed]);
+
+  /** Démarre le rejeu sur les dernières 24 h, ou revient au direct */
+  const toggle = useCallback(() => {
+    setPlaying(false);
+    if (active) {
+      setActive(false);
+      setFrame(null);
+      setEmpty(false);
+      setError(null);
+      return;
+    }
+    setAt(Date.now() - DAY_MS);
+    setActive(true);
+  }, [active]);
+
+  const seek = useCallback((t: number) => {
+    setPlaying(false);
+    setAt(Math.round(t));
+  }, []);
+
+  const play = useCallback(() => {
+    // relancer depuis le début si on est arrivé au bout
+    if (frame && (at ?? frame.at) >= frame.to) setAt(frame.from);
+    setPlaying((p) => !p);
+  }, [frame, at]);
+
+  return {
+    active,
+    toggle,
+    at: at ?? frame?.at ?? null,
+    seek,
+    frame,
+    playing,
+    play,
+    speed,
+    setSpeed,
+    loading,
+    error,
+    empty,
+  };
+}
+
+export type Replay = ReturnType<typeof useReplay>;
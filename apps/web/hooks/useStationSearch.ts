@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Station } from "@vlille/contracts";
+
+export type SearchResult = Station & {
+  score: number;
+  /** champ qui a le mieux répondu à la recherche */
+  matched: "name" | "address";
+};
+
+/** Délai de frappe avant d'interroger l'API */
+const DEBOUNCE_MS = 150;
+const LIMIT = 8;
+
+/**
+ * Stations correspondant à `query` (nom ou adresse, accents et fautes de
+ * frappe tolérés), calculées côté API pour des résultats identiques partout.
+ */
+export function useStationSearch(query: string, systemId?: string) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const q = query.trim();
+
+  useEffect(() => {
+    if (!q) return;
+    const ac = new AbortController();
+
+    const id = setTimeout(async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ q, limit: String(LIMIT) });
+        if (systemId) params.set("system", systemId);
+
+        const res = await fetch(`/api/stations/search?${params}`, {
+          cache: "no-store",
+          signal: ac.signal,
+        });
+        if (!res.ok) throw new Error("Failed to search stations");
+        setResults(await res.json());
+        setError(null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!ac.signal.aborted) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(id);
+      ac.abort();
+    };
+  }, [q, systemId]);
+
+  return { results: q ? results : [], loading: q ? loading : false, error };
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Dispatch, SetStateAction } from "react";
+import type { Station, StationsDiff } from "@vlille/contracts";
+import { useOnline } from "@/hooks/useRefreshScheduler";
+
+/** Date des données amont et snapshot de secours (source indisponible) */
+export type DataFreshness = { updatedAt: number; stale: boolean };
+
+/** Fraîcheur lue dans les en-têtes de `/api/stations` */
+export function freshnessFromHeaders(headers: Headers): DataFreshness | null {
+  const updatedAt = Date.parse(headers.get("X-Data-Updated-At") ?? "");
+  if (Number.isNaN(updatedAt)) return null;
+  return { updatedAt, stale: headers.get("X-Data-Stale") === "true" };
+}
+
+/** Applique un diff en conservant la référence des stations inchangées */
+export function applyStationsDiff(
+  stations: Station[],
+  { changed, removed }: StationsDiff
+): Station[] {
+  const gone = new Set(removed);
+  const updates = new Map(changed.map((s) => [s.id, s]));
+
+  const next = stations
+    .filter((s) => !gone.has(s.id))
+    .map((s) => {
+      const u = updates.get(s.id);
+      if (!u) return s;
+      updates.delete(s.id);
+      return u;
+    });
+
+  // stations nouvelles (ou repassées au-dessus du seuil)
+  return updates.size ? [...next, ...updates.values()] : next;
+}
+
+/**
+ * S'abonne au flux SSE `/api/stations/stream` et patche `stations` à chaque
+ * changement. Renvoie `true` tant que le flux est connecté (l'appelant peut
+ * alors couper son polling). `onFreshness` reçoit la date des données amont.
+ * Hors ligne le flux est fermé, puis rouvert au retour du réseau.
+ */
+export function useStationsStream(
+  min: number,
+  systemId: string | undefined,
+  setStations: Dispatch<SetStateAction<Station[]>>,
+  onUpdate?: (at: Date) => void,
+  onFreshness?: (freshness: DataFreshness) => void
+) {
+  const [connected, setConnected] = useState(false);
+  const online = useOnline();
+  const onUpdateRef = useRef(onUpdate);
+  const onFreshnessRef = useRef(onFreshness);
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+    onFreshnessRef.current = onFreshness;
+  }, [onUpdate, onFreshness]);
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined" || !online) return;
+
+    const params = new URLSearchParams();
+    if (min) params.set("min", String(min));
+    if (systemId) params.set("system", systemId);
+    const qs = params.size ? `?${params}` : "";
+    const es = new EventSource(`/api/stations/stream${qs}`);
+
+    es.onopen = () => setConnected(true);
+    // EventSource se reconnecte seul ; on signale juste la coupure
+    es.onerror = () => setConnected(false);
+
+    es.addEventListener("snapshot", (e) => {
+      setStations(JSON.parse((e as MessageEvent<string>).data));
+      onUpdateRef.current?.(new Date());
+    });
+
+    es.addEventListener("changes", (e) => {
+      const diff = JSON.parse((e as MessageEvent<string>).data) as StationsDiff;
+      setStations((prev) => applyStationsDiff(prev, diff));
+      onUpdateRef.current?.(new Date());
+    });
+
+    es.addEventListener("freshness", (e) => {
+      onFreshnessRef.current?.(JSON.parse((e as MessageEvent<string>).data));
+    });
+
+    return () => {
+      es.close();
+      setConnected(false);
+    };
+  }, [min, systemId, setStations, online]);
+
+  return connected;
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { LatLon, NearbyStation } from "@/hooks/useNearestStations";
+
+export type Place = LatLon & { label?: string };
+
+export type TripEnd = {
+  station: NearbyStation;
+  /** station de repli quand la première est presque vide / presque pleine */
+  fallback?: NearbyStation;
+  low: boolean;
+};
+
+export type TripPlan = {
+  pickup: TripEnd;
+  dropoff: TripEnd;
+  ride: { distance: number; minutes: number };
+  totalMinutes: number;
+  walk: { distance: number; minutes: number };
+  walkIsFaster: boolean;
+  checkedAt: number;
+  /** disponibilités issues du dernier snapshot connu (source indisponible) */
+  stale: boolean;
+};
+
+/**
+ * Plan de trajet (station de départ / d'arrivée) calculé côté API dès que
+ * départ et arrivée sont connus, et recalculé à chaque `refreshKey` pour
+ * suivre les disponibilités.
+ */
+export function useTripPlan(
+  origin: Place | null,
+  destination: Place | null,
+  systemId?: string,
+  refreshKey?: unknown
+) {
+  const [plan, setPlan] = useState<TripPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!origin || !destination) return;
+    const ac = new AbortController();
+
+    (async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({
+          from: `${origin.lat},${origin.lon}`,
+          to: `${destination.lat},${destination.lon}`,
+        });
+        if (systemId) params.set("system", systemId);
+
+        const res = await fetch(`/api/trips/plan?${params}`, {
+          cache: "no-store",
+          signal: ac.signal,
+        });
+        if (res.status === 404) {
+          setPlan(null);
+          setError("no-station");
+          return;
+        }
+        if (!res.ok) throw new Error("Failed to plan trip");
+        setPlan(await res.json());
+        setError(null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!ac.signal.aborted) setLoading(false);
+      }
+    })();
+
+    return () => ac.abort();
+  }, [origin, destination, systemId, refreshKey]);
+
+  const ready = !!origin && !!destination;
+  return {
+    plan: ready ? plan : null,
+    loading: ready && loading,
+    error: ready ? error : null,
+  };
+}
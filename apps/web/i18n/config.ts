@@ -0,0 +1,84 @@
+/**
+ * Langues de l'interface. Ce module ne dépend ni de React ni de Next : il est
+ * partagé par le proxy (détection de la langue), les pages et les composants.
+ */
+
+export const LOCALES = ["fr", "en", "nl"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "fr";
+
+/** Cookie mémorisant la langue choisie (comme le cookie du thème) */
+export const LOCALE_COOKIE = "locale";
+
+/** Nom de chaque langue dans cette langue (sélecteur de langue) */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  fr: "Français",
+  en: "English",
+  nl: "Nederlands",
+};
+
+/** Variante régionale utilisée pour les nombres et les dates (Intl) */
+export const INTL_LOCALES: Record<Locale, string> = {
+  fr: "fr-FR",
+  en: "en-GB",
+  nl: "nl-BE",
+};
+
+/** Variante Open Graph (`og:locale`) */
+export const OG_LOCALES: Record<Locale, string> = {
+  fr: "fr_FR",
+  en: "en_GB",
+  nl: "nl_BE",
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return (LOCALES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Langue d'une première visite : le cookie s'il est valide, sinon la première
+ * langue prise en charge de l'en-tête Accept-Language (par qualité
+ * décroissante), sinon la langue par défaut.
+ */
+export function negotiateLocale(
+  acceptLanguage: string | null | undefined,
+  cookie?: string | null
+): Locale {
+  if (isLocale(cookie)) return cookie;
+
+  const ranked = (acceptLanguage ?? "")
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+      return {
+        lang: tag.split("-")[0].toLowerCase(),
+        q: q ? Number(q.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter(({ lang, q }) => lang && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  return (
+    (ranked.find(({ lang }) => isLocale(lang))?.lang as Locale) ??
+    DEFAULT_LOCALE
+  );
+}
+
+/** `/en/stations/36` → `{ locale: "en", rest: "/stations/36" }` */
+export function splitLocale(pathname: string): {
+  locale: Locale | null;
+  rest: string;
+} {
+  const [, first, ...rest] = pathname.split("/");
+  if (!isLocale(first)) return { locale: null, rest: pathname };
+  return { locale: first, rest: `/${rest.join("/")}` };
+}
+
+/** Même page dans une autre langue */
+export function localizePath(locale: Locale, pathname: string) {
+  const { rest } = splitLocale(pathname);
+  return rest === "/" ? `/${locale}` : `/${locale}${rest}`;
+}
@@ -0,0 +1,65 @@
+import { INTL_LOCALES } from "./config";
+import type { Locale } from "./config";
+
+/** Accords au singulier / pluriel ; `#` est remplacé par le nombre formaté */
+export type Plural = { one: string; other: string };
+
+export function formatNumber(
+  locale: Locale,
+  value: number,
+  options?: Intl.NumberFormatOptions
+) {
+  return new Intl.NumberFormat(INTL_LOCALES[locale], options).format(value);
+}
+
+/** `plural("fr", 2, { one: "# vélo", other: "# vélos" })` → "2 vélos" */
+export function plural(locale: Locale, count: number, forms: Plural) {
+  const rule = new Intl.PluralRules(INTL_LOCALES[locale]).select(count);
+  const form = rule === "one" ? forms.one : forms.other;
+  return form.replace("#", formatNumber(locale, count));
+}
+
+/** Distance à pied : en mètres sous 1 km, puis en km à une décimale */
+export function formatDistance(locale: Locale, meters: number) {
+  return meters < 1000
+    ? formatNumber(locale, meters, { style: "unit", unit: "meter" })
+    : formatNumber(locale, meters / 1000, {
+        style: "unit",
+        unit: "kilometer",
+        minimumFractionDigits: 1,
+        maximumFractionDigits: 1,
+      });
+}
+
+/**
+ * Heure (hh:mm). `timeZone` : celui du réseau pour un rendu serveur, celui du
+ * navigateur sinon.
+ */
+export function formatTime(
+  locale: Locale,
+  date: Date | number,
+  timeZone?: string
+) {
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  }).format(date);
+}
+
+/** Jour et heure courts : "18 oct., 14:05" */
+export function formatDateTime(locale: Locale, date: Date | number) {
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+}
+
+/** Jour de la semaine abrégé : "sam." */
+export function formatWeekday(locale: Locale, date: Date | number) {
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    weekday: "short",
+  }).format(date);
+}
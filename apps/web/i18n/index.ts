@@ -0,0 +1,16 @@
+import type { Locale } from "./config";
+import en from "./messages/en";
+import fr from "./messages/fr";
+import type { Messages } from "./messages/fr";
+import nl from "./messages/nl";
+
+export * from "./config";
+export * from "./format";
+export type { Messages };
+
+const CATALOGS: Record<Locale, Messages> = { fr, en, nl };
+
+/** Catalogue d'une langue (chargé avec le code : quelques ko par langue) */
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale];
+}
@@ -0,0 +1,304 @@
+import type { Messages } from "./fr";
+
+const en: Messages = {
+  meta: {
+    site: "V’Lille Maps",
+    description: "Live bike and dock availability at V’Lille stations.",
+  },
+  home: {
+    loadingMap: "Loading the map…",
+    badge: "🟢 Prototype",
+    realtime: "Real-time data",
+    title: "V’Lille — Live availability",
+    intro:
+      "View V’Lille stations on a map and check in real time how many bikes and docks are available. Filter by a minimum bike threshold to quickly find a useful station.",
+    minLabel: "Minimum bikes threshold",
+    minAria: "Filter by minimum number of available bikes",
+    network: "Bike network",
+    lastUpdate: "Last update:",
+    stations: "Network stations",
+    bikes: "Available bikes (total)",
+    average: "Average bikes / station",
+    loadError: "Loading error:",
+    mapLabel: "V’Lille stations map",
+    aboutTitle: "About this project",
+    about:
+      "This educational prototype showcases a modern stack: Node/Express backend (cache driven by the GBFS ttl, last-known snapshot fallback), API proxy via Next.js, React front-end with the App Router, Tailwind v4, and a Leaflet map (colored icons, clustering, geolocation).",
+    aboutItems: [
+      "Data comes from the operator’s Open Data feed (GBFS format) and is aggregated server-side for the map.",
+      "The <code>min</code> parameter filters stations server-side based on available bikes.",
+      "Changes are pushed live (Server-Sent Events), with a refresh every minute as a fallback.",
+    ],
+    tip: "Tip: use the <strong>📍 Center me</strong> button on the map to geolocate yourself and recenter the view.",
+    footer: "Unofficial prototype — for technical demonstration.",
+    refreshing: "Updating data…",
+  },
+  language: {
+    label: "Language",
+  },
+  theme: {
+    toggle: "Toggle light/dark theme",
+    toLight: "Switch to light",
+    toDark: "Switch to dark",
+  },
+  units: {
+    bikes: { one: "# bike", other: "# bikes" },
+    docks: { one: "# dock", other: "# docks" },
+  },
+  search: {
+    placeholder: "🔎 Search a station or an address…",
+    label: "Search a station",
+    empty: "No station found",
+  },
+  freshness: {
+    now: "Data from just now",
+    ago: (min) => `Data from ${min} min ago`,
+    stale: "Source unavailable, showing last known data",
+    offline: "Offline",
+    snapshot: (time) => `snapshot from ${time}`,
+  },
+  map: {
+    locate: "Center me",
+    details: "Station details →",
+    reported: "Reported at",
+    forecasting: "Forecasting…",
+    forecast: (bikes) => `Probably ${bikes}`,
+    forecastIn: (min) => `in ${min} min`,
+    closed: "⛔ Station out of service",
+    notRenting: "⛔ Renting suspended",
+    notReturning: "⚠️ Returns unavailable",
+    addFavorite: "Add to favorites",
+    removeFavorite: "Remove from favorites",
+    alert: "Notify me",
+    walk: "walk",
+    ride: "by bike",
+    origin: "From",
+    destination: "To",
+  },
+  layers: {
+    markers: "Stations",
+    bikes: "Heatmap: bikes",
+    docks: "Heatmap: docks",
+    pressure: "Pressure (trends)",
+  },
+  pressure: {
+    emptying: (bikes) => `emptying: -${bikes}`,
+    filling: (bikes) => `filling: +${bikes}`,
+    perHour: "/h",
+    empty: "already empty",
+    full: "already full",
+    emptyIn: (min) => `empty in ~${min} min`,
+    fullIn: (min) => `full in ~${min} min`,
+  },
+  legend: {
+    colorBy: "Color by:",
+    modes: { bikes: "🚲 Bikes", docks: "🅿️ Docks", fill: "📊 Fill" },
+    units: { bikes: "bikes", docks: "docks", fill: "" },
+    good: "Good",
+    low: "Low",
+    empty: "Empty",
+    closed: {
+      bikes: "Closed / renting suspended",
+      docks: "Closed / returns blocked",
+      fill: "Closed / renting suspended",
+    },
+    clusters: "Groups: bikes / free docks",
+    bikes: "Available bikes",
+    docks: "Free docks",
+    none: "none",
+    many: (n) => `${n} or more`,
+    emptying: "Emptying: empty within the hour",
+    filling: "Filling: full within the hour",
+    urgency: "Larger halo = sooner",
+  },
+  replay: {
+    title: "Replay",
+    start: "⏪ Replay the day",
+    stop: "Back to live",
+    hint: "Replay recorded snapshots to watch the network empty and refill over the day.",
+    play: "▶ Play",
+    pause: "⏸ Pause",
+    speed: "Speed",
+    jump: "Jump to",
+    slider: "Position in the history",
+    frame: "Snapshot of",
+    loading: "Loading…",
+    empty: "No history recorded for this network.",
+    perSecond: (min) => (min >= 60 ? `${min / 60} h / s` : `${min} min / s`),
+  },
+  favorites: {
+    title: "My stations",
+    hint: "Add a station with ☆ in its popup on the map.",
+    remove: "Remove from favorites",
+    closed: "Closed",
+    bikes: "bikes",
+    docks: "docks",
+    elsewhere: {
+      one: "# favorite on another network",
+      other: "# favorites on another network",
+    },
+    sync: "Sync",
+    syncHint:
+      "Get your favorites on another device (or share them with your team) with an anonymous code.",
+    enable: "☁️ Enable",
+    join: "Use this code",
+    codePlaceholder: "Existing code…",
+    code: "Code",
+    disable: "Disable",
+    states: {
+      off: "",
+      syncing: "Syncing…",
+      synced: "✓ Synced",
+      error: "Sync failed",
+    },
+  },
+  alerts: {
+    title: "Alerts",
+    hint: "Click 🔔 in a station popup to get notified, even with the tab closed.",
+    notify: "Notify me when",
+    has: "has at least",
+    bikes: "bikes",
+    docks: "docks",
+    create: "Create alert",
+    cancel: "Cancel",
+    created: "✓ Alert created",
+    remove: "Delete alert",
+    until: "until",
+    errors: {
+      unsupported: "Notifications are not supported by this browser.",
+      denied: "Notifications blocked: allow them in your browser.",
+      unconfigured: "Notifications are not configured on the server.",
+      "too-many": "Too many pending alerts.",
+      failed: "Could not create the alert.",
+    },
+  },
+  nearby: {
+    title: "Nearby",
+    bike: "🚲 Find a bike",
+    dock: "🅿️ Find a dock",
+    locate: "📍 Around me",
+    locating: "Locating…",
+    denied: "Location unavailable",
+    hint: "Share your location to list the closest stations.",
+    empty: "No usable station nearby.",
+    walk: "walk",
+  },
+  trip: {
+    title: "Trip planner",
+    origin: "From",
+    destination: "To",
+    placeholder: "Address…",
+    search: "Search",
+    pick: "📍 Map",
+    picking: "Click on the map",
+    swap: "⇅ Swap",
+    clear: "Clear",
+    noResult: "No address found",
+    hint: "Type an address or click on the map for the start and end points.",
+    noStation: "No station within walking distance.",
+    walkTo: "Walk to",
+    rideTo: "Ride to",
+    walkToDestination: "Walk to destination",
+    bikes: "bikes",
+    docks: "docks",
+    nearlyEmpty: "Nearly empty",
+    nearlyFull: "Nearly full",
+    fallback: "fallback",
+    total: "Total",
+    walkFaster: "Walking is faster",
+    checked: "Availability checked at",
+    stale: "cached data, source unavailable",
+    planning: "Planning…",
+  },
+  station: {
+    back: "← All stations",
+    bikes: "Bikes",
+    docks: "Free docks",
+    capacity: "Capacity",
+    ebikes: "electric",
+    mechanical: "mechanical",
+    reported: "Reported at",
+    closed: "⛔ Station out of service",
+    notRenting: "⛔ Renting suspended",
+    notReturning: "⚠️ Returns unavailable",
+    history: "Last 24 hours",
+    noHistory: "No history recorded for this station yet.",
+    alternatives: "Nearby alternatives",
+    noAlternatives: "No other station with bikes nearby.",
+    walk: "walk",
+    freeDocks: { one: "# free dock", other: "# free docks" },
+    summary: (bikes, docks) => `${bikes} and ${docks}`,
+  },
+  chart: {
+    bikes: "Bikes",
+    docks: "Docks",
+    title: "Bikes and free docks",
+  },
+  ops: {
+    link: "🛠️ Operator dashboard",
+    back: "← Stations map",
+    title: "Fleet rebalancing",
+    intro:
+      "Empty or full stations, how long they have been so, and bike moves suggested to field staff.",
+    network: "Bike network",
+    updated: "Data from",
+    stale: "source unavailable, showing last known data",
+    loadError: "Loading error:",
+    levels: {
+      empty: "Empty",
+      "nearly-empty": "Nearly empty",
+      "nearly-full": "Nearly full",
+      full: "Full",
+    },
+    stations: "Imbalanced stations",
+    balanced: "No imbalanced station.",
+    station: "Station",
+    state: "State",
+    bikes: "Bikes",
+    docks: "Docks",
+    fill: "Fill",
+    since: "For",
+    duration: (h, min) =>
+      h ? `${h} h ${String(min).padStart(2, "0")}` : `${min} min`,
+    moves: "Suggested moves",
+    noMoves: "No moves possible within 3 km of the empty or full stations.",
+    move: (bikes) => `Move ${bikes}`,
+  },
+  stats: {
+    link: "📊 Network statistics",
+    back: "← Station map",
+    title: "Network statistics",
+    intro:
+      "Occupancy, empty or full stations and estimated trips, from the snapshots recorded by the API.",
+    network: "Bike network",
+    ranges: { day: "24 h", week: "7 days" },
+    loadError: "Loading error:",
+    occupancy: "Occupancy",
+    bikes: "Docked bikes",
+    docks: "Free docks",
+    empty: "Empty stations",
+    full: "Full stations",
+    active: (active, total) => `${active} / ${total} in service`,
+    occupancyChart: "Network occupancy",
+    levelsChart: "Empty and full stations",
+    hoursChart: "Trips by hour of day",
+    hoursHint:
+      "Bike count changes summed over the period; the three busiest hours are highlighted.",
+    turnover: (moves) => `Estimated trips: ${moves}`,
+    busiest: "Busiest stations",
+    moves: { one: "# trip", other: "# trips" },
+    noHistory: "Not enough history for this network yet.",
+  },
+  downloads: {
+    title: "Open data",
+    intro:
+      "Download the data for a GIS or a spreadsheet. The history covers the last 24 h.",
+    range: "The history covers the displayed period.",
+    stations: "Stations",
+    history: "History",
+    gbfs: "GBFS feed",
+    gbfsHint: "gbfs.json entry point of our merged data",
+  },
+};
+
+export default en;
@@ -0,0 +1,318 @@
+import type { Plural } from "../format";
+
+/**
+ * Catalogue de référence : sa forme fait foi (type `Messages`), les autres
+ * langues doivent fournir exactement les mêmes clés. Les pluriels sont des
+ * `Plural` (`#` = le nombre), rendus avec `plural()`.
+ */
+const fr = {
+  meta: {
+    site: "V’Lille Maps",
+    description:
+      "Vélos et places disponibles en temps réel dans les stations V’Lille.",
+  },
+  home: {
+    loadingMap: "Chargement de la carte…",
+    badge: "🟢 Prototype",
+    realtime: "Données temps réel",
+    title: "V’Lille — Disponibilités en temps réel",
+    intro:
+      "Visualisez les stations V’Lille sur une carte et consultez en direct le nombre de vélos et d’emplacements disponibles. Filtrez par seuil minimal de vélos pour trouver rapidement une station utile.",
+    minLabel: "Seuil minimum de vélos",
+    minAria: "Filtrer par nombre minimum de vélos disponibles",
+    network: "Réseau de vélos",
+    lastUpdate: "Dernière mise à jour :",
+    stations: "Stations du réseau",
+    bikes: "Vélos disponibles (somme)",
+    average: "Moyenne vélos / station",
+    loadError: "Erreur de chargement :",
+    mapLabel: "Carte des stations V’Lille",
+    aboutTitle: "À propos du projet",
+    about:
+      "Ce prototype pédagogique illustre une stack moderne : backend Node/Express (cache selon le ttl GBFS, repli sur le dernier snapshot connu), proxy API via Next.js, front React avec App Router, Tailwind v4, et carte Leaflet (icônes colorées, clustering, géolocalisation).",
+    aboutItems: [
+      "Les données proviennent de l’Open Data (format GBFS) exposé par l’opérateur, et sont agrégées côté serveur pour la carte.",
+      "Le champ <code>min</code> filtre côté serveur les stations selon le nombre de vélos disponibles.",
+      "Les changements sont poussés en direct (Server-Sent Events), avec un rafraîchissement chaque minute en repli.",
+    ],
+    tip: "Astuce : utilisez le bouton <strong>📍 Me centrer</strong> sur la carte pour vous géolocaliser et recentrer la vue.",
+    footer: "Prototype non officiel — pour démonstration technique.",
+    refreshing: "Actualisation des données…",
+  },
+  language: {
+    label: "Langue",
+  },
+  theme: {
+    toggle: "Basculer le thème clair/sombre",
+    toLight: "Passer en clair",
+    toDark: "Passer en sombre",
+  },
+  units: {
+    bikes: { one: "# vélo", other: "# vélos" } as Plural,
+    docks: { one: "# place", other: "# places" } as Plural,
+  },
+  search: {
+    placeholder: "🔎 Rechercher une station ou une adresse…",
+    label: "Rechercher une station",
+    empty: "Aucune station trouvée",
+  },
+  freshness: {
+    now: "Données à l’instant",
+    ago: (min: number) => `Données d’il y a ${min} min`,
+    stale: "Source indisponible, dernières données connues",
+    offline: "Hors ligne",
+    snapshot: (time: string) => `instantané de ${time}`,
+  },
+  map: {
+    locate: "Me centrer",
+    details: "Fiche de la station →",
+    reported: "Relevé à",
+    forecasting: "Prévision…",
+    forecast: (bikes: string) => `Probablement ${bikes}`,
+    forecastIn: (min: number) => `dans ${min} min`,
+    closed: "⛔ Station hors service",
+    notRenting: "⛔ Location suspendue",
+    notReturning: "⚠️ Retour de vélos impossible",
+    addFavorite: "Ajouter aux favoris",
+    removeFavorite: "Retirer des favoris",
+    alert: "Me prévenir",
+    walk: "à pied",
+    ride: "à vélo",
+    origin: "Départ",
+    destination: "Arrivée",
+  },
+  layers: {
+    markers: "Stations",
+    bikes: "Chaleur : vélos",
+    docks: "Chaleur : places",
+    pressure: "Pression (tendances)",
+  },
+  pressure: {
+    emptying: (bikes: string) => `se vide : -${bikes}`,
+    filling: (bikes: string) => `se remplit : +${bikes}`,
+    perHour: "/h",
+    empty: "déjà vide",
+    full: "déjà pleine",
+    emptyIn: (min: number) => `vide dans ~${min} min`,
+    fullIn: (min: number) => `pleine dans ~${min} min`,
+  },
+  legend: {
+    colorBy: "Couleur :",
+    modes: { bikes: "🚲 Vélos", docks: "🅿️ Places", fill: "📊 Remplissage" },
+    units: { bikes: "vélos", docks: "places", fill: "" },
+    good: "Bonne",
+    low: "Faible",
+    empty: "Vide",
+    closed: {
+      bikes: "Fermée / location suspendue",
+      docks: "Fermée / retour impossible",
+      fill: "Fermée / location suspendue",
+    },
+    clusters: "Groupes : vélos / places libres",
+    bikes: "Vélos disponibles",
+    docks: "Places libres",
+    none: "aucun",
+    many: (n: number) => `${n} et plus`,
+    emptying: "Se vide : vide dans moins d’une heure",
+    filling: "Se remplit : pleine dans moins d’une heure",
+    urgency: "Halo plus large = échéance plus proche",
+  },
+  replay: {
+    title: "Rejeu",
+    start: "⏪ Revoir la journée",
+    stop: "Revenir au direct",
+    hint: "Rejouez les relevés enregistrés pour voir le réseau se vider et se remplir au fil de la journée.",
+    play: "▶ Lecture",
+    pause: "⏸ Pause",
+    speed: "Vitesse",
+    jump: "Aller à",
+    slider: "Position dans l’historique",
+    frame: "Relevé du",
+    loading: "Chargement…",
+    empty: "Aucun historique enregistré pour ce réseau.",
+    perSecond: (min: number) =>
+      min >= 60 ? `${min / 60} h / s` : `${min} min / s`,
+  },
+  favorites: {
+    title: "Mes stations",
+    hint: "Ajoutez une station avec ☆ dans sa bulle sur la carte.",
+    remove: "Retirer des favoris",
+    closed: "Fermée",
+    bikes: "vélos",
+    docks: "places",
+    elsewhere: {
+      one: "# favori sur un autre réseau",
+      other: "# favoris sur un autre réseau",
+    } as Plural,
+    sync: "Synchronisation",
+    syncHint:
+      "Retrouvez vos favoris sur un autre appareil (ou partagez-les avec votre équipe) grâce à un code anonyme.",
+    enable: "☁️ Activer",
+    join: "Utiliser ce code",
+    codePlaceholder: "Code existant…",
+    code: "Code",
+    disable: "Désactiver",
+    states: {
+      off: "",
+      syncing: "Synchronisation…",
+      synced: "✓ Synchronisé",
+      error: "Échec de la synchronisation",
+    },
+  },
+  alerts: {
+    title: "Alertes",
+    hint: "Cliquez sur 🔔 dans la bulle d’une station pour être prévenu, même onglet fermé.",
+    notify: "Me prévenir quand",
+    has: "a au moins",
+    bikes: "vélos",
+    docks: "places",
+    create: "Créer l’alerte",
+    cancel: "Annuler",
+    created: "✓ Alerte créée",
+    remove: "Supprimer l’alerte",
+    until: "jusqu’à",
+    errors: {
+      unsupported: "Notifications non prises en charge par ce navigateur.",
+      denied: "Notifications refusées : autorisez-les dans le navigateur.",
+      unconfigured: "Les notifications ne sont pas configurées sur le serveur.",
+      "too-many": "Trop d’alertes en attente.",
+      failed: "Impossible de créer l’alerte.",
+    },
+  },
+  nearby: {
+    title: "À proximité",
+    bike: "🚲 Trouver un vélo",
+    dock: "🅿️ Trouver une place",
+    locate: "📍 Autour de moi",
+    locating: "Localisation…",
+    denied: "Position indisponible",
+    hint: "Géolocalisez-vous pour lister les stations les plus proches.",
+    empty: "Aucune station utilisable à proximité.",
+    walk: "à pied",
+  },
+  trip: {
+    title: "Itinéraire",
+    origin: "Départ",
+    destination: "Arrivée",
+    placeholder: "Adresse…",
+    search: "Rechercher",
+    pick: "📍 Carte",
+    picking: "Cliquez sur la carte",
+    swap: "⇅ Inverser",
+    clear: "Effacer",
+    noResult: "Aucune adresse trouvée",
+    hint: "Saisissez une adresse ou cliquez sur la carte pour le départ et l’arrivée.",
+    noStation: "Aucune station à distance de marche.",
+    walkTo: "Marcher jusqu’à",
+    rideTo: "Pédaler jusqu’à",
+    walkToDestination: "Marcher jusqu’à l’arrivée",
+    bikes: "vélos",
+    docks: "places",
+    nearlyEmpty: "Presque vide",
+    nearlyFull: "Presque pleine",
+    fallback: "repli",
+    total: "Total",
+    walkFaster: "À pied, c’est plus rapide",
+    checked: "Disponibilités vérifiées à",
+    stale: "données en cache, source indisponible",
+    planning: "Calcul…",
+  },
+  station: {
+    back: "← Toutes les stations",
+    bikes: "Vélos",
+    docks: "Places libres",
+    capacity: "Capacité",
+    ebikes: "électriques",
+    mechanical: "mécaniques",
+    reported: "Relevé à",
+    closed: "⛔ Station hors service",
+    notRenting: "⛔ Location suspendue",
+    notReturning: "⚠️ Retour de vélos impossible",
+    history: "Dernières 24 h",
+    noHistory: "Pas encore d’historique pour cette station.",
+    alternatives: "Alternatives à proximité",
+    noAlternatives: "Aucune autre station avec des vélos à proximité.",
+    walk: "à pied",
+    freeDocks: {
+      one: "# place libre",
+      other: "# places libres",
+    } as Plural,
+    summary: (bikes: string, docks: string) => `${bikes} et ${docks}`,
+  },
+  chart: {
+    bikes: "Vélos",
+    docks: "Places",
+    title: "Vélos et places libres",
+  },
+  ops: {
+    link: "🛠️ Tableau de bord opérateur",
+    back: "← Carte des stations",
+    title: "Rééquilibrage du parc",
+    intro:
+      "Stations vides ou pleines, depuis combien de temps, et déplacements de vélos proposés aux équipes terrain.",
+    network: "Réseau de vélos",
+    updated: "Données du",
+    stale: "source indisponible, dernières données connues",
+    loadError: "Erreur de chargement :",
+    levels: {
+      empty: "Vide",
+      "nearly-empty": "Presque vide",
+      "nearly-full": "Presque pleine",
+      full: "Pleine",
+    },
+    stations: "Stations déséquilibrées",
+    balanced: "Aucune station déséquilibrée.",
+    station: "Station",
+    state: "État",
+    bikes: "Vélos",
+    docks: "Places",
+    fill: "Remplissage",
+    since: "Depuis",
+    duration: (h: number, min: number) =>
+      h ? `${h} h ${String(min).padStart(2, "0")}` : `${min} min`,
+    moves: "Déplacements proposés",
+    noMoves:
+      "Aucun déplacement possible à moins de 3 km des stations vides ou pleines.",
+    move: (bikes: string) => `Déplacer ${bikes}`,
+  },
+  stats: {
+    link: "📊 Statistiques du réseau",
+    back: "← Carte des stations",
+    title: "Statistiques du réseau",
+    intro:
+      "Taux d'occupation, stations vides ou pleines et mouvements estimés d'après les relevés enregistrés par l'API.",
+    network: "Réseau de vélos",
+    ranges: { day: "24 h", week: "7 jours" },
+    loadError: "Erreur de chargement :",
+    occupancy: "Taux d'occupation",
+    bikes: "Vélos en station",
+    docks: "Places libres",
+    empty: "Stations vides",
+    full: "Stations pleines",
+    active: (active: number, total: number) =>
+      `${active} / ${total} en service`,
+    occupancyChart: "Taux d'occupation du réseau",
+    levelsChart: "Stations vides et pleines",
+    hoursChart: "Mouvements par heure de la journée",
+    hoursHint:
+      "Variations du nombre de vélos cumulées sur la période ; les trois heures les plus chargées sont en évidence.",
+    turnover: (moves: string) => `Mouvements estimés : ${moves}`,
+    busiest: "Stations les plus actives",
+    moves: { one: "# mouvement", other: "# mouvements" },
+    noHistory: "Pas encore assez d'historique pour ce réseau.",
+  },
+  downloads: {
+    title: "Données ouvertes",
+    intro:
+      "Téléchargez les données pour un SIG ou un tableur. L'historique couvre les dernières 24 h.",
+    range: "L'historique couvre la période affichée.",
+    stations: "Stations",
+    history: "Historique",
+    gbfs: "Flux GBFS",
+    gbfsHint: "Point d'entrée gbfs.json de nos données fusionnées",
+  },
+};
+
+export type Messages = typeof fr;
+
+export default fr;
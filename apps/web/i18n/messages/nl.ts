@@ -0,0 +1,306 @@
+import type { Messages } from "./fr";
+
+const nl: Messages = {
+  meta: {
+    site: "V’Lille Maps",
+    description:
+      "Live beschikbaarheid van fietsen en plaatsen in de V’Lille-stations.",
+  },
+  home: {
+    loadingMap: "Kaart laden…",
+    badge: "🟢 Prototype",
+    realtime: "Realtime gegevens",
+    title: "V’Lille — Live beschikbaarheid",
+    intro:
+      "Bekijk de V’Lille-stations op een kaart en zie live hoeveel fietsen en plaatsen er vrij zijn. Filter op een minimumaantal fietsen om snel een bruikbaar station te vinden.",
+    minLabel: "Minimumaantal fietsen",
+    minAria: "Filteren op minimumaantal beschikbare fietsen",
+    network: "Fietsnetwerk",
+    lastUpdate: "Laatst bijgewerkt:",
+    stations: "Stations in het netwerk",
+    bikes: "Beschikbare fietsen (totaal)",
+    average: "Gemiddeld fietsen / station",
+    loadError: "Fout bij het laden:",
+    mapLabel: "Kaart van de V’Lille-stations",
+    aboutTitle: "Over dit project",
+    about:
+      "Dit leerprototype toont een moderne stack: Node/Express-backend (cache volgens de GBFS-ttl, terugval op de laatst bekende snapshot), API-proxy via Next.js, React-frontend met de App Router, Tailwind v4 en een Leaflet-kaart (gekleurde iconen, clustering, geolocatie).",
+    aboutItems: [
+      "De gegevens komen uit de Open Data (GBFS-formaat) van de exploitant en worden op de server samengevoegd voor de kaart.",
+      "De parameter <code>min</code> filtert de stations op de server volgens het aantal beschikbare fietsen.",
+      "Wijzigingen worden live doorgestuurd (Server-Sent Events), met elke minuut een verversing als terugval.",
+    ],
+    tip: "Tip: gebruik de knop <strong>📍 Centreer mij</strong> op de kaart om je te lokaliseren en het beeld te centreren.",
+    footer: "Onofficieel prototype — technische demonstratie.",
+    refreshing: "Gegevens worden bijgewerkt…",
+  },
+  language: {
+    label: "Taal",
+  },
+  theme: {
+    toggle: "Licht/donker thema wisselen",
+    toLight: "Naar licht",
+    toDark: "Naar donker",
+  },
+  units: {
+    bikes: { one: "# fiets", other: "# fietsen" },
+    docks: { one: "# plaats", other: "# plaatsen" },
+  },
+  search: {
+    placeholder: "🔎 Zoek een station of een adres…",
+    label: "Zoek een station",
+    empty: "Geen station gevonden",
+  },
+  freshness: {
+    now: "Gegevens van zonet",
+    ago: (min) => `Gegevens van ${min} min geleden`,
+    stale: "Bron onbeschikbaar, laatst bekende gegevens",
+    offline: "Offline",
+    snapshot: (time) => `momentopname van ${time}`,
+  },
+  map: {
+    locate: "Centreer mij",
+    details: "Stationsfiche →",
+    reported: "Gemeten om",
+    forecasting: "Voorspelling…",
+    forecast: (bikes) => `Waarschijnlijk ${bikes}`,
+    forecastIn: (min) => `over ${min} min`,
+    closed: "⛔ Station buiten dienst",
+    notRenting: "⛔ Ontlenen onderbroken",
+    notReturning: "⚠️ Terugbrengen onmogelijk",
+    addFavorite: "Toevoegen aan favorieten",
+    removeFavorite: "Verwijderen uit favorieten",
+    alert: "Verwittig mij",
+    walk: "te voet",
+    ride: "met de fiets",
+    origin: "Vertrek",
+    destination: "Aankomst",
+  },
+  layers: {
+    markers: "Stations",
+    bikes: "Heatmap: fietsen",
+    docks: "Heatmap: plaatsen",
+    pressure: "Druk (trends)",
+  },
+  pressure: {
+    emptying: (bikes) => `loopt leeg: -${bikes}`,
+    filling: (bikes) => `loopt vol: +${bikes}`,
+    perHour: "/u",
+    empty: "al leeg",
+    full: "al vol",
+    emptyIn: (min) => `leeg over ~${min} min`,
+    fullIn: (min) => `vol over ~${min} min`,
+  },
+  legend: {
+    colorBy: "Kleur:",
+    modes: { bikes: "🚲 Fietsen", docks: "🅿️ Plaatsen", fill: "📊 Bezetting" },
+    units: { bikes: "fietsen", docks: "plaatsen", fill: "" },
+    good: "Goed",
+    low: "Laag",
+    empty: "Leeg",
+    closed: {
+      bikes: "Gesloten / ontlenen onderbroken",
+      docks: "Gesloten / terugbrengen onmogelijk",
+      fill: "Gesloten / ontlenen onderbroken",
+    },
+    clusters: "Groepen: fietsen / vrije plaatsen",
+    bikes: "Beschikbare fietsen",
+    docks: "Vrije plaatsen",
+    none: "geen",
+    many: (n) => `${n} of meer`,
+    emptying: "Loopt leeg: leeg binnen het uur",
+    filling: "Loopt vol: vol binnen het uur",
+    urgency: "Grotere halo = sneller",
+  },
+  replay: {
+    title: "Herbekijken",
+    start: "⏪ De dag herbekijken",
+    stop: "Terug naar live",
+    hint: "Speel de opgeslagen metingen af om het netwerk in de loop van de dag te zien leeg- en vollopen.",
+    play: "▶ Afspelen",
+    pause: "⏸ Pauze",
+    speed: "Snelheid",
+    jump: "Ga naar",
+    slider: "Positie in de geschiedenis",
+    frame: "Meting van",
+    loading: "Laden…",
+    empty: "Geen geschiedenis opgeslagen voor dit netwerk.",
+    perSecond: (min) => (min >= 60 ? `${min / 60} u / s` : `${min} min / s`),
+  },
+  favorites: {
+    title: "Mijn stations",
+    hint: "Voeg een station toe met ☆ in zijn ballon op de kaart.",
+    remove: "Verwijderen uit favorieten",
+    closed: "Gesloten",
+    bikes: "fietsen",
+    docks: "plaatsen",
+    elsewhere: {
+      one: "# favoriet op een ander netwerk",
+      other: "# favorieten op een ander netwerk",
+    },
+    sync: "Synchronisatie",
+    syncHint:
+      "Vind je favorieten terug op een ander toestel (of deel ze met je team) dankzij een anonieme code.",
+    enable: "☁️ Inschakelen",
+    join: "Deze code gebruiken",
+    codePlaceholder: "Bestaande code…",
+    code: "Code",
+    disable: "Uitschakelen",
+    states: {
+      off: "",
+      syncing: "Synchroniseren…",
+      synced: "✓ Gesynchroniseerd",
+      error: "Synchronisatie mislukt",
+    },
+  },
+  alerts: {
+    title: "Meldingen",
+    hint: "Klik op 🔔 in de ballon van een station om verwittigd te worden, ook als het tabblad dicht is.",
+    notify: "Verwittig mij wanneer",
+    has: "minstens",
+    bikes: "fietsen",
+    docks: "plaatsen",
+    create: "Melding aanmaken",
+    cancel: "Annuleren",
+    created: "✓ Melding aangemaakt",
+    remove: "Melding verwijderen",
+    until: "tot",
+    errors: {
+      unsupported: "Meldingen worden niet ondersteund door deze browser.",
+      denied: "Meldingen geweigerd: sta ze toe in je browser.",
+      unconfigured: "Meldingen zijn niet ingesteld op de server.",
+      "too-many": "Te veel openstaande meldingen.",
+      failed: "De melding kon niet worden aangemaakt.",
+    },
+  },
+  nearby: {
+    title: "In de buurt",
+    bike: "🚲 Vind een fiets",
+    dock: "🅿️ Vind een plaats",
+    locate: "📍 Rond mij",
+    locating: "Lokaliseren…",
+    denied: "Locatie onbeschikbaar",
+    hint: "Deel je locatie om de dichtstbijzijnde stations te tonen.",
+    empty: "Geen bruikbaar station in de buurt.",
+    walk: "te voet",
+  },
+  trip: {
+    title: "Routeplanner",
+    origin: "Vertrek",
+    destination: "Aankomst",
+    placeholder: "Adres…",
+    search: "Zoeken",
+    pick: "📍 Kaart",
+    picking: "Klik op de kaart",
+    swap: "⇅ Omwisselen",
+    clear: "Wissen",
+    noResult: "Geen adres gevonden",
+    hint: "Typ een adres of klik op de kaart voor het vertrek- en aankomstpunt.",
+    noStation: "Geen station op wandelafstand.",
+    walkTo: "Wandel naar",
+    rideTo: "Fiets naar",
+    walkToDestination: "Wandel naar de bestemming",
+    bikes: "fietsen",
+    docks: "plaatsen",
+    nearlyEmpty: "Bijna leeg",
+    nearlyFull: "Bijna vol",
+    fallback: "alternatief",
+    total: "Totaal",
+    walkFaster: "Te voet is sneller",
+    checked: "Beschikbaarheid gecontroleerd om",
+    stale: "gegevens uit de cache, bron onbeschikbaar",
+    planning: "Berekenen…",
+  },
+  station: {
+    back: "← Alle stations",
+    bikes: "Fietsen",
+    docks: "Vrije plaatsen",
+    capacity: "Capaciteit",
+    ebikes: "elektrisch",
+    mechanical: "mechanisch",
+    reported: "Gemeten om",
+    closed: "⛔ Station buiten dienst",
+    notRenting: "⛔ Ontlenen onderbroken",
+    notReturning: "⚠️ Terugbrengen onmogelijk",
+    history: "Laatste 24 uur",
+    noHistory: "Nog geen geschiedenis voor dit station.",
+    alternatives: "Alternatieven in de buurt",
+    noAlternatives: "Geen ander station met fietsen in de buurt.",
+    walk: "te voet",
+    freeDocks: { one: "# vrije plaats", other: "# vrije plaatsen" },
+    summary: (bikes, docks) => `${bikes} en ${docks}`,
+  },
+  chart: {
+    bikes: "Fietsen",
+    docks: "Plaatsen",
+    title: "Fietsen en vrije plaatsen",
+  },
+  ops: {
+    link: "🛠️ Operatordashboard",
+    back: "← Stationskaart",
+    title: "Herverdeling van de vloot",
+    intro:
+      "Lege of volle stations, hoe lang al, en voorgestelde fietsverplaatsingen voor de terreinploegen.",
+    network: "Fietsnetwerk",
+    updated: "Gegevens van",
+    stale: "bron onbeschikbaar, laatst bekende gegevens",
+    loadError: "Fout bij het laden:",
+    levels: {
+      empty: "Leeg",
+      "nearly-empty": "Bijna leeg",
+      "nearly-full": "Bijna vol",
+      full: "Vol",
+    },
+    stations: "Onevenwichtige stations",
+    balanced: "Geen onevenwichtig station.",
+    station: "Station",
+    state: "Toestand",
+    bikes: "Fietsen",
+    docks: "Plaatsen",
+    fill: "Bezetting",
+    since: "Sinds",
+    duration: (h, min) =>
+      h ? `${h} u ${String(min).padStart(2, "0")}` : `${min} min`,
+    moves: "Voorgestelde verplaatsingen",
+    noMoves:
+      "Geen verplaatsingen mogelijk binnen 3 km van de lege of volle stations.",
+    move: (bikes) => `Verplaats ${bikes}`,
+  },
+  stats: {
+    link: "📊 Netwerkstatistieken",
+    back: "← Stationskaart",
+    title: "Netwerkstatistieken",
+    intro:
+      "Bezettingsgraad, lege of volle stations en geschatte ritten, op basis van de door de API opgeslagen metingen.",
+    network: "Fietsnetwerk",
+    ranges: { day: "24 u", week: "7 dagen" },
+    loadError: "Fout bij het laden:",
+    occupancy: "Bezettingsgraad",
+    bikes: "Fietsen in station",
+    docks: "Vrije plaatsen",
+    empty: "Lege stations",
+    full: "Volle stations",
+    active: (active, total) => `${active} / ${total} in dienst`,
+    occupancyChart: "Bezettingsgraad van het netwerk",
+    levelsChart: "Lege en volle stations",
+    hoursChart: "Ritten per uur van de dag",
+    hoursHint:
+      "Wijzigingen in het aantal fietsen opgeteld over de periode; de drie drukste uren zijn gemarkeerd.",
+    turnover: (moves) => `Geschatte ritten: ${moves}`,
+    busiest: "Drukste stations",
+    moves: { one: "# rit", other: "# ritten" },
+    noHistory: "Nog niet genoeg geschiedenis voor dit netwerk.",
+  },
+  downloads: {
+    title: "Open data",
+    intro:
+      "Download de gegevens voor een GIS of een rekenblad. De geschiedenis beslaat de laatste 24 u.",
+    range: "De geschiedenis beslaat de weergegeven periode.",
+    stations: "Stations",
+    history: "Geschiedenis",
+    gbfs: "GBFS-feed",
+    gbfsHint: "gbfs.json-toegangspunt van onze samengevoegde gegevens",
+  },
+};
+
+export default nl;
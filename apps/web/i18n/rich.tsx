@@ -0,0 +1,26 @@
+import type { ReactNode } from "react";
+
+const TAG = /<(code|strong)>(.*?)<\/\1>/g;
+
+/**
+ * Texte de catalogue avec une mise en forme minimale : `<code>` et `<strong>`
+ * (les traductions restent des chaînes, sans HTML arbitraire).
+ */
+export function rich(text: string): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(TAG)) {
+    const [whole, tag, content] = match;
+    parts.push(text.slice(last, match.index));
+    parts.push(
+      tag === "code" ? (
+        <code key={match.index}>{content}</code>
+      ) : (
+        <strong key={match.index}>{content}</strong>
+      )
+    );
+    last = match.index + whole.length;
+  }
+  parts.push(text.slice(last));
+  return parts.filter((p) => p !== "");
+}
@@ -0,0 +1,59 @@
+const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+/** Identifiant d'un système GBFS (?system=...) */
+export const SYSTEM = /^[a-z0-9_-]+$/i;
+/** date ISO 8601 ou timestamp en ms */
+export const TIME = /^(?:\d+|\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:\d{2})?)$/;
+/** durée : "1800", "30s", "15m", "1h" */
+export const DURATION = /^\d+[smh]?$/;
+export const LAT_LON = /^-?\d+(?:\.\d+)?,-?\d+(?:\.\d+)?$/;
+
+export function badRequest(error: string) {
+  return Response.json({ error }, { status: 400 });
+}
+
+/** Base de l'API pour `system` (`/systems/<id>`), système par défaut sinon */
+export function apiBase(system: string | null = null) {
+  return system ? `${API_URL}/systems/${system}` : API_URL;
+}
+
+/** `?a=1&b=2`, ou rien sans paramètre */
+export function queryString(params: URLSearchParams) {
+  return params.size ? `?${params}` : "";
+}
+
+export type ProxyQuery = {
+  system: string | null;
+  /** base de l'API du système demandé */
+  base: string | undefined;
+  /** paramètres validés, à relayer tels quels */
+  forwarded: URLSearchParams;
+};
+
+/**
+ * Valide la query d'une route relais : `?system=...` et les paramètres de
+ * `params` (format attendu de chacun), seuls relayés à l'API ; les autres
+ * (anti-cache `?_=`, `utm_*`...) sont ignorés. Renvoie une réponse 400 si un
+ * paramètre relayé est invalide.
+ */
+export function parseQuery(
+  request: Request,
+  params: Record<string, RegExp> = {}
+): ProxyQuery | Response {
+  const forwarded = new URLSearchParams();
+  let system: string | null = null;
+
+  for (const [key, value] of new URL(request.url).searchParams) {
+    if (key === "system") {
+      if (!SYSTEM.test(value)) return badRequest("invalid system");
+      system = value;
+      continue;
+    }
+    const format = params[key];
+    if (!format) continue;
+    if (!format.test(value)) return badRequest(`invalid ${key}`);
+    forwarded.set(key, value);
+  }
+
+  return { system, base: apiBase(system), forwarded };
+}
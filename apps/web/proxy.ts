@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { LOCALE_COOKIE, negotiateLocale, splitLocale } from "@/i18n/config";
+
+/**
+ * Chaque page vit sous un préfixe de langue (`/fr`, `/en`, `/nl`). Sans
+ * préfixe, on redirige vers la langue mémorisée (cookie) ou, à la première
+ * visite, vers celle préférée par le navigateur (Accept-Language).
+ */
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (splitLocale(pathname).locale) return NextResponse.next();
+
+  const locale = negotiateLocale(
+    request.headers.get("accept-language"),
+    request.cookies.get(LOCALE_COOKIE)?.value
+  );
+  const url = request.nextUrl.clone();
+  url.pathname = pathname === "/" ? `/${locale}` : `/${locale}${pathname}`;
+  url.search = search;
+  const res = NextResponse.redirect(url);
+  // la réponse dépend de ces en-têtes : pas de cache partagé entre langues
+  res.headers.set("Vary", "Accept-Language, Cookie");
+  return res;
+}
+
+export const config = {
+  // ni l'API, ni les fichiers de Next, ni les fichiers statiques (sw.js, icônes…)
+  matcher: ["/((?!api|_next|.*\\..*).*)"],
+};
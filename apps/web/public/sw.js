@@ -0,0 +1,255 @@
+/*
+ * Service worker : app installable utilisable sans réseau (coquille, tuiles
+ * déjà vues, dernier snapshot des stations) et notifications des alertes
+ * de disponibilité (Web Push).
+ */
+
+// à incrémenter quand la forme des caches change : les anciens sont purgés
+const VERSION = "v1";
+const SHELL_CACHE = `vlille-shell-${VERSION}`;
+const TILES_CACHE = `vlille-tiles-${VERSION}`;
+const DATA_CACHE = `vlille-data-${VERSION}`;
+
+// Au-delà, les entrées les plus anciennes sont évincées
+const SHELL_LIMIT = 300;
+const TILES_LIMIT = 1500;
+
+// Réseau trop lent (métro) : on sert la copie plutôt que d'attendre
+const NETWORK_TIMEOUT_MS = 4000;
+
+const PRECACHE = [
+  "/manifest.webmanifest",
+  "/favicon.ico",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+const HOMES = ["/fr", "/en", "/nl"];
+const TILE_HOST = /^[abc]\.tile\.openstreetmap\.org$/;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      // une ressource manquante ne doit pas bloquer l'installation
+      .then((cache) => Promise.allSettled(PRECACHE.map((u) => cache.add(u))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, TILES_CACHE, DATA_CACHE];
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((n) => n.startsWith("vlille-") && !current.includes(n))
+            .map((n) => caches.delete(n))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+/* ---------------- Hors ligne ---------------- */
+
+/** Cache d'une URL, ou `null` si elle ne doit pas être gardée */
+function cacheFor(url) {
+  if (TILE_HOST.test(url.hostname)) return TILES_CACHE;
+  if (url.origin !== self.location.origin) return null;
+  if (url.pathname === "/api/stations") return DATA_CACHE;
+  if (
+    url.pathname.startsWith("/_next/static/") ||
+    PRECACHE.includes(url.pathname)
+  ) {
+    return SHELL_CACHE;
+  }
+  return null;
+}
+
+/** Clé de cache : pages et ressources statiques sans paramètres (?_rsc, ?v=...) */
+function keyFor(url) {
+  const cacheName = cacheFor(url);
+  return cacheName === DATA_CACHE || cacheName === TILES_CACHE
+    ? url.href
+    : url.origin + url.pathname;
+}
+
+/** Range une réponse, puis évince les plus anciennes au-delà de `limit` */
+async function store(cacheName, key, response, limit) {
+  const cache = await caches.open(cacheName);
+  await cache.put(key, response);
+  if (!limit) return;
+  const keys = await cache.keys();
+  const extra = keys.length - limit;
+  if (extra > 0)
+    await Promise.all(keys.slice(0, extra).map((k) => cache.delete(k)));
+}
+
+/**
+ * Snapshot des stations tel qu'il sera resservi hors ligne : marqué
+ * `X-Offline` et daté (`X-Cached-At`) pour que la page l'affiche comme tel.
+ */
+async function snapshot(response) {
+  const headers = new Headers(response.headers);
+  headers.set("X-Offline", "true");
+  headers.set("X-Cached-At", new Date().toUTCString());
+  // resservi quels que soient les en-têtes de la requête (If-None-Match...)
+  headers.delete("Vary");
+  return new Response(await response.blob(), {
+    status: response.status,
+    headers,
+  });
+}
+
+/** Range une réponse réseau dans son cache (sous la forme attendue) */
+async function save(url, response) {
+  const cacheName = cacheFor(url);
+  if (cacheName === DATA_CACHE) {
+    return store(DATA_CACHE, keyFor(url), await snapshot(response));
+  }
+  if (cacheName === TILES_CACHE) {
+    return store(TILES_CACHE, keyFor(url), response, TILES_LIMIT);
+  }
+  // pages et ressources statiques
+  return store(SHELL_CACHE, keyFor(url), response, SHELL_LIMIT);
+}
+
+/**
+ * Réseau d'abord, copie en secours : si le réseau échoue, ou s'il tarde
+ * alors qu'une copie existe. La réponse réseau, même tardive, met la copie
+ * à jour.
+ */
+async function networkFirst(event, url, cached) {
+  const network = fetch(event.request);
+  // clone pris avant que la page ne lise le corps
+  event.waitUntil(
+    network
+      .then((response) => response.ok && save(url, response.clone()))
+      .catch(() => {})
+  );
+
+  const copy = await cached;
+  if (!copy) return network;
+
+  const late = new Promise((resolve) =>
+    setTimeout(resolve, NETWORK_TIMEOUT_MS)
+  );
+  const response = await Promise.race([network.catch(() => null), late]);
+  return response || copy;
+}
+
+/** Copie d'une page, sinon l'accueil de sa langue (ou d'une autre) */
+async function cachedPage(url) {
+  const cache = await caches.open(SHELL_CACHE);
+  const locale = url.pathname.split("/")[1];
+  for (const path of [url.pathname, `/${locale}`, ...HOMES]) {
+    const hit = await cache.match(url.origin + path);
+    if (hit) return hit;
+  }
+  return undefined;
+}
+
+/** Tuiles : une tuile déjà vue est resservie telle quelle */
+async function cacheFirst(event, url) {
+  const hit = await caches.match(keyFor(url), { cacheName: TILES_CACHE });
+  if (hit) return hit;
+  const response = await fetch(event.request);
+  if (response.ok) event.waitUntil(save(url, response.clone()));
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate" && url.origin === self.location.origin) {
+    event.respondWith(
+      networkFirst(
+        event,
+        url,
+        caches.match(keyFor(url), { cacheName: SHELL_CACHE })
+      ).catch(async (err) => (await cachedPage(url)) || Promise.reject(err))
+    );
+    return;
+  }
+
+  const cacheName = cacheFor(url);
+  if (cacheName === TILES_CACHE) {
+    event.respondWith(cacheFirst(event, url));
+  } else if (cacheName) {
+    event.respondWith(
+      networkFirst(event, url, caches.match(keyFor(url), { cacheName }))
+    );
+  }
+});
+
+// La page affichée avant l'installation n'est pas passée par le service
+// worker : elle envoie son adresse et ses ressources (scripts, tuiles,
+// stations) pour qu'elles soient disponibles hors ligne
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "warm") return;
+  event.waitUntil(warm(event.data.page, event.data.urls));
+});
+
+async function warm(page, urls) {
+  const wanted = urls
+    .map((href) => new URL(href, self.location.origin))
+    .filter((url) => cacheFor(url));
+
+  for (const url of [new URL(page), ...wanted]) {
+    if (url.href !== page && (await caches.match(keyFor(url)))) continue;
+    try {
+      const response = await fetch(url.href);
+      if (response.ok) await save(url, response);
+    } catch {
+      // hors ligne entre-temps : la prochaine visite complétera
+    }
+  }
+}
+
+/* ---------------- Notifications ---------------- */
+
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "V’Lille", {
+      body: data.body,
+      tag: data.tag,
+      icon: "/icons/icon-192.png",
+      data: { url: data.url || "/" },
+    })
+  );
+});
+
+// Clic : on réutilise un onglet ouvert de l'app, sinon on en ouvre un
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(
+    event.notification.data?.url || "/",
+    self.location.origin
+  );
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        const client = clients.find(
+          (c) => new URL(c.url).origin === url.origin
+        );
+        if (client) {
+          client.navigate(url.href);
+          return client.focus();
+        }
+        return self.clients.openWindow(url.href);
+      })
+  );
+});
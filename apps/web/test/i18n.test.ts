@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  LOCALES,
+  formatDistance,
+  getMessages,
+  localizePath,
+  negotiateLocale,
+  plural,
+  splitLocale,
+} from "@/i18n";
+
+/** Chemins des clés d'un catalogue ("home.title", "units.bikes.one"…) */
+function keys(value: unknown, prefix = ""): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [prefix];
+  }
+  return Object.entries(value).flatMap(([k, v]) =>
+    keys(v, prefix ? `${prefix}.${k}` : k)
+  );
+}
+
+describe("negotiateLocale", () => {
+  it("prefers the cookie, then Accept-Language by quality", () => {
+    expect(negotiateLocale("en-GB,en;q=0.9", "nl")).toBe("nl");
+    expect(negotiateLocale("de-DE,nl-BE;q=0.8,en;q=0.9")).toBe("en");
+    expect(negotiateLocale("nl-BE,nl;q=0.9,fr;q=0.8", "xx")).toBe("nl");
+  });
+
+  it("falls back to French", () => {
+    expect(negotiateLocale("de-DE,es;q=0.5")).toBe("fr");
+    expect(negotiateLocale(null)).toBe("fr");
+    expect(negotiateLocale("en;q=0")).toBe("fr");
+  });
+});
+
+describe("locale paths", () => {
+  it("splits and swaps the locale prefix", () => {
+    expect(splitLocale("/en/stations/36")).toEqual({
+      locale: "en",
+      rest: "/stations/36",
+    });
+    expect(splitLocale("/stations/36").locale).toBeNull();
+    expect(localizePath("nl", "/en/stations/36")).toBe("/nl/stations/36");
+    expect(localizePath("fr", "/en")).toBe("/fr");
+  });
+});
+
+// espaces insécables selon la version d'ICU : on compare des espaces simples
+const spaces = (text: string) => text.replace(/\s/g, " ");
+
+describe("formatting", () => {
+  it("agrees plurals and formats numbers per locale", () => {
+    const { units } = getMessages("fr");
+    expect(plural("fr", 1, units.bikes)).toBe("1 vélo");
+    expect(plural("fr", 0, units.bikes)).toBe("0 vélo");
+    expect(plural("en", 0, getMessages("en").units.bikes)).toBe("0 bikes");
+    expect(plural("nl", 3, getMessages("nl").units.docks)).toBe("3 plaatsen");
+    expect(spaces(formatDistance("fr", 1250))).toBe("1,3 km");
+    expect(spaces(formatDistance("en", 1250))).toBe("1.3 km");
+    expect(spaces(formatDistance("nl", 350))).toBe("350 m");
+  });
+});
+
+describe("catalogs", () => {
+  it("translate every key of the French reference", () => {
+    const reference = keys(getMessages("fr")).sort();
+    for (const locale of LOCALES) {
+      expect(keys(getMessages(locale)).sort()).toEqual(reference);
+    }
+  });
+});
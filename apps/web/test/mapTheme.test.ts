@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { Station } from "@vlille/contracts";
+import {
+  DEFAULT_THEME,
+  levelRanges,
+  stationLevel,
+  usableCounts,
+} from "@/components/mapTheme";
+
+const station = (patch: Partial<Station>): Station => ({
+  id: "36",
+  systemId: "lille",
+  name: "LILLE FLANDRES",
+  lat: 50.63659,
+  lon: 3.07005,
+  bikes: 12,
+  docks: 26,
+  isInstalled: true,
+  isRenting: true,
+  isReturning: true,
+  ...patch,
+});
+
+describe("stationLevel", () => {
+  it("colors by bikes, docks or fill ratio with the theme thresholds", () => {
+    const s = station({ bikes: 2, docks: 30 });
+
+    expect(stationLevel(s, "bikes")).toBe("low");
+    expect(stationLevel(s, "docks")).toBe("good");
+    expect(stationLevel(s, "fill")).toBe("low");
+    expect(stationLevel(station({ docks: 0 }), "docks")).toBe("empty");
+    expect(stationLevel(station({ bikes: 20, docks: 20 }), "fill")).toBe(
+      "good"
+    );
+  });
+
+  it("closes a station for the blocked operation only", () => {
+    const s = station({ isReturning: false });
+
+    expect(stationLevel(s, "bikes")).toBe("good");
+    expect(stationLevel(s, "docks")).toBe("closed");
+    expect(usableCounts(s)).toEqual({ bikes: 12, docks: 0 });
+  });
+});
+
+describe("levelRanges", () => {
+  it("derives the legend from the thresholds", () => {
+    const { station: low } = DEFAULT_THEME.thresholds;
+
+    expect(levelRanges(low.bikes, "bikes")).toEqual({
+      good: "≥ 4",
+      low: "1–3",
+      empty: "0",
+    });
+    expect(levelRanges(low.fill, "fill")).toEqual({
+      good: "> 25 %",
+      low: "≤ 25 %",
+      empty: "0 %",
+    });
+  });
+});
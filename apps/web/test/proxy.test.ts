@@ -0,0 +1,65 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+type ProxyModule = typeof import("@/lib/proxy");
+
+let parseQuery: ProxyModule["parseQuery"];
+let TIME: ProxyModule["TIME"];
+
+beforeAll(async () => {
+  vi.stubEnv("NEXT_PUBLIC_API_URL", "http://api:4000");
+  ({ parseQuery, TIME } = await import("@/lib/proxy"));
+});
+
+const request = (qs: string) => new Request(`http://localhost/api/x${qs}`);
+
+async function error(result: Response | object) {
+  expect(result).toBeInstanceOf(Response);
+  const res = result as Response;
+  expect(res.status).toBe(400);
+  return (await res.json()).error;
+}
+
+describe("parseQuery", () => {
+  it("forwards known parameters to the requested system", () => {
+    const query = parseQuery(request("?system=lille&from=1700000000000"), {
+      from: TIME,
+    });
+
+    expect(query).not.toBeInstanceOf(Response);
+    expect(query).toMatchObject({
+      system: "lille",
+      base: "http://api:4000/systems/lille",
+    });
+    expect(String((query as { forwarded: URLSearchParams }).forwarded)).toBe(
+      "from=1700000000000"
+    );
+  });
+
+  it("uses the default system without ?system", () => {
+    expect(parseQuery(request(""))).toMatchObject({
+      system: null,
+      base: "http://api:4000",
+    });
+  });
+
+  it("rejects invalid parameters", async () => {
+    expect(await error(parseQuery(request("?system=../admin")))).toBe(
+      "invalid system"
+    );
+    expect(
+      await error(parseQuery(request("?from=yesterday"), { from: TIME }))
+    ).toBe("invalid from");
+  });
+
+  it("ignores parameters the route does not forward", () => {
+    const query = parseQuery(
+      request("?_=1700000000000&utm_source=newsletter&from=1700000000000"),
+      { from: TIME }
+    );
+
+    expect(query).not.toBeInstanceOf(Response);
+    expect(String((query as { forwarded: URLSearchParams }).forwarded)).toBe(
+      "from=1700000000000"
+    );
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { nextRefreshIn } from "@/hooks/useRefreshScheduler";
+
+const visible = { hidden: false, online: true };
+
+describe("nextRefreshIn", () => {
+  it("waits for the rest of the period", () => {
+    expect(nextRefreshIn(60_000, 15_000, visible)).toBe(45_000);
+  });
+
+  it("is due right away once the period has elapsed", () => {
+    expect(nextRefreshIn(60_000, 60_000, visible)).toBe(0);
+    expect(nextRefreshIn(60_000, 5 * 60_000, visible)).toBe(0);
+  });
+
+  it("pauses while the tab is hidden or offline", () => {
+    expect(
+      nextRefreshIn(60_000, 5 * 60_000, { hidden: true, online: true })
+    ).toBeNull();
+    expect(
+      nextRefreshIn(60_000, 5 * 60_000, { hidden: false, online: false })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+type Reply = {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string;
+};
+
+/** API factice : enregistre les requêtes reçues, répond `reply` */
+let reply: Reply;
+let received: http.IncomingMessage[] = [];
+let upstream: http.Server;
+let GET: (request: Request) => Promise<Response>;
+
+const STATIONS = JSON.stringify([{ id: "36", systemId: "lille", bikes: 12 }]);
+
+beforeAll(async () => {
+  upstream = http.createServer((req, res) => {
+    received.push(req);
+    res.writeHead(reply.status, reply.headers);
+    res.end(reply.body);
+  });
+  await new Promise<void>((resolve) => upstream.listen(0, resolve));
+  const { port } = upstream.address() as AddressInfo;
+
+  vi.stubEnv("NEXT_PUBLIC_API_URL", `http://localhost:${port}`);
+  ({ GET } = await import("@/app/api/stations/route"));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  upstream.close();
+});
+
+beforeEach(() => {
+  received = [];
+  reply = {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      ETag: '"abc"',
+      "Last-Modified": "Sat, 18 Oct 2025 08:00:00 GMT",
+      "Cache-Control": "public, max-age=30, stale-while-revalidate=60",
+      "X-Total-Count": "1",
+      "X-Data-Stale": "false",
+    },
+    body: STATIONS,
+  };
+});
+
+const get = (query = "", headers?: HeadersInit) =>
+  GET(new Request(`http://localhost/api/stations${query}`, { headers }));
+
+describe("GET /api/stations (proxy)", () => {
+  it("forwards validated filters and the system to the API", async () => {
+    const res = await get("?system=lille&min=2&sort=bikes");
+
+    expect(received.map((r) => r.url)).toEqual([
+      "/systems/lille/stations?min=2&sort=bikes",
+    ]);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(STATIONS);
+    expect(res.headers.get("ETag")).toBe('"abc"');
+    expect(res.headers.get("Cache-Control")).toContain(
+      "stale-while-revalidate"
+    );
+    expect(res.headers.get("X-Total-Count")).toBe("1");
+    expect(res.headers.get("X-Data-Stale")).toBe("false");
+  });
+
+  it("does not forward parameters the API does not know", async () => {
+    const res = await get("?_=1700000000000&utm_source=x&min=2");
+
+    expect(res.status).toBe(200);
+    expect(received.map((r) => r.url)).toEqual(["/stations?min=2"]);
+  });
+
+  it("rejects invalid parameters without calling the API", async () => {
+    expect((await get("?min=-1")).status).toBe(400);
+    expect((await get("?system=../admin")).status).toBe(400);
+    expect(received).toHaveLength(0);
+  });
+
+  it("relays conditional requests and 304 answers", async () => {
+    reply = { status: 304, headers: { ETag: '"abc"' } };
+    const res = await get("", { "If-None-Match": '"abc"' });
+
+    expect(received[0].headers["if-none-match"]).toBe('"abc"');
+    expect(res.status).toBe(304);
+    expect(res.headers.get("ETag")).toBe('"abc"');
+    expect(await res.text()).toBe("");
+  });
+
+  it("forwards 404 bodies and hides other upstream failures", async () => {
+    reply = { status: 404, body: JSON.stringify({ error: "unknown system" }) };
+    const notFound = await get("?system=nope");
+    expect(notFound.status).toBe(404);
+    expect(await notFound.json()).toEqual({ error: "unknown system" });
+
+    reply = { status: 500, body: JSON.stringify({ error: "boom" }) };
+    const failed = await get();
+    expect(failed.status).toBe(502);
+    expect(await failed.text()).toBe("Upstream error");
+  });
+});
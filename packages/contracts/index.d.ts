@@ -0,0 +1,42 @@
+/**
+ * Contrat partagé entre `apps/api` et `apps/web` : forme des stations telles
+ * que l'API les expose (`GET /stations`, flux SSE, `/stations/nearest`…).
+ * Types seulement, à importer avec `import type` depuis `@vlille/contracts`.
+ */
+
+export type VehicleTypeCount = {
+  id: string;
+  count: number;
+  name?: string;
+  /** `human`, `electric_assist`, `electric`… (feed `vehicle_types`) */
+  propulsion?: string;
+};
+
+/**
+ * Station fusionnée (station_information + station_status). Les stations
+ * sans information (nom, position) sont écartées par l'API, d'où `name`,
+ * `lat` et `lon` obligatoires.
+ */
+export type Station = {
+  id: string;
+  systemId: string;
+  name: string;
+  lat: number;
+  lon: number;
+  bikes: number;
+  docks: number;
+  address?: string;
+  capacity?: number;
+  /** vélos mécaniques / électriques, quand le réseau publie la répartition */
+  mechanical?: number;
+  ebikes?: number;
+  vehicleTypes?: VehicleTypeCount[];
+  isInstalled: boolean;
+  isRenting: boolean;
+  isReturning: boolean;
+  /** dernière remontée de la station (ms epoch) */
+  lastReported?: number;
+};
+
+/** Événement `changes` du flux SSE : stations modifiées et disparues */
+export type StationsDiff = { changed: Station[]; removed: string[] };